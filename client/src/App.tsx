@@ -8,6 +8,8 @@ import { useAuth } from "@/hooks/useAuth";
 import Dashboard from "@/pages/dashboard";
 import Profile from "@/pages/profile";
 import Settings from "@/pages/settings";
+import Bills from "@/pages/bills";
+import Trash from "@/pages/trash";
 import AuthPage from "@/pages/auth";
 import NotFound from "@/pages/not-found";
 
@@ -31,6 +33,8 @@ function Router() {
       <Route path="/" component={Dashboard} />
       <Route path="/profile" component={Profile} />
       <Route path="/settings" component={Settings} />
+      <Route path="/bills" component={Bills} />
+      <Route path="/trash" component={Trash} />
       <Route component={NotFound} />
     </Switch>
   );
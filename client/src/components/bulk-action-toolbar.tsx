@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { Archive, ArchiveRestore, Bell, CheckCircle2, Download, FolderInput, Tag, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useBulkMailItems } from "@/hooks/use-mail-items";
+import { useToast } from "@/hooks/use-toast";
+import type { BulkAction, BulkExport, BulkResult } from "@shared/bulk-actions";
+import { categories } from "@shared/schema";
+
+interface BulkActionToolbarProps {
+  selectedIds: number[];
+  // Items currently loaded in the grid, for "Select all"
+  visibleIds: number[];
+  archivedView: boolean;
+  onSelectionChange: (ids: number[]) => void;
+  onClose: () => void;
+}
+
+const actionLabels: Record<BulkAction["type"], string> = {
+  "recategorize": "Category changed",
+  "tag": "Tags updated",
+  "set-reminder": "Reminder updated",
+  "mark-paid": "Marked as paid",
+  "archive": "Archive updated",
+  "delete": "Moved to trash",
+  "export": "Export ready",
+};
+
+function pluralize(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function downloadExport(file: BulkExport) {
+  const blob = new Blob([file.content], { type: `${file.contentType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+export function BulkActionToolbar({ selectedIds, visibleIds, archivedView, onSelectionChange, onClose }: BulkActionToolbarProps) {
+  const bulkMailItems = useBulkMailItems();
+  const { toast } = useToast();
+  const [tagInput, setTagInput] = useState("");
+  const [reminderDate, setReminderDate] = useState("");
+
+  const count = selectedIds.length;
+  const hasSelection = count > 0;
+  const isBusy = bulkMailItems.isPending;
+
+  // Summarise the per-item results: failures explain why nothing changed, skips are reported alongside successes
+  const reportResult = (action: BulkAction, result: BulkResult) => {
+    const failed = result.results.filter(item => item.status === "failed");
+    const skipped = result.results.filter(item => item.status === "skipped");
+
+    if (!result.applied) {
+      toast({
+        title: "No changes made",
+        description: `${pluralize(failed.length, "item")} could not be updated: ${failed[0]?.message || "unknown error"}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const done = result.results.length - skipped.length;
+    const skippedNote = skipped.length > 0
+      ? ` ${pluralize(skipped.length, "item")} skipped (${Array.from(new Set(skipped.map(item => item.message))).join(", ")}).`
+      : "";
+    toast({ title: actionLabels[action.type], description: `${pluralize(done, "item")} updated.${skippedNote}` });
+  };
+
+  const runAction = async (action: BulkAction) => {
+    if (!hasSelection) return;
+
+    try {
+      const result = await bulkMailItems.mutateAsync({ ids: selectedIds, action });
+      if (action.type === "export" && result.export) {
+        downloadExport(result.export);
+      }
+      reportResult(action, result);
+
+      // Archived or deleted items leave the current view
+      if (result.applied && (action.type === "archive" || action.type === "delete")) {
+        onSelectionChange([]);
+      }
+    } catch (error) {
+      toast({
+        title: "Bulk action failed",
+        description: "There was an error updating the selected items. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTag = (mode: "add" | "remove") => {
+    const tag = tagInput.trim();
+    if (!tag) return;
+    runAction({ type: "tag", add: mode === "add" ? [tag] : [], remove: mode === "remove" ? [tag] : [] });
+    setTagInput("");
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Move ${pluralize(count, "item")} to the trash?`)) return;
+    runAction({ type: "delete" });
+  };
+
+  return (
+    <div className="sticky top-0 z-10 mb-4 flex flex-wrap items-center gap-2 rounded-lg border bg-white p-3 shadow-sm">
+      <span className="text-sm font-medium text-slate-900 mr-1">{count} selected</span>
+      <Button size="sm" variant="ghost" onClick={() => onSelectionChange(visibleIds)} disabled={visibleIds.length === 0}>
+        Select all
+      </Button>
+      <Button size="sm" variant="ghost" onClick={() => onSelectionChange([])} disabled={!hasSelection}>
+        Clear
+      </Button>
+
+      <div className="flex flex-wrap items-center gap-2 ml-auto">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline" disabled={!hasSelection || isBusy}>
+              <FolderInput className="w-4 h-4 mr-1" />
+              Category
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {categories.map(category => (
+              <DropdownMenuItem key={category} className="capitalize" onClick={() => runAction({ type: "recategorize", category })}>
+                {category}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="outline" disabled={!hasSelection || isBusy}>
+              <Tag className="w-4 h-4 mr-1" />
+              Tags
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-2">
+            <Input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="Tag name"
+              maxLength={50}
+              onKeyDown={(e) => e.key === "Enter" && handleTag("add")}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" onClick={() => handleTag("add")} disabled={!tagInput.trim()}>
+                Add
+              </Button>
+              <Button size="sm" variant="outline" className="flex-1" onClick={() => handleTag("remove")} disabled={!tagInput.trim()}>
+                Remove
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="outline" disabled={!hasSelection || isBusy}>
+              <Bell className="w-4 h-4 mr-1" />
+              Reminder
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-2">
+            <Input type="date" value={reminderDate} onChange={(e) => setReminderDate(e.target.value)} />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                onClick={() => runAction({ type: "set-reminder", reminderDate })}
+                disabled={!reminderDate}
+              >
+                Set
+              </Button>
+              <Button size="sm" variant="outline" className="flex-1" onClick={() => runAction({ type: "set-reminder", reminderDate: null })}>
+                Clear
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Button size="sm" variant="outline" onClick={() => runAction({ type: "mark-paid" })} disabled={!hasSelection || isBusy}>
+          <CheckCircle2 className="w-4 h-4 mr-1" />
+          Mark paid
+        </Button>
+
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => runAction({ type: "archive", archived: !archivedView })}
+          disabled={!hasSelection || isBusy}
+        >
+          {archivedView ? <ArchiveRestore className="w-4 h-4 mr-1" /> : <Archive className="w-4 h-4 mr-1" />}
+          {archivedView ? "Unarchive" : "Archive"}
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline" disabled={!hasSelection || isBusy}>
+              <Download className="w-4 h-4 mr-1" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuItem onClick={() => runAction({ type: "export", format: "csv" })}>CSV</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => runAction({ type: "export", format: "json" })}>JSON</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          size="sm"
+          variant="outline"
+          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+          onClick={handleDelete}
+          disabled={!hasSelection || isBusy}
+        >
+          <Trash2 className="w-4 h-4 mr-1" />
+          Delete
+        </Button>
+
+        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={onClose} title="Exit selection">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,167 +1,199 @@
 import { useState } from "react";
-import { Plus, Edit3, Trash2, Settings, X, Check } from "lucide-react";
+import { Plus, Edit3, Trash2, Settings, X, Check, GitMerge } from "lucide-react";
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useMailItems, useUpdateMailItem, useDeleteMailItem } from "@/hooks/use-mail-items";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMailItemSummary } from "@/hooks/use-mail-items";
+import {
+  useCategories,
+  useCreateCategory,
+  useUpdateCategory,
+  useMergeCategory,
+  useDeleteCategory,
+} from "@/hooks/use-categories";
 import { useToast } from "@/hooks/use-toast";
-import { categories } from "@shared/schema";
+import { categoryColorClasses, categoryIconComponents, getCustomCategoryStyle } from "@/lib/category-styles";
+import { categories, categoryColors, categoryIcons, type CategoryColor, type CategoryIcon, type UserCategory } from "@shared/schema";
 
 interface CategoryManagerProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+interface StylePickerProps {
+  color: CategoryColor;
+  icon: CategoryIcon;
+  onColorChange: (color: CategoryColor) => void;
+  onIconChange: (icon: CategoryIcon) => void;
+}
+
+function StylePicker({ color, icon, onColorChange, onIconChange }: StylePickerProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        {categoryColors.map((option) => (
+          <button
+            key={option}
+            type="button"
+            title={option}
+            onClick={() => onColorChange(option)}
+            className={`w-5 h-5 rounded-full ${categoryColorClasses[option].swatch} ${color === option ? "ring-2 ring-offset-1 ring-slate-900" : ""}`}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {categoryIcons.map((option) => {
+          const Icon = categoryIconComponents[option];
+          return (
+            <button
+              key={option}
+              type="button"
+              title={option}
+              onClick={() => onIconChange(option)}
+              className={`p-1.5 rounded-md ${icon === option ? `${categoryColorClasses[color].badge}` : "text-slate-500 hover:bg-slate-100"}`}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 export function CategoryManager({ isOpen, onClose }: CategoryManagerProps) {
-  const { data: mailItems = [] } = useMailItems();
-  const updateMailItem = useUpdateMailItem();
-  const deleteMailItem = useDeleteMailItem();
+  const { data: summary } = useMailItemSummary();
+  const { data: customCategories = [] } = useCategories();
+  const createCategory = useCreateCategory();
+  const updateCategory = useUpdateCategory();
+  const mergeCategory = useMergeCategory();
+  const deleteCategory = useDeleteCategory();
   const { toast } = useToast();
-  
+
   const [newCategoryName, setNewCategoryName] = useState("");
-  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const [newColor, setNewColor] = useState<CategoryColor>("indigo");
+  const [newIcon, setNewIcon] = useState<CategoryIcon>("tag");
+  const [editingId, setEditingId] = useState<number | null>(null);
   const [editValue, setEditValue] = useState("");
+  const [editColor, setEditColor] = useState<CategoryColor>("indigo");
+  const [editIcon, setEditIcon] = useState<CategoryIcon>("tag");
+  const [mergingId, setMergingId] = useState<number | null>(null);
 
-  // Get unique custom categories from existing mail items and localStorage
-  const mailItemCategories = Array.from(
-    new Set(
-      mailItems
-        .filter(item => item.category === "custom" && item.customCategory)
-        .map(item => item.customCategory!)
-    )
-  );
-  
-  const storedCategories = JSON.parse(localStorage.getItem('customCategories') || '[]');
-  const customCategories = Array.from(new Set([...mailItemCategories, ...storedCategories])).sort();
+  const countItems = (name: string) => summary?.customCategoryCounts[name] ?? 0;
 
   const handleAddCustomCategory = async () => {
     if (!newCategoryName.trim()) return;
-    
+
     const trimmedName = newCategoryName.trim();
-    
-    // Check if category already exists
-    if (customCategories.includes(trimmedName)) {
+
+    try {
+      await createCategory.mutateAsync({ name: trimmedName, color: newColor, icon: newIcon });
+
       toast({
-        title: "Category exists",
-        description: "This custom category already exists.",
+        title: "Custom category created",
+        description: `"${trimmedName}" is ready to use. Assign it to documents from the document details.`,
+      });
+
+      setNewCategoryName("");
+    } catch (error) {
+      toast({
+        title: "Could not create category",
+        description: error instanceof Error && error.message.startsWith("409")
+          ? "A category with this name already exists."
+          : "Failed to create category. Please try again.",
         variant: "destructive",
       });
-      return;
     }
+  };
 
-    // Create a dummy mail item to demonstrate the category (this will be improved later)
-    // For now, we'll just show success and the category will appear when actual documents use it
-    toast({
-      title: "Custom category created",
-      description: `"${trimmedName}" is ready to use. Assign it to documents to see it in filters.`,
-    });
-    
-    setNewCategoryName("");
-    
-    // Store the category name in localStorage temporarily for immediate UI feedback
-    const existingCustomCategories = JSON.parse(localStorage.getItem('customCategories') || '[]');
-    if (!existingCustomCategories.includes(trimmedName)) {
-      existingCustomCategories.push(trimmedName);
-      localStorage.setItem('customCategories', JSON.stringify(existingCustomCategories));
-    }
+  const startEditing = (category: UserCategory) => {
+    setMergingId(null);
+    setEditingId(category.id);
+    setEditValue(category.name);
+    setEditColor(category.color as CategoryColor);
+    setEditIcon(category.icon as CategoryIcon);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setEditValue("");
   };
 
-  const handleEditCategory = async (oldName: string, newName: string) => {
-    if (!newName.trim() || oldName === newName.trim()) {
-      setEditingCategory(null);
-      setEditValue("");
+  const handleEditCategory = async (category: UserCategory) => {
+    const trimmedNewName = editValue.trim();
+    if (!trimmedNewName) {
+      cancelEditing();
       return;
     }
 
-    const trimmedNewName = newName.trim();
-    
-    // Check if new name already exists
-    if (customCategories.includes(trimmedNewName)) {
+    try {
+      await updateCategory.mutateAsync({
+        id: category.id,
+        updates: { name: trimmedNewName, color: editColor, icon: editIcon },
+      });
+
       toast({
-        title: "Category exists",
-        description: "This custom category name already exists.",
+        title: "Category updated",
+        description: trimmedNewName !== category.name
+          ? `"${category.name}" has been renamed to "${trimmedNewName}" on all documents.`
+          : `"${category.name}" has been updated.`,
+      });
+
+      cancelEditing();
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: error instanceof Error && error.message.startsWith("409")
+          ? "A category with this name already exists. Use merge to combine them."
+          : "Failed to update category. Please try again.",
         variant: "destructive",
       });
-      return;
     }
+  };
 
-    // Update all mail items that use this custom category
-    const itemsToUpdate = mailItems.filter(
-      item => item.category === "custom" && item.customCategory === oldName
-    );
+  const handleMergeCategory = async (source: UserCategory, targetId: string) => {
+    const target = customCategories.find(category => category.id === Number(targetId));
+    if (!target) return;
+
+    if (!window.confirm(`Move all documents from "${source.name}" into "${target.name}" and remove "${source.name}"?`)) {
+      return;
+    }
 
     try {
-      await Promise.all(
-        itemsToUpdate.map(item =>
-          updateMailItem.mutateAsync({
-            id: item.id,
-            updates: {
-              customCategory: trimmedNewName,
-              title: item.title,
-              summary: item.summary,
-              category: "custom",
-              reminderDate: item.reminderDate || undefined,
-              imageUrl: item.imageUrl,
-              fileName: item.fileName,
-            },
-          })
-        )
-      );
+      const result = await mergeCategory.mutateAsync({ id: source.id, targetId: target.id });
 
       toast({
-        title: "Category renamed",
-        description: `"${oldName}" has been renamed to "${trimmedNewName}".`,
+        title: "Categories merged",
+        description: `${result.itemsUpdated} document(s) moved from "${source.name}" to "${target.name}".`,
       });
 
-      setEditingCategory(null);
-      setEditValue("");
+      setMergingId(null);
     } catch (error) {
       toast({
-        title: "Update failed",
-        description: "Failed to rename category. Please try again.",
+        title: "Merge failed",
+        description: "Failed to merge categories. Please try again.",
         variant: "destructive",
       });
     }
   };
 
-  const handleDeleteCategory = async (categoryName: string) => {
-    const itemsWithCategory = mailItems.filter(
-      item => item.category === "custom" && item.customCategory === categoryName
-    );
-
-    if (itemsWithCategory.length === 0) {
-      // Remove from localStorage
-      const existingCustomCategories = JSON.parse(localStorage.getItem('customCategories') || '[]');
-      const updatedCategories = existingCustomCategories.filter((cat: string) => cat !== categoryName);
-      localStorage.setItem('customCategories', JSON.stringify(updatedCategories));
-      
-      toast({
-        title: "Category removed",
-        description: `"${categoryName}" category has been removed.`,
-      });
+  const handleDeleteCategory = async (category: UserCategory) => {
+    const itemCount = countItems(category.name);
+
+    if (itemCount > 0 && !window.confirm(
+      `"${category.name}" is assigned to ${itemCount} document(s). The documents will be kept but lose this category. Continue?`
+    )) {
       return;
     }
 
-    const confirmDelete = window.confirm(
-      `This will delete ${itemsWithCategory.length} document(s) that use the "${categoryName}" category. Are you sure?`
-    );
-
-    if (!confirmDelete) return;
-
     try {
-      await Promise.all(
-        itemsWithCategory.map(item => deleteMailItem.mutateAsync(item.id))
-      );
-
-      // Also remove from localStorage
-      const existingCustomCategories = JSON.parse(localStorage.getItem('customCategories') || '[]');
-      const updatedCategories = existingCustomCategories.filter((cat: string) => cat !== categoryName);
-      localStorage.setItem('customCategories', JSON.stringify(updatedCategories));
+      await deleteCategory.mutateAsync(category.id);
 
       toast({
-        title: "Category deleted",
-        description: `"${categoryName}" and ${itemsWithCategory.length} associated document(s) have been deleted.`,
+        title: "Category removed",
+        description: `"${category.name}" category has been removed.`,
       });
     } catch (error) {
       toast({
@@ -172,25 +204,15 @@ export function CategoryManager({ isOpen, onClose }: CategoryManagerProps) {
     }
   };
 
-  const startEditing = (categoryName: string) => {
-    setEditingCategory(categoryName);
-    setEditValue(categoryName);
-  };
-
-  const cancelEditing = () => {
-    setEditingCategory(null);
-    setEditValue("");
-  };
-
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogTitle className="flex items-center gap-2">
           <Settings className="w-5 h-5" />
           Manage Categories
         </DialogTitle>
         <DialogDescription>
-          Add, edit, or delete custom categories for your documents.
+          Add, rename, merge or delete custom categories. They are saved to your account.
         </DialogDescription>
 
         <div className="space-y-6">
@@ -203,16 +225,20 @@ export function CategoryManager({ isOpen, onClose }: CategoryManagerProps) {
                 value={newCategoryName}
                 onChange={(e) => setNewCategoryName(e.target.value)}
                 placeholder="Enter category name"
+                maxLength={50}
                 onKeyPress={(e) => e.key === 'Enter' && handleAddCustomCategory()}
               />
-              <Button 
+              <Button
                 onClick={handleAddCustomCategory}
-                disabled={!newCategoryName.trim()}
+                disabled={!newCategoryName.trim() || createCategory.isPending}
                 className="px-3"
               >
                 <Plus className="w-4 h-4" />
               </Button>
             </div>
+            <div className="mt-2">
+              <StylePicker color={newColor} icon={newIcon} onColorChange={setNewColor} onIconChange={setNewIcon} />
+            </div>
           </div>
 
           {/* Standard categories (read-only) */}
@@ -233,67 +259,112 @@ export function CategoryManager({ isOpen, onClose }: CategoryManagerProps) {
             <div>
               <Label className="text-sm font-medium text-gray-600">Custom Categories</Label>
               <div className="mt-2 space-y-1">
-                {customCategories.map((category) => (
-                  <div key={category} className="flex items-center justify-between py-2 px-3 bg-indigo-50 rounded-md">
-                    {editingCategory === category ? (
-                      <div className="flex items-center gap-2 flex-1">
-                        <Input
-                          value={editValue}
-                          onChange={(e) => setEditValue(e.target.value)}
-                          className="h-8 text-sm"
-                          onKeyPress={(e) => {
-                            if (e.key === 'Enter') {
-                              handleEditCategory(category, editValue);
-                            } else if (e.key === 'Escape') {
-                              cancelEditing();
-                            }
-                          }}
-                          autoFocus
-                        />
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => handleEditCategory(category, editValue)}
-                          className="h-8 w-8 p-0"
-                        >
-                          <Check className="w-3 h-3" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={cancelEditing}
-                          className="h-8 w-8 p-0"
-                        >
-                          <X className="w-3 h-3" />
-                        </Button>
-                      </div>
-                    ) : (
-                      <>
-                        <span className="text-sm">{category}</span>
-                        <div className="flex items-center gap-1">
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={() => startEditing(category)}
-                            className="h-8 w-8 p-0"
-                            title="Edit category"
-                          >
-                            <Edit3 className="w-3 h-3" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={() => handleDeleteCategory(category)}
-                            className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
-                            title="Delete category"
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </Button>
+                {customCategories.map((category) => {
+                  const style = getCustomCategoryStyle(category);
+                  const Icon = style.icon;
+                  const mergeTargets = customCategories.filter(other => other.id !== category.id);
+
+                  return (
+                    <div key={category.id} className="py-2 px-3 bg-slate-50 rounded-md">
+                      {editingId === category.id ? (
+                        <div className="space-y-2">
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={editValue}
+                              onChange={(e) => setEditValue(e.target.value)}
+                              className="h-8 text-sm"
+                              maxLength={50}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                  handleEditCategory(category);
+                                } else if (e.key === 'Escape') {
+                                  cancelEditing();
+                                }
+                              }}
+                              autoFocus
+                            />
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleEditCategory(category)}
+                              disabled={updateCategory.isPending}
+                              className="h-8 w-8 p-0"
+                            >
+                              <Check className="w-3 h-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={cancelEditing}
+                              className="h-8 w-8 p-0"
+                            >
+                              <X className="w-3 h-3" />
+                            </Button>
+                          </div>
+                          <StylePicker color={editColor} icon={editIcon} onColorChange={setEditColor} onIconChange={setEditIcon} />
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-between">
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${style.badge}`}>
+                            <Icon className="w-3 h-3 mr-1" />
+                            {category.name}
+                          </span>
+                          <div className="flex items-center gap-1">
+                            <span className="text-xs text-gray-500 mr-1">{countItems(category.name)}</span>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => startEditing(category)}
+                              className="h-8 w-8 p-0"
+                              title="Edit category"
+                            >
+                              <Edit3 className="w-3 h-3" />
+                            </Button>
+                            {mergeTargets.length > 0 && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setMergingId(mergingId === category.id ? null : category.id)}
+                                className="h-8 w-8 p-0"
+                                title="Merge into another category"
+                              >
+                                <GitMerge className="w-3 h-3" />
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDeleteCategory(category)}
+                              disabled={deleteCategory.isPending}
+                              className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                              title="Delete category"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
                         </div>
-                      </>
-                    )}
-                  </div>
-                ))}
+                      )}
+
+                      {mergingId === category.id && (
+                        <div className="mt-2 flex items-center gap-2">
+                          <span className="text-xs text-gray-600 whitespace-nowrap">Merge into</span>
+                          <Select onValueChange={(value) => handleMergeCategory(category, value)}>
+                            <SelectTrigger className="h-8 text-sm">
+                              <SelectValue placeholder="Choose category" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {mergeTargets.map((target) => (
+                                <SelectItem key={target.id} value={String(target.id)}>
+                                  {target.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             </div>
           )}
@@ -313,4 +384,4 @@ export function CategoryManager({ isOpen, onClose }: CategoryManagerProps) {
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
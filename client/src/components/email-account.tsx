@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { EmailSetupWizard } from "@/components/email-setup-wizard";
+import { useEmailConfig, useRemoveEmailConfig, useTestEmailConfig } from "@/hooks/use-email-config";
+import { useToast } from "@/hooks/use-toast";
+
+// The user's own SMTP account for notification emails: its status, or the setup wizard
+export function EmailAccount() {
+  const { data } = useEmailConfig();
+  const removeConfig = useRemoveEmailConfig();
+  const testConfig = useTestEmailConfig();
+  const { toast } = useToast();
+  const [settingUp, setSettingUp] = useState(false);
+
+  if (!data) return null;
+  const { config } = data;
+
+  if (settingUp) {
+    return <EmailSetupWizard onComplete={() => setSettingUp(false)} onSkip={() => setSettingUp(false)} />;
+  }
+
+  const handleTest = async () => {
+    try {
+      const result = await testConfig.mutateAsync();
+      toast({
+        title: result.success ? "Connection works" : "Connection failed",
+        description: result.message,
+        variant: result.success ? "default" : "destructive",
+      });
+    } catch (error) {
+      toast({ title: "Connection failed", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await removeConfig.mutateAsync();
+      toast({ title: "Email account removed", description: "Emails will be sent from Posty's own address" });
+    } catch (error) {
+      toast({ title: "Could not remove email account", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  if (!config) {
+    return (
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">Emails are sent from Posty's own address.</p>
+        <Button type="button" size="sm" onClick={() => setSettingUp(true)}>
+          Set up
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm">
+        <p className="font-medium">{config.fromEmail || config.username}</p>
+        <p className="text-gray-500">
+          {config.host}:{config.port}, verified {formatDistanceToNow(new Date(config.verifiedAt), { addSuffix: true })}
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={handleTest} disabled={testConfig.isPending}>
+          {testConfig.isPending ? "Testing..." : "Test connection"}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={() => setSettingUp(true)}>
+          Change
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={handleRemove} disabled={removeConfig.isPending}>
+          Remove
+        </Button>
+      </div>
+    </div>
+  );
+}
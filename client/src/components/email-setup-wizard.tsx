@@ -2,11 +2,23 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2, Mail, CheckCircle, AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useAutoEmailSetup, useSaveEmailConfig, type AutoEmailConfig, type AutoEmailSetupResult } from "@/hooks/use-email-config";
+import { apiRequest, apiErrorText } from "@/lib/queryClient";
+
+interface ManualForm {
+  host: string;
+  port: string;
+  secure: boolean;
+  username: string;
+  password: string;
+  fromName: string;
+}
 
 interface EmailSetupWizardProps {
   onComplete: () => void;
@@ -17,20 +29,39 @@ export function EmailSetupWizard({ onComplete, onSkip }: EmailSetupWizardProps)
   const [step, setStep] = useState<'detect' | 'setup' | 'manual'>('detect');
   const [loading, setLoading] = useState(false);
   const [password, setPassword] = useState('');
-  const [autoConfig, setAutoConfig] = useState<any>(null);
-  const [setupResult, setSetupResult] = useState<any>(null);
+  const [autoConfig, setAutoConfig] = useState<AutoEmailConfig | null>(null);
+  const [setupResult, setSetupResult] = useState<AutoEmailSetupResult | null>(null);
+  const [manual, setManual] = useState<ManualForm>({ host: '', port: '587', secure: false, username: '', password: '', fromName: '' });
+  const { user } = useAuth();
+  const autoSetup = useAutoEmailSetup();
+  const saveConfig = useSaveEmailConfig();
   const { toast } = useToast();
 
+  const updateManual = (changes: Partial<ManualForm>) => setManual(current => ({ ...current, ...changes }));
+
+  // Detected providers (including those that need an app password) have their server filled in
+  const openManualSetup = (config: AutoEmailConfig | null) => {
+    setManual(current => ({
+      ...current,
+      host: config?.config?.host ?? current.host,
+      port: config?.config ? String(config.config.port) : current.port,
+      secure: config?.config?.secure ?? current.secure,
+      username: current.username || user?.email || '',
+    }));
+    setStep('manual');
+  };
+
   const detectEmailProvider = async () => {
     setLoading(true);
     try {
-      const config = await apiRequest('/api/email/auto-config');
+      const response = await apiRequest('GET', '/api/email/auto-config');
+      const config: AutoEmailConfig = await response.json();
       setAutoConfig(config);
       
       if (config.canAutoSetup) {
         setStep('setup');
       } else {
-        setStep('manual');
+        openManualSetup(config);
       }
     } catch (error) {
       toast({
@@ -55,13 +86,7 @@ export function EmailSetupWizard({ onComplete, onSkip }: EmailSetupWizardProps)
 
     setLoading(true);
     try {
-      const result = await apiRequest('/api/email/auto-setup', {
-        method: 'POST',
-        body: JSON.stringify({ password }),
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      const result = await autoSetup.mutateAsync(password);
       
       setSetupResult(result);
       
@@ -89,6 +114,31 @@ export function EmailSetupWizard({ onComplete, onSkip }: EmailSetupWizardProps)
     }
   };
 
+  // The server logs in with these before saving them
+  const saveManualSetup = async () => {
+    try {
+      await saveConfig.mutateAsync({
+        host: manual.host.trim(),
+        port: Number(manual.port),
+        secure: manual.secure,
+        username: manual.username.trim(),
+        password: manual.password,
+        fromName: manual.fromName.trim() || undefined,
+      });
+      toast({
+        title: "Email Configured",
+        description: "Email notifications will be sent from your account",
+      });
+      onComplete();
+    } catch (error) {
+      toast({
+        title: "Setup Failed",
+        description: apiErrorText(error, "Please check the settings and try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
   if (step === 'detect') {
     return (
       <Card className="w-full max-w-md mx-auto">
@@ -174,7 +224,7 @@ export function EmailSetupWizard({ onComplete, onSkip }: EmailSetupWizardProps)
                 
                 <Button 
                   variant="outline" 
-                  onClick={() => setStep('manual')}
+                  onClick={() => openManualSetup(autoConfig)}
                   className="w-full"
                 >
                   Manual Setup
@@ -194,22 +244,52 @@ export function EmailSetupWizard({ onComplete, onSkip }: EmailSetupWizardProps)
           <div className="w-12 h-12 bg-yellow-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <AlertCircle className="w-6 h-6 text-yellow-600" />
           </div>
-          <CardTitle>Manual Setup Required</CardTitle>
+          <CardTitle>Enter Your SMTP Settings</CardTitle>
           <CardDescription>
-            {autoConfig?.instructions || "Your email provider requires manual configuration"}
+            {autoConfig?.instructions || "Enter the outgoing mail server of your email provider"}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <Alert>
-            <AlertDescription className="text-sm">
-              Please contact support or check the documentation for manual email setup instructions.
-            </AlertDescription>
-          </Alert>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="smtp-host">SMTP server</Label>
+              <Input id="smtp-host" value={manual.host} placeholder="smtp.example.com" onChange={(e) => updateManual({ host: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="smtp-port">Port</Label>
+              <Input id="smtp-port" type="number" value={manual.port} onChange={(e) => updateManual({ port: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="smtp-secure">Use SSL/TLS (usually port 465)</Label>
+            <Switch id="smtp-secure" checked={manual.secure} onCheckedChange={(checked) => updateManual({ secure: checked })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="smtp-username">Username</Label>
+            <Input id="smtp-username" value={manual.username} onChange={(e) => updateManual({ username: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="smtp-password">Password or app password</Label>
+            <Input id="smtp-password" type="password" value={manual.password} onChange={(e) => updateManual({ password: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="smtp-from-name">Sender name (optional)</Label>
+            <Input id="smtp-from-name" value={manual.fromName} placeholder="Posty" onChange={(e) => updateManual({ fromName: e.target.value })} />
+          </div>
+
+          <Button
+            onClick={saveManualSetup}
+            disabled={saveConfig.isPending || !manual.host || !manual.port || !manual.username || !manual.password}
+            className="w-full"
+          >
+            {saveConfig.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Verify and Save
+          </Button>
           
           <div className="flex flex-col gap-2">
             <Button 
               variant="outline" 
-              onClick={onComplete}
+              onClick={onSkip}
               className="w-full"
             >
               Continue Without Email
@@ -1,21 +1,47 @@
-import { useState, useEffect, useCallback } from "react";
-import { Search, Filter, FileText, Calendar, User, Tag, Building, Trash2, X, Shield, Heart, Plus, Settings } from "lucide-react";
-import { Input } from "@/components/ui/input";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Filter, ArrowUpDown, FileText, Calendar, User, Tag, Building, Trash2, X, Shield, Heart, Plus, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useMailItems, useDeleteMailItem } from "@/hooks/use-mail-items";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useMailItemSummary, useDeleteAllMailItems } from "@/hooks/use-mail-items";
 import { useToast } from "@/hooks/use-toast";
 import { useDebounce } from "@/hooks/use-debounce";
+import { useCategories, useCreateCategory } from "@/hooks/use-categories";
+import { getCustomCategoryStyle } from "@/lib/category-styles";
+import { detailsFilterLabels, type DetailsFilter } from "@/lib/extracted-fields";
 import { CategoryManager } from "@/components/category-manager";
+import { QuerySearchInput } from "@/components/query-search-input";
 
 import { categories, type Category } from "@shared/schema";
 
+export type TagMatchMode = "any" | "all";
+
+export const sortOptionLabels = {
+  "uploaded-desc": "Newest first",
+  "uploaded-asc": "Oldest first",
+  "reminder-asc": "Reminder date",
+  "title-asc": "Title A–Z",
+  "amount-desc": "Highest amount",
+} as const;
+
+export type SortOption = keyof typeof sortOptionLabels;
+
 interface FilterControlsProps {
   activeFilter: string;
   onFilterChange: (filter: string) => void;
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  selectedTags: string[];
+  onSelectedTagsChange: (tags: string[]) => void;
+  tagMatchMode: TagMatchMode;
+  onTagMatchModeChange: (mode: TagMatchMode) => void;
+  detailsFilter: DetailsFilter;
+  onDetailsFilterChange: (filter: DetailsFilter) => void;
+  sortOption: SortOption;
+  onSortChange: (sort: SortOption) => void;
   resultCount?: number;
 }
 
@@ -34,27 +60,27 @@ export function FilterControls({
   onFilterChange, 
   searchQuery, 
   onSearchChange,
+  selectedTags,
+  onSelectedTagsChange,
+  tagMatchMode,
+  onTagMatchModeChange,
+  detailsFilter,
+  onDetailsFilterChange,
+  sortOption,
+  onSortChange,
   resultCount = 0
 }: FilterControlsProps) {
-  const { data: mailItems = [] } = useMailItems();
-  const deleteMailItem = useDeleteMailItem();
+  const { data: summary } = useMailItemSummary();
+  const totalItems = summary?.total ?? 0;
+  const deleteAllMailItems = useDeleteAllMailItems();
   const { toast } = useToast();
   const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const { data: customCategories = [] } = useCategories();
+  const createCategory = useCreateCategory();
 
-  // Get unique custom categories from existing mail items and localStorage
-  const mailItemCategories = Array.from(
-    new Set(
-      mailItems
-        .flatMap(item => [
-          ...(item.customCategories || []),
-          ...(item.customCategory ? [item.customCategory] : [])
-        ])
-        .filter(Boolean)
-    )
-  );
-  
-  const storedCategories = JSON.parse(localStorage.getItem('customCategories') || '[]');
-  const customCategories = Array.from(new Set([...mailItemCategories, ...storedCategories])).sort();
+  // Every tag in use across the user's documents, and senders offered when completing from:
+  const availableTags = useMemo(() => summary?.tags ?? [], [summary]);
+  const availableSenders = useMemo(() => summary?.senders ?? [], [summary]);
   
   const [localSearchQuery, setLocalSearchQuery] = useState(searchQuery);
   const debouncedSearchQuery = useDebounce(localSearchQuery, 300);
@@ -73,21 +99,45 @@ export function FilterControls({
     if (value === "custom") {
       const customCategoryName = prompt("Enter a custom category name:");
       if (customCategoryName && customCategoryName.trim()) {
-        toast({
-          title: "Custom category created",
-          description: `You can now assign documents to the "${customCategoryName.trim()}" category in the document details.`,
+        const trimmedName = customCategoryName.trim();
+        createCategory.mutate({ name: trimmedName }, {
+          onSuccess: () => {
+            toast({
+              title: "Custom category created",
+              description: `You can now assign documents to the "${trimmedName}" category in the document details.`,
+            });
+          },
+          onError: (error) => {
+            toast({
+              title: "Could not create category",
+              description: error.message.startsWith("409")
+                ? "A category with this name already exists."
+                : "Failed to create category. Please try again.",
+              variant: "destructive",
+            });
+          },
         });
         onFilterChange("all");
       }
       return;
     }
     onFilterChange(value);
-  }, [onFilterChange, toast]);
+  }, [onFilterChange, toast, createCategory]);
+
+  const handleToggleTag = useCallback((tag: string) => {
+    onSelectedTagsChange(
+      selectedTags.includes(tag)
+        ? selectedTags.filter(t => t !== tag)
+        : [...selectedTags, tag]
+    );
+  }, [selectedTags, onSelectedTagsChange]);
 
   const handleClearFilters = useCallback(() => {
     setLocalSearchQuery("");
     onFilterChange("all");
-  }, [onFilterChange]);
+    onSelectedTagsChange([]);
+    onDetailsFilterChange("all");
+  }, [onFilterChange, onSelectedTagsChange, onDetailsFilterChange]);
 
   const formatCategoryLabel = (category: string) => {
     if (category === "all") return "All Mail";
@@ -97,20 +147,19 @@ export function FilterControls({
     return category.charAt(0).toUpperCase() + category.slice(1);
   };
 
-  const hasActiveFilters = activeFilter !== "all" || localSearchQuery.trim() !== "";
+  const hasActiveFilters = activeFilter !== "all" || localSearchQuery.trim() !== "" || selectedTags.length > 0 || detailsFilter !== "all";
 
   const handleClearAll = async () => {
-    if (mailItems.length === 0) return;
+    if (totalItems === 0) return;
     
-    if (!confirm(`Delete all ${mailItems.length} documents? This action cannot be undone.`)) return;
+    if (!confirm(`Move all ${totalItems} documents to the trash? You can restore them from the Trash page.`)) return;
     
     try {
-      // Delete all items
-      await Promise.all(mailItems.map(item => deleteMailItem.mutateAsync(item.id)));
+      const { deleted } = await deleteAllMailItems.mutateAsync();
       
       toast({
-        title: "All documents deleted",
-        description: `Successfully deleted ${mailItems.length} documents.`,
+        title: "All documents moved to trash",
+        description: `${deleted} documents can be restored from the Trash page.`,
       });
     } catch (error) {
       toast({
@@ -124,17 +173,14 @@ export function FilterControls({
   return (
     <div className="mb-6 space-y-4">
       {/* Enhanced Search Bar with Category Selector */}
-      <div className="flex gap-2">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-          <Input
-            type="text"
-            placeholder={`Search ${activeFilter === "all" ? "all mail" : activeFilter}...`}
-            value={localSearchQuery}
-            onChange={(e) => setLocalSearchQuery(e.target.value)}
-            className="pl-10 pr-4"
-          />
-        </div>
+      <div className="flex items-start gap-2">
+        <QuerySearchInput
+          placeholder={`Search ${activeFilter === "all" ? "all mail" : activeFilter}... try from:, amount:>50 or is:overdue`}
+          value={localSearchQuery}
+          onChange={setLocalSearchQuery}
+          tags={availableTags}
+          senders={availableSenders}
+        />
         
         {/* Category Selector */}
         <Select value={activeFilter} onValueChange={handleCategoryChange}>
@@ -177,14 +223,18 @@ export function FilterControls({
                 <div className="px-2 py-1.5 text-xs font-semibold text-gray-500 border-t bg-gray-50">
                   Custom Categories
                 </div>
-                {customCategories.map((customCat) => (
-                  <SelectItem key={`custom-${customCat}`} value={`custom:${customCat}`} className="pl-4">
-                    <div className="flex items-center">
-                      <Tag className="w-4 h-4 mr-2 text-indigo-600" />
-                      {customCat}
-                    </div>
-                  </SelectItem>
-                ))}
+                {customCategories.map((customCat) => {
+                  const style = getCustomCategoryStyle(customCat);
+                  const Icon = style.icon;
+                  return (
+                    <SelectItem key={`custom-${customCat.id}`} value={`custom:${customCat.name}`} className="pl-4">
+                      <div className="flex items-center">
+                        <Icon className={`w-4 h-4 mr-2 ${style.text}`} />
+                        {customCat.name}
+                      </div>
+                    </SelectItem>
+                  );
+                })}
               </>
             )}
             
@@ -212,6 +262,82 @@ export function FilterControls({
           </SelectContent>
         </Select>
 
+        {/* Tag Filter */}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-10 whitespace-nowrap">
+              <Tag className="w-4 h-4 mr-1" />
+              Tags{selectedTags.length > 0 && ` (${selectedTags.length})`}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64" align="end">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-sm font-medium">Match</span>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={tagMatchMode}
+                onValueChange={(value) => value && onTagMatchModeChange(value as TagMatchMode)}
+              >
+                <ToggleGroupItem value="any" className="text-xs">Any (OR)</ToggleGroupItem>
+                <ToggleGroupItem value="all" className="text-xs">All (AND)</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            {availableTags.length > 0 ? (
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {availableTags.map((tag) => (
+                  <div key={tag} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`tag-filter-${tag}`}
+                      checked={selectedTags.includes(tag)}
+                      onCheckedChange={() => handleToggleTag(tag)}
+                    />
+                    <label htmlFor={`tag-filter-${tag}`} className="text-sm cursor-pointer">
+                      {tag}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No tags yet.</p>
+            )}
+          </PopoverContent>
+        </Popover>
+
+        {/* Key Details Filter */}
+        <Select value={detailsFilter} onValueChange={(value) => onDetailsFilterChange(value as DetailsFilter)}>
+          <SelectTrigger className="w-[170px] border-gray-300">
+            <SelectValue placeholder="Key details" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(detailsFilterLabels) as DetailsFilter[]).map((filter) => (
+              <SelectItem key={filter} value={filter}>
+                {detailsFilterLabels[filter]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Sort order; search results are always ranked by relevance */}
+        <Select
+          value={localSearchQuery.trim() ? "relevance" : sortOption}
+          onValueChange={(value) => onSortChange(value as SortOption)}
+          disabled={!!localSearchQuery.trim()}
+        >
+          <SelectTrigger className="w-[160px] border-gray-300">
+            <ArrowUpDown className="h-4 w-4 mr-2 text-gray-500" />
+            <SelectValue placeholder="Sort" />
+          </SelectTrigger>
+          <SelectContent>
+            {localSearchQuery.trim() && <SelectItem value="relevance">Relevance</SelectItem>}
+            {(Object.keys(sortOptionLabels) as SortOption[]).map((option) => (
+              <SelectItem key={option} value={option}>
+                {sortOptionLabels[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
         {/* Clear Filters Button */}
         {hasActiveFilters && (
           <Button
@@ -225,12 +351,12 @@ export function FilterControls({
         )}
 
         {/* Clear All Documents Button */}
-        {mailItems.length > 0 && (
+        {totalItems > 0 && (
           <Button
             variant="outline"
             size="sm"
             onClick={handleClearAll}
-            disabled={deleteMailItem.isPending}
+            disabled={deleteAllMailItems.isPending}
             className="text-red-600 hover:text-red-700 hover:bg-red-50 whitespace-nowrap"
           >
             <Trash2 className="w-4 h-4 mr-1" />
@@ -247,6 +373,12 @@ export function FilterControls({
             {activeFilter !== "all" && (
               <span className="font-medium"> in {formatCategoryLabel(activeFilter)}</span>
             )}
+            {detailsFilter !== "all" && (
+              <span> · <span className="font-medium">{detailsFilterLabels[detailsFilter].toLowerCase()}</span></span>
+            )}
+            {selectedTags.length > 0 && (
+              <span> tagged <span className="font-medium">{selectedTags.join(tagMatchMode === "all" ? " and " : " or ")}</span></span>
+            )}
             {localSearchQuery.trim() && (
               <span> matching "<span className="font-medium">{localSearchQuery.trim()}</span>"</span>
             )}
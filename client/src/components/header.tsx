@@ -1,4 +1,4 @@
-import { Mail, User, Settings, LogOut } from "lucide-react";
+import { Mail, User, Settings, LogOut, Receipt, Trash2 } from "lucide-react";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,6 +11,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
+import { NotificationBell } from "@/components/notification-bell";
 
 export function Header() {
   const { user, logout } = useAuth();
@@ -38,6 +39,15 @@ export function Header() {
           </div>
           
           <div className="flex items-center space-x-4">
+            {user && <NotificationBell />}
+            {user && (
+              <Link href="/bills">
+                <Button variant="ghost" size="sm">
+                  <Receipt className="mr-2 h-4 w-4" />
+                  Bills
+                </Button>
+              </Link>
+            )}
             {user && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -75,6 +85,12 @@ export function Header() {
                       <span>Settings</span>
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href="/trash">
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      <span>Trash</span>
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleLogout}>
                     <LogOut className="mr-2 h-4 w-4" />
@@ -0,0 +1,20 @@
+import { splitHighlights } from "@shared/search";
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+// Renders search highlight markers from the API as <mark> elements without injecting HTML
+export function HighlightedText({ text }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm px-0.5">{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
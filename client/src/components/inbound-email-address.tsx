@@ -0,0 +1,75 @@
+import { Copy, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useInboundAddress, useRotateInboundAddress } from "@/hooks/use-inbound-address";
+import { useToast } from "@/hooks/use-toast";
+
+export function InboundEmailAddress() {
+  const { data } = useInboundAddress();
+  const rotateAddress = useRotateInboundAddress();
+  const { toast } = useToast();
+
+  if (!data) return null;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(data.address);
+      toast({ title: "Address copied" });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Select the address and copy it manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRotate = async () => {
+    try {
+      await rotateAddress.mutateAsync();
+      toast({
+        title: "New address created",
+        description: "Mail sent to your old address will no longer be accepted.",
+      });
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: "A new address could not be created. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input value={data.address} readOnly className="font-mono text-sm" onFocus={(event) => event.target.select()} />
+        <Button type="button" variant="outline" size="icon" onClick={handleCopy} title="Copy address">
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button type="button" variant="outline" size="sm" disabled={rotateAddress.isPending}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Get a new address
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace your forwarding address?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Letters sent to {data.address} will be rejected from now on. Update any forwarding rules to use the new address.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRotate}>Replace address</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
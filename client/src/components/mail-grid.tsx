@@ -1,16 +1,53 @@
-import { useState } from "react";
-import { Inbox } from "lucide-react";
-import { MailItem } from "./mail-item";
+import { useEffect, useRef, useState } from "react";
+import { Inbox, Loader2 } from "lucide-react";
+import { MailItem, type SearchHighlight } from "./mail-item";
 import { MailModal } from "./mail-modal";
-import type { MailItem as MailItemType } from "@shared/schema";
+import type { MailItemWithTags as MailItemType } from "@shared/schema";
 
 interface MailGridProps {
   items: MailItemType[];
   isLoading?: boolean;
+  highlights?: Map<number, SearchHighlight>;
+  // Infinite scroll: onLoadMore runs when the end of the grid scrolls into view
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Multi-select mode: cards toggle their selection instead of opening the detail modal
+  selectable?: boolean;
+  selectedIds?: Set<number>;
+  onToggleSelect?: (id: number) => void;
 }
 
-export function MailGrid({ items, isLoading }: MailGridProps) {
-  const [selectedItem, setSelectedItem] = useState<MailItemType | null>(null);
+export function MailGrid({
+  items,
+  isLoading,
+  highlights,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  selectable,
+  selectedIds,
+  onToggleSelect,
+}: MailGridProps) {
+  const [selectedItemId, setSelectedItemId] = useState<number | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Resolve from the latest items so live updates reach an open modal
+  const selectedItem = items.find(item => item.id === selectedItemId) || null;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoadingMore || !onLoadMore) return;
+
+    // Start loading a little before the user reaches the bottom
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore, items.length]);
 
   if (isLoading) {
     return (
@@ -51,16 +88,27 @@ export function MailGrid({ items, isLoading }: MailGridProps) {
           <MailItem
             key={item.id}
             item={item}
-            onClick={() => setSelectedItem(item)}
+            highlight={highlights?.get(item.id)}
+            selectable={selectable}
+            selected={selectedIds?.has(item.id)}
+            onClick={() => selectable ? onToggleSelect?.(item.id) : setSelectedItemId(item.id)}
           />
         ))}
       </div>
 
+      {hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-6 text-slate-500">
+          {isLoadingMore && <Loader2 className="w-5 h-5 animate-spin" />}
+        </div>
+      )}
+
       {selectedItem && (
         <MailModal
+          // Remount when analysis finishes so the form picks up the new results
+          key={`${selectedItem.id}-${selectedItem.status}`}
           item={selectedItem}
           isOpen={!!selectedItem}
-          onClose={() => setSelectedItem(null)}
+          onClose={() => setSelectedItemId(null)}
         />
       )}
     </>
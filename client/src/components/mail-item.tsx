@@ -1,16 +1,33 @@
-import { MoreHorizontal, Calendar, Clock, FileText, User, Tag, Building, Trash2 } from "lucide-react";
+import { MoreHorizontal, Calendar, Clock, FileText, User, Tag, Building, Trash2, Loader2, AlertCircle, CheckCircle2, Pin, Archive } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { useDeleteMailItem } from "@/hooks/use-mail-items";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useDeleteMailItem, isAnalyzing } from "@/hooks/use-mail-items";
+import { useAnalysisProgress, formatAnalysisProgress } from "@/hooks/use-live-updates";
+import { useCategories } from "@/hooks/use-categories";
 import { useToast } from "@/hooks/use-toast";
+import { getCustomCategoryStyle } from "@/lib/category-styles";
+import { formatAmount } from "@/lib/extracted-fields";
+import { useBillsToday } from "@/hooks/use-bills";
+import { getBillStatus, isBill } from "@shared/bills";
 import { CalendarReminder } from "@/components/calendar-reminder";
-import type { MailItem } from "@shared/schema";
+import { HighlightedText } from "@/components/highlighted-text";
+import type { MailItemWithTags } from "@shared/schema";
 import { format, formatDistanceToNow } from "date-fns";
 
+export interface SearchHighlight {
+  title: string;
+  snippet: string;
+}
+
 interface MailItemProps {
-  item: MailItem;
+  item: MailItemWithTags;
   onClick: () => void;
+  highlight?: SearchHighlight;
+  // In selection mode clicking the card toggles it instead of opening it
+  selectable?: boolean;
+  selected?: boolean;
 }
 
 const categoryConfig = {
@@ -21,27 +38,27 @@ const categoryConfig = {
   government: { icon: Building, label: "Government", color: "bg-cyan-100 text-cyan-800" },
   insurance: { icon: FileText, label: "Insurance", color: "bg-blue-100 text-blue-800" },
   nhs: { icon: User, label: "NHS", color: "bg-emerald-100 text-emerald-800" },
-  custom: { icon: Tag, label: "Custom", color: "bg-indigo-100 text-indigo-800" },
 };
 
-export function MailItem({ item, onClick }: MailItemProps) {
+export function MailItem({ item, onClick, highlight, selectable, selected }: MailItemProps) {
   const deleteMailItem = useDeleteMailItem();
+  const { data: progress } = useAnalysisProgress(item.id);
+  const { data: userCategories = [] } = useCategories();
+  const today = useBillsToday();
+  const billStatus = isBill(item) ? getBillStatus(item, today) : null;
   const { toast } = useToast();
   
   const getAllCategories = () => {
-    // Get categories from new array fields first, fallback to legacy single category
-    const standardCategories = item.categories || [];
+    // Tags cover standard categories and free-form labels; fall back to the single category column
+    const standardCategories = item.tags || [];
     const customCategories = item.customCategories || [];
     
-    // If no array categories, use legacy single category
+    // If the item has no tags yet, use its single category
     if (standardCategories.length === 0 && customCategories.length === 0) {
       if (item.category) {
-        return [{ type: 'standard', name: item.category }];
-      }
-      if (item.customCategory) {
-        return [{ type: 'custom', name: item.customCategory }];
+        return [{ type: 'standard' as const, name: item.category }];
       }
-      return [{ type: 'standard', name: 'personal' }];
+      return [{ type: 'standard' as const, name: 'personal' }];
     }
     
     return [
@@ -52,7 +69,8 @@ export function MailItem({ item, onClick }: MailItemProps) {
 
   const getCategoryDisplay = (categoryItem: { type: 'standard' | 'custom', name: string }) => {
     if (categoryItem.type === 'custom') {
-      return { label: categoryItem.name, color: "bg-indigo-100 text-indigo-800", icon: Tag };
+      const style = getCustomCategoryStyle(userCategories.find(cat => cat.name === categoryItem.name));
+      return { label: categoryItem.name, color: style.badge, icon: style.icon };
     }
     
     const config = categoryConfig[categoryItem.name as keyof typeof categoryConfig];
@@ -72,7 +90,7 @@ export function MailItem({ item, onClick }: MailItemProps) {
       await deleteMailItem.mutateAsync(item.id);
       toast({
         title: "Document deleted",
-        description: "The mail item has been deleted successfully.",
+        description: "The mail item has been moved to the trash.",
       });
     } catch (error) {
       toast({
@@ -112,12 +130,22 @@ export function MailItem({ item, onClick }: MailItemProps) {
 
   return (
     <Card 
-      className="bg-white rounded-xl shadow-sm border border-slate-200 hover:shadow-md transition-shadow cursor-pointer group relative"
+      className={`bg-white rounded-xl shadow-sm border hover:shadow-md transition-shadow cursor-pointer group relative ${selected ? "border-slate-900 ring-2 ring-slate-900" : "border-slate-200"}`}
       onClick={onClick}
+      aria-selected={selectable ? !!selected : undefined}
     >
       <div className="p-6">
         <div className="flex justify-between items-start mb-4">
-          <div className="flex flex-wrap gap-1">
+          <div className="flex flex-wrap items-center gap-1">
+            {selectable && (
+              <Checkbox
+                checked={!!selected}
+                className="mr-1"
+                aria-label={`Select "${item.title}"`}
+                // The card's own click handler does the toggling
+                onClick={(e) => { e.stopPropagation(); onClick(); }}
+              />
+            )}
             {getAllCategories().slice(0, 3).map((categoryItem, index) => {
               const config = getCategoryDisplay(categoryItem);
               const IconComponent = config.icon;
@@ -133,37 +161,91 @@ export function MailItem({ item, onClick }: MailItemProps) {
                 +{getAllCategories().length - 3} more
               </Badge>
             )}
+            {isAnalyzing(item) && (
+              <Badge className="bg-sky-100 text-sky-800 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium">
+                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                {formatAnalysisProgress(progress) || (item.status === "pending" ? "Queued" : "Analyzing")}
+              </Badge>
+            )}
+            {billStatus === "paid" && (
+              <Badge className="bg-green-100 text-green-800 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium">
+                <CheckCircle2 className="w-3 h-3 mr-1" />
+                Paid
+              </Badge>
+            )}
+            {billStatus === "overdue" && (
+              <Badge className="bg-red-100 text-red-800 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium">
+                <AlertCircle className="w-3 h-3 mr-1" />
+                Overdue
+              </Badge>
+            )}
+            {item.keepForever && (
+              <Badge className="bg-slate-100 text-slate-700 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium" title="Kept forever">
+                <Pin className="w-3 h-3" />
+              </Badge>
+            )}
+            {item.archivedAt && (
+              <Badge className="bg-slate-100 text-slate-700 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium">
+                <Archive className="w-3 h-3 mr-1" />
+                Archived
+              </Badge>
+            )}
+            {item.status === "failed" && (
+              <Badge className="bg-orange-100 text-orange-800 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium">
+                <AlertCircle className="w-3 h-3 mr-1" />
+                Analysis failed
+              </Badge>
+            )}
           </div>
-          <Button 
-            variant="ghost" 
-            size="sm"
-            className="text-slate-400 hover:text-red-600 hover:bg-red-50 h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-all duration-200 rounded-md"
-            onClick={handleDelete}
-            disabled={deleteMailItem.isPending}
-            title="Delete document"
-          >
-            <Trash2 className="w-4 h-4" />
-          </Button>
+          {!selectable && (
+            <Button 
+              variant="ghost" 
+              size="sm"
+              className="text-slate-400 hover:text-red-600 hover:bg-red-50 h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-all duration-200 rounded-md"
+              onClick={handleDelete}
+              disabled={deleteMailItem.isPending}
+              title="Delete document"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
         </div>
         
         {/* Mail scan preview */}
         <div className="mb-4 bg-slate-100 rounded-lg p-4 text-center">
+          {/* Legacy items without a thumbnail load the upload itself */}
           <img 
-            src={item.imageUrl} 
+            src={item.thumbnailUrl || item.imageUrl} 
             alt={`Scan of ${item.title}`}
             className="w-full h-32 object-cover rounded"
+            loading="lazy"
             onError={(e) => {
-              console.error('Failed to load image:', item.imageUrl);
+              console.error('Failed to load image:', item.thumbnailUrl || item.imageUrl);
               (e.target as HTMLImageElement).src = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='400' height='300' viewBox='0 0 400 300'%3E%3Crect width='400' height='300' fill='%23f1f5f9'/%3E%3Ctext x='200' y='150' text-anchor='middle' dy='.3em' fill='%2394a3b8' font-family='system-ui, sans-serif' font-size='14'%3EDocument Preview%3C/text%3E%3C/svg%3E";
             }}
             onLoad={() => {
-              console.log('Image loaded successfully:', item.imageUrl);
+              console.log('Image loaded successfully:', item.thumbnailUrl || item.imageUrl);
             }}
           />
         </div>
         
-        <h3 className="font-semibold text-slate-900 mb-2 line-clamp-1">{item.title}</h3>
-        <p className="text-slate-600 text-sm mb-4 line-clamp-2">{item.summary}</p>
+        <h3 className="font-semibold text-slate-900 mb-2 line-clamp-1">
+          {highlight ? <HighlightedText text={highlight.title} /> : item.title}
+        </h3>
+        <p className="text-slate-600 text-sm mb-4 line-clamp-2">
+          {highlight ? <HighlightedText text={highlight.snippet} /> : item.summary}
+        </p>
+        
+        {(item.extractedFields?.sender || item.extractedFields?.amountDue) && (
+          <div className="flex items-center justify-between gap-2 text-xs text-slate-600 mb-4">
+            <span className="truncate">{item.extractedFields.sender}</span>
+            {item.extractedFields.amountDue && (
+              <span className="font-semibold text-slate-900 whitespace-nowrap">
+                {formatAmount(item.extractedFields.amountDue)}
+              </span>
+            )}
+          </div>
+        )}
         
         <div className="flex items-center justify-between text-sm">
           <div className="flex items-center text-slate-500">
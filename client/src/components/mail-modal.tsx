@@ -1,18 +1,73 @@
 import { useState } from "react";
-import { X, Save, Trash2, Plus, Calendar } from "lucide-react";
+import { X, Save, Trash2, Plus, Calendar, RefreshCw, Loader2, Tag, ClipboardList, CheckCircle2, Undo2, Pin, Image as ImageIcon } from "lucide-react";
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useUpdateMailItem, useDeleteMailItem } from "@/hooks/use-mail-items";
+import { useUpdateMailItem, useDeleteMailItem, useReanalyzeMailItem, isAnalyzing } from "@/hooks/use-mail-items";
+import { useAnalysisProgress, formatAnalysisProgress } from "@/hooks/use-live-updates";
+import { useCategories, useCreateCategory } from "@/hooks/use-categories";
 import { useToast } from "@/hooks/use-toast";
+import { getCustomCategoryStyle } from "@/lib/category-styles";
+import { formatAmount } from "@/lib/extracted-fields";
+import { useBillsToday, useUpdatePayment } from "@/hooks/use-bills";
+import { getBillStatus, isBill } from "@shared/bills";
 import { CalendarReminder } from "@/components/calendar-reminder";
-import type { MailItem } from "@shared/schema";
+import type { MailItemWithTags, ExtractedFields } from "@shared/schema";
 import { categories } from "@shared/schema";
 
+// Form state for the editable key details; every input is a string until save
+interface FieldsForm {
+  sender: string;
+  referenceNumber: string;
+  amountValue: string;
+  currency: string;
+  dueDate: string;
+  appointmentDate: string;
+  appointmentTime: string;
+  appointmentLocation: string;
+  contactPhone: string;
+}
+
+function toFieldsForm(fields: ExtractedFields): FieldsForm {
+  return {
+    sender: fields.sender || "",
+    referenceNumber: fields.referenceNumber || "",
+    amountValue: fields.amountDue ? String(fields.amountDue.value) : "",
+    currency: fields.amountDue?.currency || "GBP",
+    dueDate: fields.dueDate || "",
+    appointmentDate: fields.appointment?.date || "",
+    appointmentTime: fields.appointment?.time || "",
+    appointmentLocation: fields.appointment?.location || "",
+    contactPhone: fields.contactPhone || "",
+  };
+}
+
+function fromFieldsForm(form: FieldsForm): ExtractedFields | null {
+  const amount = form.amountValue.trim() ? Number(form.amountValue) : null;
+  if (amount !== null && (isNaN(amount) || amount < 0)) return null;
+
+  const hasAppointment = form.appointmentDate || form.appointmentTime || form.appointmentLocation.trim();
+  return {
+    sender: form.sender.trim() || null,
+    referenceNumber: form.referenceNumber.trim() || null,
+    amountDue: amount !== null ? { value: amount, currency: form.currency.trim().toUpperCase() || "GBP" } : null,
+    dueDate: form.dueDate || null,
+    appointment: hasAppointment ? {
+      date: form.appointmentDate || null,
+      time: form.appointmentTime || null,
+      location: form.appointmentLocation.trim() || null,
+    } : null,
+    contactPhone: form.contactPhone.trim() || null,
+  };
+}
+
+const isStandardCategory = (tag: string) => (categories as readonly string[]).includes(tag);
+
 interface MailModalProps {
-  item: MailItem;
+  item: MailItemWithTags;
   isOpen: boolean;
   onClose: () => void;
 }
@@ -20,17 +75,52 @@ interface MailModalProps {
 export function MailModal({ item, isOpen, onClose }: MailModalProps) {
   const [title, setTitle] = useState(item.title);
   const [summary, setSummary] = useState(item.summary);
-  const [selectedCategories, setSelectedCategories] = useState<string[]>(item.categories || [item.category].filter(Boolean));
-  const [selectedCustomCategories, setSelectedCustomCategories] = useState<string[]>(item.customCategories || (item.customCategory ? [item.customCategory] : []));
+  // Standard categories and free-form labels both live in the item's tags
+  const [tags, setTags] = useState<string[]>(item.tags.length > 0 ? item.tags : [item.category].filter(Boolean));
+  const [newTag, setNewTag] = useState("");
+  const [fieldsForm, setFieldsForm] = useState<FieldsForm>(toFieldsForm(item.extractedFields || {}));
+  const today = useBillsToday();
+  const [paidDate, setPaidDate] = useState(item.paidDate || today);
+  const [amountPaid, setAmountPaid] = useState(
+    item.amountPaid != null ? String(item.amountPaid) : item.extractedFields?.amountDue ? String(item.extractedFields.amountDue.value) : ""
+  );
+  const [selectedCustomCategories, setSelectedCustomCategories] = useState<string[]>(item.customCategories || []);
   const [newCustomCategory, setNewCustomCategory] = useState("");
+  // Photos are shown cleaned up; the original upload is one click away
+  const [showOriginal, setShowOriginal] = useState(false);
+  const previewUrl = showOriginal && item.originalImageUrl ? item.originalImageUrl : item.imageUrl;
   const [reminderDate, setReminderDate] = useState(item.reminderDate || "");
+  const [keepForever, setKeepForever] = useState(item.keepForever);
   const [showAdvancedCategories, setShowAdvancedCategories] = useState(false);
 
   const updateMailItem = useUpdateMailItem();
   const deleteMailItem = useDeleteMailItem();
+  const reanalyzeMailItem = useReanalyzeMailItem();
+  const { data: customCategories = [] } = useCategories();
+  const createCategory = useCreateCategory();
+  const { data: progress } = useAnalysisProgress(item.id);
+  const updatePayment = useUpdatePayment();
   const { toast } = useToast();
 
+  const billStatus = isBill(item) ? getBillStatus(item, today) : null;
+
+  const selectedCategories = tags.filter(isStandardCategory);
+  const freeTags = tags.filter(tag => !isStandardCategory(tag));
+
+  const updateField = (key: keyof FieldsForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setFieldsForm(prev => ({ ...prev, [key]: e.target.value }));
+
   const handleSave = async () => {
+    const extractedFields = fromFieldsForm(fieldsForm);
+    if (!extractedFields) {
+      toast({
+        title: "Invalid amount",
+        description: "Amount due must be a positive number.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       await updateMailItem.mutateAsync({
         id: item.id,
@@ -38,12 +128,11 @@ export function MailModal({ item, isOpen, onClose }: MailModalProps) {
           title,
           summary,
           category: selectedCategories[0] || "personal",
-          customCategory: selectedCustomCategories[0] || null,
-          categories: selectedCategories,
+          tags,
+          extractedFields,
           customCategories: selectedCustomCategories,
           reminderDate: reminderDate || undefined,
-          imageUrl: item.imageUrl,
-          fileName: item.fileName,
+          keepForever,
         },
       });
       
@@ -63,13 +152,27 @@ export function MailModal({ item, isOpen, onClose }: MailModalProps) {
   };
 
   const handleToggleCategory = (categoryName: string) => {
-    setSelectedCategories(prev => 
+    setTags(prev => 
       prev.includes(categoryName) 
-        ? prev.filter(c => c !== categoryName)
+        ? prev.filter(t => t !== categoryName)
         : [...prev, categoryName]
     );
   };
 
+  const handleAddTag = () => {
+    const trimmedTag = newTag.trim().toLowerCase();
+    if (!trimmedTag) return;
+    
+    if (!tags.includes(trimmedTag)) {
+      setTags(prev => [...prev, trimmedTag]);
+    }
+    setNewTag("");
+  };
+
+  const handleRemoveTag = (tag: string) => {
+    setTags(prev => prev.filter(t => t !== tag));
+  };
+
   const handleToggleCustomCategory = (categoryName: string) => {
     setSelectedCustomCategories(prev => 
       prev.includes(categoryName) 
@@ -78,29 +181,90 @@ export function MailModal({ item, isOpen, onClose }: MailModalProps) {
     );
   };
 
-  const handleAddCustomCategory = () => {
+  const handleAddCustomCategory = async () => {
     if (!newCustomCategory.trim()) return;
     
     const trimmedName = newCustomCategory.trim();
-    const existingCustomCategories = JSON.parse(localStorage.getItem('customCategories') || '[]');
+    const existing = customCategories.find(cat => cat.name.toLowerCase() === trimmedName.toLowerCase());
+    let categoryName = existing?.name;
     
-    if (!existingCustomCategories.includes(trimmedName)) {
-      existingCustomCategories.push(trimmedName);
-      localStorage.setItem('customCategories', JSON.stringify(existingCustomCategories));
+    if (!categoryName) {
+      try {
+        const created = await createCategory.mutateAsync({ name: trimmedName });
+        categoryName = created.name;
+      } catch (error) {
+        toast({
+          title: "Could not create category",
+          description: "Failed to create category. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
     }
     
-    if (!selectedCustomCategories.includes(trimmedName)) {
-      setSelectedCustomCategories(prev => [...prev, trimmedName]);
+    if (!selectedCustomCategories.includes(categoryName)) {
+      setSelectedCustomCategories(prev => [...prev, categoryName!]);
     }
     
     setNewCustomCategory("");
     
     toast({
       title: "Custom category added",
-      description: `"${trimmedName}" has been added to this document.`,
+      description: `"${categoryName}" has been added to this document.`,
     });
   };
 
+  const handlePaymentChange = async (status: "paid" | "unpaid") => {
+    const amount = amountPaid.trim() ? Number(amountPaid) : undefined;
+    if (status === "paid" && amount !== undefined && (isNaN(amount) || amount < 0)) {
+      toast({
+        title: "Invalid amount",
+        description: "Amount paid must be a positive number.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await updatePayment.mutateAsync({
+        id: item.id,
+        payment: status === "paid"
+          ? { status, paidDate: paidDate || undefined, amountPaid: amount }
+          : { status },
+      });
+      
+      toast({
+        title: status === "paid" ? "Marked as paid" : "Marked as unpaid",
+        description: `"${item.title}" has been updated.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: "The payment status could not be updated. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReanalyze = async () => {
+    try {
+      await reanalyzeMailItem.mutateAsync(item.id);
+      
+      toast({
+        title: "Analysis restarted",
+        description: "The document has been queued for analysis again.",
+      });
+      
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Retry failed",
+        description: "The document could not be queued for analysis. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDelete = async () => {
     if (!confirm("Are you sure you want to delete this mail item?")) return;
     
@@ -109,7 +273,7 @@ export function MailModal({ item, isOpen, onClose }: MailModalProps) {
       
       toast({
         title: "Mail deleted",
-        description: "The mail item has been deleted successfully.",
+        description: "The mail item has been moved to the trash.",
       });
       
       onClose();
@@ -144,13 +308,48 @@ export function MailModal({ item, isOpen, onClose }: MailModalProps) {
         </div>
         
         <div className="p-6">
+          {isAnalyzing(item) && (
+            <div className="mb-6 flex items-center gap-3 p-3 bg-sky-50 border border-sky-200 rounded-lg">
+              <Loader2 className="w-4 h-4 text-sky-600 animate-spin flex-shrink-0" />
+              <p className="text-sm text-sky-800">
+                {formatAnalysisProgress(progress) || "Analysis in progress"}. Details will update automatically.
+              </p>
+            </div>
+          )}
+
+          {item.status === "failed" && (
+            <div className="mb-6 flex items-center justify-between gap-4 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+              <p className="text-sm text-orange-800">
+                Automatic analysis failed. The details below were guessed from the filename.
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReanalyze}
+                disabled={reanalyzeMailItem.isPending}
+                className="flex-shrink-0"
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Retry
+              </Button>
+            </div>
+          )}
+
           {/* Document preview */}
           <div className="mb-6 bg-slate-100 rounded-lg p-4">
             {item.fileName?.toLowerCase().endsWith('.pdf') ? (
               <div className="text-center">
+                {item.previewUrl && (
+                  <img
+                    src={item.previewUrl}
+                    alt={`First page of ${item.title}`}
+                    className="w-full rounded-lg max-h-96 object-contain mb-4"
+                  />
+                )}
                 <div className="bg-red-100 text-red-800 p-4 rounded-lg mb-4">
                   <h3 className="font-medium">PDF Document</h3>
                   <p className="text-sm">{item.fileName}</p>
+                  <p className="text-xs mt-1">{item.pageCount} {item.pageCount === 1 ? "page" : "pages"}</p>
                 </div>
                 <a 
                   href={item.imageUrl} 
@@ -162,18 +361,29 @@ export function MailModal({ item, isOpen, onClose }: MailModalProps) {
                 </a>
               </div>
             ) : (
-              <img 
-                src={item.imageUrl} 
-                alt={`Scan of ${item.title}`}
-                className="w-full rounded-lg max-h-96 object-contain"
-                onError={(e) => {
-                  console.error('Failed to load modal image:', item.imageUrl);
-                  (e.target as HTMLImageElement).src = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='400' height='300' viewBox='0 0 400 300'%3E%3Crect width='400' height='300' fill='%23f1f5f9'/%3E%3Ctext x='200' y='150' text-anchor='middle' dy='.3em' fill='%2394a3b8' font-family='system-ui, sans-serif' font-size='14'%3EDocument Preview%3C/text%3E%3C/svg%3E";
-                }}
-                onLoad={() => {
-                  console.log('Modal image loaded successfully:', item.imageUrl);
-                }}
-              />
+              <>
+                {item.originalImageUrl && (
+                  <div className="flex justify-end mb-2">
+                    <Button size="sm" variant="outline" onClick={() => setShowOriginal(!showOriginal)}>
+                      <ImageIcon className="w-4 h-4 mr-1" />
+                      {showOriginal ? "Show cleaned image" : "Show original photo"}
+                    </Button>
+                  </div>
+                )}
+                <img 
+                  key={previewUrl}
+                  src={previewUrl} 
+                  alt={`Scan of ${item.title}`}
+                  className="w-full rounded-lg max-h-96 object-contain"
+                  onError={(e) => {
+                    console.error('Failed to load modal image:', previewUrl);
+                    (e.target as HTMLImageElement).src = "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='400' height='300' viewBox='0 0 400 300'%3E%3Crect width='400' height='300' fill='%23f1f5f9'/%3E%3Ctext x='200' y='150' text-anchor='middle' dy='.3em' fill='%2394a3b8' font-family='system-ui, sans-serif' font-size='14'%3EDocument Preview%3C/text%3E%3C/svg%3E";
+                  }}
+                  onLoad={() => {
+                    console.log('Modal image loaded successfully:', previewUrl);
+                  }}
+                />
+              </>
             )}
           </div>
           
@@ -244,22 +454,74 @@ export function MailModal({ item, isOpen, onClose }: MailModalProps) {
                       </button>
                     </span>
                   ))}
-                  {selectedCustomCategories.map((cat) => (
-                    <span key={cat} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
-                      {cat}
+                  {selectedCustomCategories.map((cat) => {
+                    const style = getCustomCategoryStyle(customCategories.find(custom => custom.name === cat));
+                    const Icon = style.icon;
+                    return (
+                      <span key={cat} className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${style.badge}`}>
+                        <Icon className="w-3 h-3 mr-1" />
+                        {cat}
+                        <button
+                          type="button"
+                          onClick={() => handleToggleCustomCategory(cat)}
+                          className={`ml-1 ${style.text} hover:opacity-75`}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    );
+                  })}
+                  {(selectedCategories.length === 0 && selectedCustomCategories.length === 0) && (
+                    <span className="text-sm text-gray-500">No categories assigned</span>
+                  )}
+                </div>
+              </div>
+
+              {/* Free-form tags */}
+              <div className="mt-4">
+                <Label htmlFor="newTag">Tags</Label>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {freeTags.map((tag) => (
+                    <span key={tag} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-800">
+                      <Tag className="w-3 h-3 mr-1" />
+                      {tag}
                       <button
                         type="button"
-                        onClick={() => handleToggleCustomCategory(cat)}
-                        className="ml-1 text-indigo-600 hover:text-indigo-800"
+                        onClick={() => handleRemoveTag(tag)}
+                        className="ml-1 text-slate-600 hover:text-slate-800"
                       >
                         ×
                       </button>
                     </span>
                   ))}
-                  {(selectedCategories.length === 0 && selectedCustomCategories.length === 0) && (
-                    <span className="text-sm text-gray-500">No categories assigned</span>
+                  {freeTags.length === 0 && (
+                    <span className="text-sm text-gray-500">No tags</span>
                   )}
                 </div>
+                <div className="mt-2 flex gap-2">
+                  <Input
+                    id="newTag"
+                    value={newTag}
+                    onChange={(e) => setNewTag(e.target.value)}
+                    placeholder="Add a tag"
+                    maxLength={50}
+                    className="flex-1"
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleAddTag();
+                      }
+                    }}
+                  />
+                  <Button 
+                    type="button"
+                    onClick={handleAddTag}
+                    disabled={!newTag.trim()}
+                    className="px-3"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
               </div>
 
               {/* Advanced category selection */}
@@ -290,20 +552,25 @@ export function MailModal({ item, isOpen, onClose }: MailModalProps) {
                   <div className="mt-4">
                     <Label className="text-sm font-medium text-gray-600">Custom Categories</Label>
                     <div className="mt-1 space-y-2">
-                      {JSON.parse(localStorage.getItem('customCategories') || '[]').map((cat: string) => (
-                        <div key={cat} className="flex items-center space-x-2">
-                          <input
-                            type="checkbox"
-                            id={`custom-category-${cat}`}
-                            checked={selectedCustomCategories.includes(cat)}
-                            onChange={() => handleToggleCustomCategory(cat)}
-                            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
-                          />
-                          <label htmlFor={`custom-category-${cat}`} className="text-sm">
-                            {cat}
-                          </label>
-                        </div>
-                      ))}
+                      {customCategories.map((cat) => {
+                        const style = getCustomCategoryStyle(cat);
+                        const Icon = style.icon;
+                        return (
+                          <div key={cat.id} className="flex items-center space-x-2">
+                            <input
+                              type="checkbox"
+                              id={`custom-category-${cat.id}`}
+                              checked={selectedCustomCategories.includes(cat.name)}
+                              onChange={() => handleToggleCustomCategory(cat.name)}
+                              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                            />
+                            <label htmlFor={`custom-category-${cat.id}`} className="flex items-center text-sm">
+                              <Icon className={`w-3.5 h-3.5 mr-1 ${style.text}`} />
+                              {cat.name}
+                            </label>
+                          </div>
+                        );
+                      })}
                     </div>
                     
                     {/* Add new custom category */}
@@ -318,7 +585,7 @@ export function MailModal({ item, isOpen, onClose }: MailModalProps) {
                       <Button 
                         type="button"
                         onClick={handleAddCustomCategory}
-                        disabled={!newCustomCategory.trim()}
+                        disabled={!newCustomCategory.trim() || createCategory.isPending}
                         className="px-3"
                       >
                         <Plus className="w-4 h-4" />
@@ -349,6 +616,150 @@ export function MailModal({ item, isOpen, onClose }: MailModalProps) {
             </div>
           </div>
           
+          {/* Exempt from retention auto-delete */}
+          <div className="mb-6 flex items-center justify-between p-3 border rounded-lg">
+            <div>
+              <Label htmlFor="keepForever" className="flex items-center gap-2">
+                <Pin className="w-4 h-4 text-slate-600" />
+                Keep forever
+              </Label>
+              <p className="text-xs text-slate-500 mt-1">Pinned documents are never removed by auto-delete.</p>
+            </div>
+            <Switch id="keepForever" checked={keepForever} onCheckedChange={setKeepForever} />
+          </div>
+          
+          {/* Payment tracking for bills */}
+          {billStatus && (
+            <div className={`mb-6 p-4 border rounded-lg ${
+              billStatus === "paid" ? "bg-green-50 border-green-200" :
+              billStatus === "overdue" ? "bg-red-50 border-red-200" : "bg-amber-50 border-amber-200"
+            }`}>
+              {billStatus === "paid" ? (
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-green-800 flex items-center">
+                    <CheckCircle2 className="w-4 h-4 mr-2" />
+                    Paid{item.paidDate && ` on ${new Date(item.paidDate).toLocaleDateString()}`}
+                    {item.amountPaid != null && ` (${formatAmount({ value: item.amountPaid, currency: item.extractedFields?.amountDue?.currency || "GBP" })})`}
+                  </p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handlePaymentChange("unpaid")}
+                    disabled={updatePayment.isPending}
+                  >
+                    <Undo2 className="w-4 h-4 mr-1" />
+                    Mark as unpaid
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <p className={`text-sm font-medium ${billStatus === "overdue" ? "text-red-800" : "text-amber-800"}`}>
+                    {billStatus === "overdue" ? "This bill is overdue" : "This bill is unpaid"}
+                  </p>
+                  <div className="flex flex-wrap items-end gap-3">
+                    <div>
+                      <Label htmlFor="paidDate" className="text-xs text-slate-600">Paid on</Label>
+                      <Input id="paidDate" type="date" value={paidDate} onChange={(e) => setPaidDate(e.target.value)} className="mt-1 w-40" />
+                    </div>
+                    <div>
+                      <Label htmlFor="amountPaid" className="text-xs text-slate-600">Amount paid</Label>
+                      <Input
+                        id="amountPaid"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={amountPaid}
+                        onChange={(e) => setAmountPaid(e.target.value)}
+                        className="mt-1 w-32"
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => handlePaymentChange("paid")}
+                      disabled={updatePayment.isPending}
+                      className="bg-green-600 hover:bg-green-700"
+                    >
+                      <CheckCircle2 className="w-4 h-4 mr-1" />
+                      Mark as paid
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          
+          {/* Structured details extracted from the document */}
+          <div className="mb-6">
+            <Label className="flex items-center gap-2">
+              <ClipboardList className="w-4 h-4 text-slate-600" />
+              Key Details
+            </Label>
+            <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="field-sender" className="text-xs text-slate-600">Sender</Label>
+                <Input id="field-sender" value={fieldsForm.sender} onChange={updateField("sender")} maxLength={200} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="field-reference" className="text-xs text-slate-600">Account / reference number</Label>
+                <Input id="field-reference" value={fieldsForm.referenceNumber} onChange={updateField("referenceNumber")} maxLength={100} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="field-amount" className="text-xs text-slate-600">Amount due</Label>
+                <div className="mt-1 flex gap-2">
+                  <Input
+                    id="field-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={fieldsForm.amountValue}
+                    onChange={updateField("amountValue")}
+                    className="flex-1"
+                  />
+                  <Input
+                    aria-label="Currency"
+                    value={fieldsForm.currency}
+                    onChange={updateField("currency")}
+                    maxLength={3}
+                    className="w-20 uppercase"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="field-due-date" className="text-xs text-slate-600">Due date</Label>
+                <Input id="field-due-date" type="date" value={fieldsForm.dueDate} onChange={updateField("dueDate")} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="field-appointment-date" className="text-xs text-slate-600">Appointment date and time</Label>
+                <div className="mt-1 flex gap-2">
+                  <Input
+                    id="field-appointment-date"
+                    type="date"
+                    value={fieldsForm.appointmentDate}
+                    onChange={updateField("appointmentDate")}
+                    className="flex-1"
+                  />
+                  <Input
+                    aria-label="Appointment time"
+                    type="time"
+                    value={fieldsForm.appointmentTime}
+                    onChange={updateField("appointmentTime")}
+                    className="w-28"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="field-location" className="text-xs text-slate-600">Appointment location</Label>
+                <Input id="field-location" value={fieldsForm.appointmentLocation} onChange={updateField("appointmentLocation")} maxLength={200} className="mt-1" />
+              </div>
+              <div>
+                <Label htmlFor="field-phone" className="text-xs text-slate-600">Contact phone</Label>
+                <Input id="field-phone" type="tel" value={fieldsForm.contactPhone} onChange={updateField("contactPhone")} maxLength={40} className="mt-1" />
+              </div>
+            </div>
+          </div>
+          
           <div className="flex justify-between items-center pt-4 border-t">
             <div className="flex gap-3">
               <Button 
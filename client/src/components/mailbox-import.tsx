@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useEmailImport, useRemoveEmailImport, useRunEmailImport, useSaveEmailImport } from "@/hooks/use-email-import";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorText } from "@/lib/queryClient";
+import type { EmailImportAccountView } from "@shared/email-import";
+
+interface FormState {
+  email: string;
+  password: string;
+  host: string;
+  port: string;
+  folder: string;
+  senders: string;
+  subjects: string;
+  enabled: boolean;
+}
+
+const emptyForm: FormState = {
+  email: "",
+  password: "",
+  host: "",
+  port: "",
+  folder: "INBOX",
+  senders: "",
+  subjects: "",
+  enabled: true,
+};
+
+function toForm(account: EmailImportAccountView): FormState {
+  return {
+    email: account.email,
+    password: "",
+    host: account.host,
+    port: String(account.port),
+    folder: account.folder,
+    senders: account.senderFilters.join(", "),
+    subjects: account.subjectFilters.join(", "),
+    enabled: account.enabled,
+  };
+}
+
+function splitRules(value: string): string[] {
+  return value.split(",").map(rule => rule.trim()).filter(Boolean);
+}
+
+export function MailboxImport() {
+  const { data } = useEmailImport();
+  const saveImport = useSaveEmailImport();
+  const removeImport = useRemoveEmailImport();
+  const runImport = useRunEmailImport();
+  const { toast } = useToast();
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const account = data?.account ?? null;
+
+  // Start from the saved settings whenever they change
+  useEffect(() => {
+    setForm(account ? toForm(account) : emptyForm);
+  }, [account?.id, account?.email, account?.host, account?.folder, account?.enabled]);
+
+  if (!data) return null;
+
+  const update = (changes: Partial<FormState>) => setForm(current => ({ ...current, ...changes }));
+
+  const handleSave = async () => {
+    try {
+      await saveImport.mutateAsync({
+        email: form.email.trim(),
+        password: form.password || undefined,
+        // Known providers (Gmail, Outlook, Yahoo, iCloud) are filled in by the server
+        host: form.host.trim() || undefined,
+        port: form.port ? Number(form.port) : undefined,
+        folder: form.folder.trim() || "INBOX",
+        senderFilters: splitRules(form.senders),
+        subjectFilters: splitRules(form.subjects),
+        enabled: form.enabled,
+      });
+      toast({ title: "Email import saved" });
+    } catch (error) {
+      toast({
+        title: "Could not save email import",
+        description: apiErrorText(error, "Please check the details and try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRun = async () => {
+    try {
+      const result = await runImport.mutateAsync();
+      toast({
+        title: result.imported > 0 ? `Imported ${result.imported} document(s)` : "No new bills found",
+        description: `Checked ${result.checked} new message(s), ${result.matched} matched your rules.`
+          + (result.failed > 0 ? ` ${result.failed} could not be imported.` : ""),
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: apiErrorText(error, "The mailbox could not be checked. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await removeImport.mutateAsync();
+      toast({ title: "Email import removed" });
+    } catch (error) {
+      toast({
+        title: "Could not remove email import",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="import-email">Email address</Label>
+          <Input id="import-email" type="email" value={form.email} onChange={(e) => update({ email: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-password">App password</Label>
+          <Input
+            id="import-password"
+            type="password"
+            value={form.password}
+            placeholder={account ? "Saved; enter a new one to change it" : ""}
+            onChange={(e) => update({ password: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-host">IMAP server</Label>
+          <Input id="import-host" value={form.host} placeholder="Detected for Gmail, Outlook, Yahoo and iCloud" onChange={(e) => update({ host: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-port">Port</Label>
+          <Input id="import-port" type="number" value={form.port} placeholder="993" onChange={(e) => update({ port: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-folder">Folder</Label>
+          <Input id="import-folder" value={form.folder} onChange={(e) => update({ folder: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-senders">From (comma separated)</Label>
+          <Input id="import-senders" value={form.senders} placeholder="e.g. octopus.energy, council" onChange={(e) => update({ senders: e.target.value })} />
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="import-subjects">Subject contains (comma separated)</Label>
+          <Input id="import-subjects" value={form.subjects} placeholder="e.g. bill, statement, invoice" onChange={(e) => update({ subjects: e.target.value })} />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label>Check automatically</Label>
+          <p className="text-sm text-gray-500">PDF attachments of matching emails are added to your mail</p>
+        </div>
+        <Switch checked={form.enabled} onCheckedChange={(checked) => update({ enabled: checked })} />
+      </div>
+
+      {account && (
+        <p className={`text-sm ${account.lastError ? "text-red-600" : "text-gray-500"}`}>
+          {account.lastError
+            ? `Last check failed: ${account.lastError}`
+            : account.lastPolledAt
+              ? `Last checked ${formatDistanceToNow(new Date(account.lastPolledAt), { addSuffix: true })}`
+              : "Not checked yet"}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" size="sm" onClick={handleSave} disabled={saveImport.isPending || !form.email}>
+          {saveImport.isPending ? "Saving..." : "Save"}
+        </Button>
+        {account && (
+          <>
+            <Button type="button" size="sm" variant="outline" onClick={handleRun} disabled={runImport.isPending}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${runImport.isPending ? "animate-spin" : ""}`} />
+              Check now
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={handleRemove} disabled={removeImport.isPending}>
+              Remove
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect } from "react";
+import { Bell, Clock, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  useNotifications,
+  useMarkNotificationsRead,
+  useSnoozeNotification,
+  useDismissNotification,
+} from "@/hooks/use-notifications";
+import { useToast } from "@/hooks/use-toast";
+import type { NotificationWithItem } from "@shared/schema";
+
+// Messages for the ?reminder= param set by the snooze/dismiss links in reminder emails
+const reminderLinkMessages: Record<string, { title: string; description: string; variant?: "destructive" }> = {
+  snoozed: { title: "Reminder snoozed", description: "We'll remind you again tomorrow." },
+  dismissed: { title: "Reminder dismissed", description: "You won't be reminded about this again." },
+  invalid: { title: "Link expired", description: "This reminder link is no longer valid.", variant: "destructive" },
+  error: { title: "Something went wrong", description: "The reminder could not be updated. Please try again.", variant: "destructive" },
+};
+
+export function NotificationBell() {
+  const { data: notifications = [] } = useNotifications();
+  const markRead = useMarkNotificationsRead();
+  const snooze = useSnoozeNotification();
+  const dismiss = useDismissNotification();
+  const { toast } = useToast();
+
+  const unreadCount = notifications.filter(notification => !notification.readAt).length;
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const message = reminderLinkMessages[params.get("reminder") || ""];
+    if (!message) return;
+
+    toast(message);
+    params.delete("reminder");
+    const query = params.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+  }, []);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open && unreadCount > 0) {
+      markRead.mutate();
+    }
+  };
+
+  const handleSnooze = async (notification: NotificationWithItem, days: number) => {
+    try {
+      await snooze.mutateAsync({ id: notification.id, days });
+      toast({
+        title: "Reminder snoozed",
+        description: `"${notification.mailItem.title}" will come back in ${days === 1 ? "1 day" : `${days} days`}.`,
+      });
+    } catch (error) {
+      toast({ title: "Snooze failed", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  const handleDismiss = async (notification: NotificationWithItem) => {
+    try {
+      await dismiss.mutateAsync(notification.id);
+    } catch (error) {
+      toast({ title: "Dismiss failed", description: "Please try again.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Reminders">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b">
+          <h3 className="text-sm font-semibold">Reminders</h3>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500">No reminders right now.</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map((notification) => (
+              <li key={notification.id} className={`px-4 py-3 ${notification.readAt ? "" : "bg-blue-50"}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{notification.mailItem.title}</p>
+                    <p className="text-xs text-gray-500">
+                      Due {format(parseISO(notification.reminderDate), "d MMM yyyy")}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0"
+                    title="Dismiss"
+                    onClick={() => handleDismiss(notification)}
+                    disabled={dismiss.isPending}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+                <div className="mt-2 flex items-center gap-1">
+                  <Clock className="w-3 h-3 text-gray-400" />
+                  <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => handleSnooze(notification, 1)} disabled={snooze.isPending}>
+                    1 day
+                  </Button>
+                  <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => handleSnooze(notification, 7)} disabled={snooze.isPending}>
+                    1 week
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
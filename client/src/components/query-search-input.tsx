@@ -0,0 +1,126 @@
+import { useMemo, useRef, useState } from "react";
+import { AlertCircle, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useDebounce } from "@/hooks/use-debounce";
+import {
+  applySuggestion,
+  formatQueryError,
+  getQuerySuggestions,
+  parseSearchQuery,
+  type QuerySuggestion,
+} from "@shared/query-language";
+
+interface QuerySearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  tags: string[];
+  senders: string[];
+}
+
+// Search box with autocomplete for query-language fields and values, and inline syntax errors
+export function QuerySearchInput({ value, onChange, placeholder, tags, senders }: QuerySearchInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(value.length);
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  // Only report errors once typing pauses, so half-typed terms don't flash errors
+  const debouncedValue = useDebounce(value, 500);
+  const parsed = useMemo(() => parseSearchQuery(debouncedValue), [debouncedValue]);
+
+  const completion = useMemo(
+    () => getQuerySuggestions(value, cursor, { tags, senders }),
+    [value, cursor, tags, senders]
+  );
+  const showSuggestions = isFocused && !dismissed && completion.suggestions.length > 0;
+
+  const updateCursor = () => setCursor(inputRef.current?.selectionStart ?? value.length);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    setCursor(e.target.selectionStart ?? e.target.value.length);
+    setActiveIndex(0);
+    setDismissed(false);
+  };
+
+  const choose = (suggestion: QuerySuggestion) => {
+    const next = applySuggestion(value, completion, suggestion);
+    onChange(next.value);
+    setCursor(next.cursor);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.cursor, next.cursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((activeIndex + step + completion.suggestions.length) % completion.suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      choose(completion.suggestions[activeIndex] || completion.suggestions[0]);
+    } else if (e.key === "Escape") {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-3 top-5 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+      <Input
+        ref={inputRef}
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onKeyUp={updateCursor}
+        onClick={updateCursor}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        className={`pl-10 pr-4 ${!parsed.ok ? "border-red-400 focus-visible:ring-red-200" : ""}`}
+        aria-invalid={!parsed.ok}
+        autoComplete="off"
+        spellCheck={false}
+      />
+
+      {showSuggestions && (
+        <ul className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto rounded-md border bg-white shadow-lg py-1 text-sm">
+          {completion.suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.insertText}
+              // Keep focus in the input while choosing
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between px-3 py-1.5 cursor-pointer ${index === activeIndex ? "bg-slate-100" : ""}`}
+            >
+              <span className="font-mono text-slate-900">{suggestion.label}</span>
+              {suggestion.description && <span className="text-xs text-gray-500 ml-3">{suggestion.description}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!parsed.ok && (
+        <div className="mt-1 space-y-0.5">
+          {parsed.errors.map((error, index) => (
+            <p key={index} className="flex items-center text-xs text-red-600">
+              <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+              {formatQueryError(error)}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
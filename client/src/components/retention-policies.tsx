@@ -0,0 +1,105 @@
+import { format, parseISO } from "date-fns";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useRetention, useRetentionPreview, useUpdateRetention } from "@/hooks/use-retention";
+import { useToast } from "@/hooks/use-toast";
+import { categories, type Category } from "@shared/schema";
+
+const FOREVER = "forever";
+const PREVIEW_LIMIT = 10;
+
+const retentionOptions: { days: number; label: string }[] = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+  { days: 2 * 365, label: "2 years" },
+  { days: 6 * 365, label: "6 years" },
+  { days: 10 * 365, label: "10 years" },
+];
+
+export function RetentionPolicies() {
+  const { data: retention } = useRetention();
+  const { data: preview = [] } = useRetentionPreview();
+  const updateRetention = useUpdateRetention();
+  const { toast } = useToast();
+
+  if (!retention) return null;
+
+  const handleChange = async (category: Category, value: string) => {
+    try {
+      await updateRetention.mutateAsync({
+        policies: [{ category, retentionDays: value === FOREVER ? null : Number(value) }],
+      });
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: "The retention period could not be saved. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {categories.map((category) => {
+          const days = retention.policies[category];
+          // Keep periods set outside the preset list selectable
+          const options = days === null || retentionOptions.some(option => option.days === days)
+            ? retentionOptions
+            : [...retentionOptions, { days, label: `${days} days` }].sort((a, b) => a.days - b.days);
+
+          return (
+            <div key={category} className="flex items-center justify-between gap-2">
+              <Label className="capitalize">{category === "nhs" ? "NHS" : category}</Label>
+              <Select
+                value={days === null ? FOREVER : String(days)}
+                onValueChange={(value) => handleChange(category, value)}
+                disabled={updateRetention.isPending}
+              >
+                <SelectTrigger className="w-36 h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.days} value={String(option.days)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={FOREVER}>Keep forever</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Preview of the next sweep */}
+      <div className="rounded-md border bg-slate-50 p-3 text-sm">
+        {preview.length === 0 ? (
+          <p className="text-gray-600">No documents are currently past their retention period.</p>
+        ) : (
+          <>
+            <p className="font-medium text-gray-800">
+              {preview.length} document(s) {retention.enabled ? "will be deleted at the next sweep" : "would be deleted if auto-delete were on"}
+            </p>
+            <ul className="mt-2 space-y-1 text-gray-600">
+              {preview.slice(0, PREVIEW_LIMIT).map((candidate) => (
+                <li key={candidate.id} className="flex justify-between gap-2">
+                  <span className="truncate">{candidate.title}</span>
+                  <span className="whitespace-nowrap text-xs text-gray-500">
+                    expired {format(parseISO(candidate.expiresOn), "d MMM yyyy")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {preview.length > PREVIEW_LIMIT && (
+              <p className="mt-1 text-xs text-gray-500">and {preview.length - PREVIEW_LIMIT} more</p>
+            )}
+          </>
+        )}
+        <p className="mt-2 text-xs text-gray-500">Documents marked "Keep forever" are never deleted.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { FolderSearch, Plus, Pin, PinOff, MoreVertical, ArrowUp, ArrowDown, Edit3, RefreshCw, Trash2, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  useSavedSearches,
+  useCreateSavedSearch,
+  useUpdateSavedSearch,
+  useReorderSavedSearches,
+  useDeleteSavedSearch,
+} from "@/hooks/use-saved-searches";
+import { useToast } from "@/hooks/use-toast";
+import { hasActiveFilters, isSameFilters } from "@shared/mail-filters";
+import type { SavedSearchFilters, SavedSearchWithCount } from "@shared/schema";
+
+interface SmartFoldersProps {
+  currentFilters: SavedSearchFilters;
+  onSelect: (filters: SavedSearchFilters) => void;
+}
+
+function isConflict(error: unknown) {
+  return error instanceof Error && error.message.startsWith("409");
+}
+
+export function SmartFolders({ currentFilters, onSelect }: SmartFoldersProps) {
+  const { data: searches = [], isLoading } = useSavedSearches();
+  const createSearch = useCreateSavedSearch();
+  const updateSearch = useUpdateSavedSearch();
+  const reorderSearches = useReorderSavedSearches();
+  const deleteSearch = useDeleteSavedSearch();
+  const { toast } = useToast();
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editValue, setEditValue] = useState("");
+
+  const canSave = hasActiveFilters(currentFilters);
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    try {
+      await createSearch.mutateAsync({ name, filters: currentFilters });
+      toast({ title: "Smart folder saved", description: `"${name}" now appears in your smart folders.` });
+      setNewName("");
+      setIsAdding(false);
+    } catch (error) {
+      toast({
+        title: "Could not save smart folder",
+        description: isConflict(error)
+          ? "A smart folder with this name already exists."
+          : "Failed to save the smart folder. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRename = async (search: SavedSearchWithCount) => {
+    const name = editValue.trim();
+    setEditingId(null);
+    if (!name || name === search.name) return;
+
+    try {
+      await updateSearch.mutateAsync({ id: search.id, updates: { name } });
+    } catch (error) {
+      toast({
+        title: "Rename failed",
+        description: isConflict(error)
+          ? "A smart folder with this name already exists."
+          : "Failed to rename the smart folder. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleUpdate = async (search: SavedSearchWithCount, updates: { pinned?: boolean; filters?: SavedSearchFilters }) => {
+    try {
+      await updateSearch.mutateAsync({ id: search.id, updates });
+      if (updates.filters) {
+        toast({ title: "Smart folder updated", description: `"${search.name}" now uses the current filters.` });
+      }
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: "Failed to update the smart folder. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Folders move within their group: pinned folders always stay above the rest
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const neighbour = searches[index + direction];
+    if (!neighbour || neighbour.pinned !== searches[index].pinned) return;
+
+    const ids = searches.map(search => search.id);
+    [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+
+    try {
+      await reorderSearches.mutateAsync(ids);
+    } catch (error) {
+      toast({
+        title: "Reorder failed",
+        description: "Failed to move the smart folder. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (search: SavedSearchWithCount) => {
+    if (!window.confirm(`Delete the smart folder "${search.name}"? Your documents are not affected.`)) return;
+
+    try {
+      await deleteSearch.mutateAsync(search.id);
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: "Failed to delete the smart folder. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="flex items-center text-sm font-semibold text-slate-900">
+          <FolderSearch className="w-4 h-4 mr-2" />
+          Smart folders
+        </h2>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0"
+          onClick={() => setIsAdding(!isAdding)}
+          disabled={!canSave}
+          title={canSave ? "Save current filters" : "Set a search or filter to save it"}
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {isAdding && canSave && (
+        <div className="flex items-center gap-1 mb-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Folder name"
+            className="h-8 text-sm"
+            maxLength={60}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                handleCreate();
+              } else if (e.key === "Escape") {
+                setIsAdding(false);
+              }
+            }}
+            autoFocus
+          />
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={handleCreate} disabled={!newName.trim() || createSearch.isPending}>
+            <Check className="w-3 h-3" />
+          </Button>
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setIsAdding(false)}>
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-6 bg-gray-200 rounded"></div>
+          <div className="h-6 bg-gray-200 rounded"></div>
+        </div>
+      ) : searches.length === 0 ? (
+        <p className="text-xs text-gray-500 py-2">
+          Search or filter your mail, then press + to keep it as a folder.
+        </p>
+      ) : (
+        <ul className="space-y-0.5">
+          {searches.map((search, index) => {
+            const isActive = isSameFilters(search.filters, currentFilters);
+            const canMoveUp = searches[index - 1]?.pinned === search.pinned;
+            const canMoveDown = searches[index + 1]?.pinned === search.pinned;
+
+            return (
+              <li key={search.id} className={`group flex items-center rounded-md ${isActive ? "bg-slate-100" : "hover:bg-slate-50"}`}>
+                {editingId === search.id ? (
+                  <Input
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    className="h-8 text-sm"
+                    maxLength={60}
+                    onBlur={() => handleRename(search)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        handleRename(search);
+                      } else if (e.key === "Escape") {
+                        setEditingId(null);
+                      }
+                    }}
+                    autoFocus
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => onSelect(search.filters)}
+                    className={`flex-1 min-w-0 flex items-center text-left text-sm px-2 py-1.5 ${isActive ? "font-medium text-slate-900" : "text-slate-700"}`}
+                  >
+                    {search.pinned && <Pin className="w-3 h-3 mr-1.5 flex-shrink-0 text-slate-500" />}
+                    <span className="truncate">{search.name}</span>
+                    <span
+                      className="ml-auto pl-2 text-xs text-gray-500"
+                      title={search.count === null ? "The saved search is no longer valid" : undefined}
+                    >
+                      {search.count ?? "!"}
+                    </span>
+                  </button>
+                )}
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm" variant="ghost" className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100">
+                      <MoreVertical className="w-3 h-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleUpdate(search, { pinned: !search.pinned })}>
+                      {search.pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                      {search.pinned ? "Unpin" : "Pin to top"}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem disabled={!canMoveUp} onClick={() => handleMove(index, -1)}>
+                      <ArrowUp className="w-4 h-4 mr-2" />
+                      Move up
+                    </DropdownMenuItem>
+                    <DropdownMenuItem disabled={!canMoveDown} onClick={() => handleMove(index, 1)}>
+                      <ArrowDown className="w-4 h-4 mr-2" />
+                      Move down
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => { setEditingId(search.id); setEditValue(search.name); }}>
+                      <Edit3 className="w-4 h-4 mr-2" />
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem disabled={!canSave || isActive} onClick={() => handleUpdate(search, { filters: currentFilters })}>
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Use current filters
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-red-600" onClick={() => handleDelete(search)}>
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
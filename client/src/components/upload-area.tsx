@@ -1,62 +1,175 @@
 import { useState, useCallback, useRef } from "react";
-import { useDropzone } from "react-dropzone";
-import { CloudUpload, Plus, Loader2, Camera } from "lucide-react";
+import { useDropzone, type FileRejection } from "react-dropzone";
+import { CloudUpload, Plus, Loader2, Camera, ArrowUp, ArrowDown, X, CheckCircle2, AlertCircle, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useCreateMailItem } from "@/hooks/use-mail-items";
+import { Progress } from "@/components/ui/progress";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useCreateMailItem, useCreateCombinedMailItem } from "@/hooks/use-mail-items";
 import { useToast } from "@/hooks/use-toast";
+import { MAX_UPLOAD_BYTES, MAX_UPLOAD_FILES, type UploadMode } from "@shared/uploads";
+
+type UploadStatus = "queued" | "uploading" | "done" | "failed";
+
+interface UploadEntry {
+  id: number;
+  file: File;
+  progress: number; // 0-100
+  status: UploadStatus;
+}
+
+let nextEntryId = 1;
 
 export function UploadArea() {
+  const [entries, setEntries] = useState<UploadEntry[]>([]);
+  const [mode, setMode] = useState<UploadMode>("separate");
   const [isProcessing, setIsProcessing] = useState(false);
   const createMailItem = useCreateMailItem();
+  const createCombinedMailItem = useCreateCombinedMailItem();
   const { toast } = useToast();
   const cameraInputRef = useRef<HTMLInputElement>(null);
 
-  const processFile = useCallback(async (file: File) => {
-    setIsProcessing(true);
+  const updateEntry = useCallback((id: number, updates: Partial<UploadEntry>) => {
+    setEntries(current => current.map(entry => entry.id === id ? { ...entry, ...updates } : entry));
+  }, []);
+
+  // Finished uploads leave the list; failed ones stay so they can be retried
+  const clearFinished = useCallback(() => {
+    setEntries(current => current.filter(entry => entry.status !== "done"));
+  }, []);
+
+  const uploadSeparately = useCallback(async (pending: UploadEntry[]) => {
+    let failed = 0;
+    for (const entry of pending) {
+      updateEntry(entry.id, { status: "uploading", progress: 0 });
+      try {
+        await createMailItem.mutateAsync({
+          file: entry.file,
+          onProgress: (loaded, total) => updateEntry(entry.id, { progress: Math.round((loaded / total) * 100) }),
+        });
+        updateEntry(entry.id, { status: "done", progress: 100 });
+      } catch (error) {
+        failed++;
+        updateEntry(entry.id, { status: "failed" });
+      }
+    }
+    return failed;
+  }, [createMailItem, updateEntry]);
+
+  // One request carries every file; each file's share of the upload is worked out from the bytes sent so far
+  const uploadCombined = useCallback(async (pending: UploadEntry[]) => {
+    const offsets: number[] = [];
+    pending.reduce((offset, entry) => {
+      offsets.push(offset);
+      return offset + entry.file.size;
+    }, 0);
+    setEntries(current => current.map(entry =>
+      pending.some(item => item.id === entry.id) ? { ...entry, status: "uploading", progress: 0 } : entry
+    ));
 
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-
-      // Simulate AI processing delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      await createMailItem.mutateAsync(formData);
-      
-      toast({
-        title: "Document processed successfully!",
-        description: "Your document has been analyzed and added to your collection.",
+      await createCombinedMailItem.mutateAsync({
+        files: pending.map(entry => entry.file),
+        onProgress: (loaded) => {
+          pending.forEach((entry, index) => {
+            const sent = Math.min(Math.max(loaded - offsets[index], 0), entry.file.size);
+            updateEntry(entry.id, { progress: entry.file.size ? Math.round((sent / entry.file.size) * 100) : 100 });
+          });
+        },
       });
+      pending.forEach(entry => updateEntry(entry.id, { status: "done", progress: 100 }));
+      return 0;
     } catch (error) {
+      pending.forEach(entry => updateEntry(entry.id, { status: "failed" }));
+      return pending.length;
+    }
+  }, [createCombinedMailItem, updateEntry]);
+
+  const startUpload = useCallback(async (pending: UploadEntry[], uploadMode: UploadMode) => {
+    if (pending.length === 0) return;
+    setIsProcessing(true);
+
+    try {
+      const combine = uploadMode === "combine" && pending.length > 1;
+      const failed = combine ? await uploadCombined(pending) : await uploadSeparately(pending);
+
+      if (failed === 0) {
+        toast({
+          title: combine ? "Document uploaded!" : pending.length > 1 ? `${pending.length} documents uploaded!` : "Document uploaded!",
+          description: combine
+            ? `${pending.length} pages were combined into one document and are being analyzed in the background.`
+            : "Your documents have been added and are being analyzed in the background.",
+        });
+        clearFinished();
+      } else {
+        toast({
+          title: "Processing failed",
+          description: combine
+            ? "There was an error combining your pages. Please try again."
+            : `${failed} of ${pending.length} files could not be uploaded. Please try again.`,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [uploadCombined, uploadSeparately, clearFinished, toast]);
+
+  const addFiles = useCallback((files: File[]) => {
+    const room = MAX_UPLOAD_FILES - entries.length;
+    if (files.length > room) {
       toast({
-        title: "Processing failed",
-        description: "There was an error processing your document. Please try again.",
+        title: "Too many files",
+        description: `You can upload up to ${MAX_UPLOAD_FILES} files at a time.`,
         variant: "destructive",
       });
-    } finally {
-      setIsProcessing(false);
     }
-  }, [createMailItem, toast]);
+    const added = files.slice(0, Math.max(room, 0)).map(file => ({ id: nextEntryId++, file, progress: 0, status: "queued" as const }));
+    setEntries(current => [...current, ...added]);
+    return added;
+  }, [entries.length, toast]);
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+  const onDrop = useCallback(async (acceptedFiles: File[], rejections: FileRejection[]) => {
+    if (rejections.length > 0) {
+      toast({
+        title: "Some files were not added",
+        description: `Only JPEG, PNG and PDF files up to 10MB are supported, ${MAX_UPLOAD_FILES} at a time.`,
+        variant: "destructive",
+      });
+    }
     if (acceptedFiles.length === 0) return;
-    await processFile(acceptedFiles[0]);
-  }, [processFile]);
+
+    // A single file with nothing else waiting uploads straight away; several files wait for a choice of mode
+    const added = addFiles(acceptedFiles);
+    if (added.length === 1 && entries.length === 0) {
+      await startUpload(added, "separate");
+    }
+  }, [addFiles, entries.length, startUpload, toast]);
 
   const handleCameraCapture = useCallback(() => {
     cameraInputRef.current?.click();
   }, []);
 
-
-
-  const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // Photos are queued so several pages of one letter can be taken before uploading
+  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      await processFile(file);
+      addFiles([file]);
     }
     // Reset input value to allow same file selection
     event.target.value = '';
-  }, [processFile]);
+  }, [addFiles]);
+
+  const moveEntry = (index: number, direction: -1 | 1) => {
+    setEntries(current => {
+      const next = [...current];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const removeEntry = (id: number) => {
+    setEntries(current => current.filter(entry => entry.id !== id));
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -64,9 +177,14 @@ export function UploadArea() {
       'image/*': ['.jpeg', '.jpg', '.png'],
       'application/pdf': ['.pdf'],
     },
-    maxFiles: 1,
+    maxFiles: MAX_UPLOAD_FILES,
+    maxSize: MAX_UPLOAD_BYTES,
+    disabled: isProcessing,
   });
 
+  const pendingEntries = entries.filter(entry => entry.status !== "done");
+  const showQueue = entries.length > 1 || (entries.length === 1 && !isProcessing);
+
   return (
     <div className="mb-8">
       {/* Hidden file inputs for camera and scan */}
@@ -83,61 +201,150 @@ export function UploadArea() {
       <div
         {...getRootProps()}
         className={`border-2 border-dashed rounded-xl p-8 text-center transition-all cursor-pointer ${
-          isDragActive 
-            ? 'border-blue-400 bg-blue-50/50' 
+          isDragActive
+            ? 'border-blue-400 bg-blue-50/50'
             : 'border-slate-300 hover:border-blue-400 hover:bg-blue-50/50'
         } ${isProcessing ? 'pointer-events-none opacity-75' : ''}`}
       >
         <input {...getInputProps()} />
-        
+
         {isProcessing ? (
           <div className="processing-content">
             <div className="flex items-center justify-center mb-4">
               <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
             </div>
-            <h3 className="text-lg font-medium text-slate-900 mb-2">AI Analyzing Document</h3>
-            <p className="text-slate-600">Extracting text and categorizing content with GPT-4o...</p>
+            <h3 className="text-lg font-medium text-slate-900 mb-2">
+              {entries.length > 1 ? "Uploading Documents" : "Uploading Document"}
+            </h3>
+            <p className="text-slate-600">Sending your document for text extraction and categorization...</p>
           </div>
         ) : (
           <div className="upload-content">
             <CloudUpload className="mx-auto h-12 w-12 text-slate-400 mb-4" />
             <h3 className="text-lg font-medium text-slate-900 mb-2">Upload Your Mail</h3>
             <p className="text-slate-600 mb-4">
-              {isDragActive 
-                ? "Drop your scanned mail here..." 
+              {isDragActive
+                ? "Drop your scanned mail here..."
                 : "Drag and drop your scanned mail or click to browse"
               }
             </p>
-            
+
             {/* Upload methods */}
             <div className="flex flex-col sm:flex-row gap-3 justify-center items-center">
-              <button 
+              <button
                 type="button"
                 className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors inline-flex items-center"
               >
                 <Plus className="w-4 h-4 mr-2" />
-                Choose File
+                Choose Files
               </button>
-              
+
               <Button
                 type="button"
                 variant="outline"
-                onClick={handleCameraCapture}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleCameraCapture();
+                }}
                 className="inline-flex items-center gap-2"
               >
                 <Camera className="w-4 h-4" />
                 Take Photo
               </Button>
-              
+
 
             </div>
-            
+
             <p className="text-xs text-slate-400 mt-4">
-              Supports: JPEG, PNG, PDF (max 10MB) • Works with iPhone Notes scan feature
+              Supports: JPEG, PNG, PDF (max 10MB each, up to {MAX_UPLOAD_FILES} files) • Works with iPhone Notes scan feature
             </p>
           </div>
         )}
       </div>
+
+      {showQueue && (
+        <div className="mt-4 bg-white rounded-xl border border-slate-200 p-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as UploadMode)}
+              disabled={isProcessing}
+            >
+              <ToggleGroupItem value="separate" className="text-xs">Separate documents</ToggleGroupItem>
+              <ToggleGroupItem value="combine" className="text-xs" disabled={pendingEntries.length < 2}>
+                One multi-page document
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <div className="flex gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setEntries([])} disabled={isProcessing}>
+                Clear
+              </Button>
+              <Button size="sm" onClick={() => startUpload(pendingEntries, mode)} disabled={isProcessing || pendingEntries.length === 0}>
+                Upload {pendingEntries.length} {pendingEntries.length === 1 ? "file" : "files"}
+              </Button>
+            </div>
+          </div>
+
+          {mode === "combine" && pendingEntries.length > 1 && (
+            <p className="text-xs text-slate-500 mb-2">Pages are combined into one PDF in the order shown.</p>
+          )}
+
+          <ul className="space-y-2">
+            {entries.map((entry, index) => (
+              <li key={entry.id} className="flex items-center gap-3 text-sm">
+                {entry.status === "done" ? (
+                  <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+                ) : entry.status === "failed" ? (
+                  <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                ) : entry.status === "uploading" ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-blue-600 flex-shrink-0" />
+                ) : (
+                  <FileText className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                )}
+                <span className="w-48 truncate text-slate-700" title={entry.file.name}>{entry.file.name}</span>
+                <Progress value={entry.progress} className="h-2 flex-1" />
+                <span className="w-10 text-right text-xs text-slate-500">
+                  {entry.status === "failed" ? "Failed" : `${entry.progress}%`}
+                </span>
+                <div className="flex">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    onClick={() => moveEntry(index, -1)}
+                    disabled={isProcessing || index === 0}
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    onClick={() => moveEntry(index, 1)}
+                    disabled={isProcessing || index === entries.length - 1}
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    onClick={() => removeEntry(entry.id)}
+                    disabled={isProcessing}
+                    title="Remove"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,32 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { todayInTimeZone, type BillsOverview } from "@shared/bills";
+import type { MailItemWithTags, UpdatePayment } from "@shared/schema";
+
+export function useBills() {
+  return useQuery<BillsOverview>({
+    queryKey: ["/api/bills"],
+  });
+}
+
+// "Today" as the server sees it for this user, so overdue badges match the Bills view
+export function useBillsToday(): string {
+  const { data } = useBills();
+  return data?.today || todayInTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+}
+
+export function useUpdatePayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, payment }: { id: number; payment: UpdatePayment }): Promise<MailItemWithTags> => {
+      const response = await apiRequest("PATCH", `/api/mail-items/${id}/payment`, payment);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items", data.id] });
+    },
+  });
+}
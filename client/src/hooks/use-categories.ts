@@ -0,0 +1,95 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { UserCategory, CreateCategory, UpdateCategory } from "@shared/schema";
+
+export function useCategories() {
+  return useQuery<UserCategory[]>({
+    queryKey: ["/api/categories"],
+  });
+}
+
+export function useCreateCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (category: CreateCategory): Promise<UserCategory> => {
+      const response = await apiRequest("POST", "/api/categories", category);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    },
+  });
+}
+
+export function useUpdateCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: UpdateCategory }): Promise<UserCategory> => {
+      const response = await apiRequest("PATCH", `/api/categories/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      // Renames rewrite mail items and smart folders on the server
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+  });
+}
+
+export function useMergeCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, targetId }: { id: number; targetId: number }) => {
+      const response = await apiRequest("POST", `/api/categories/${id}/merge`, { targetId });
+      return response.json() as Promise<{ target: UserCategory; itemsUpdated: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+  });
+}
+
+export function useDeleteCategory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/categories/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+  });
+}
+
+const LEGACY_STORAGE_KEY = "customCategories";
+
+// One-off upload of categories that older versions kept in localStorage
+export function useMigrateLegacyCategories() {
+  const { data: categories } = useCategories();
+  const createCategory = useCreateCategory();
+
+  useEffect(() => {
+    if (!categories) return;
+
+    const legacy: string[] = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || "[]");
+    if (legacy.length === 0) return;
+
+    const existing = new Set(categories.map((category) => category.name.toLowerCase()));
+    const missing = legacy.filter((name) => name.trim() && !existing.has(name.trim().toLowerCase()));
+
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    missing.forEach((name) => {
+      createCategory.mutate({ name: name.trim() });
+    });
+  }, [categories]);
+}
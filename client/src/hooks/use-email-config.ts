@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { EmailConfigOverview, EmailConfigView } from "@shared/email-config";
+import type { EmailConfigInput } from "@shared/schema";
+
+export interface AutoEmailConfig {
+  canAutoSetup: boolean;
+  provider: string | null;
+  instructions: string;
+  config?: { host: string; port: number; secure: boolean };
+}
+
+export interface AutoEmailSetupResult {
+  success: boolean;
+  message: string;
+  config?: EmailConfigView;
+}
+
+export interface EmailTestResult {
+  success: boolean;
+  message: string;
+}
+
+export function useEmailConfig() {
+  return useQuery<EmailConfigOverview>({
+    queryKey: ["/api/email/config"],
+  });
+}
+
+// Saved by the server only once it could log in with the settings
+export function useSaveEmailConfig() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: EmailConfigInput): Promise<EmailConfigOverview> => {
+      const response = await apiRequest("PUT", "/api/email/config", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/email/config"], data);
+    },
+  });
+}
+
+export function useAutoEmailSetup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (password: string): Promise<AutoEmailSetupResult> => {
+      const response = await apiRequest("POST", "/api/email/auto-setup", { password });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      if (result.success && result.config) {
+        queryClient.setQueryData<EmailConfigOverview>(["/api/email/config"], { config: result.config });
+        // Notifications are switched on with it
+        queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      }
+    },
+  });
+}
+
+export function useRemoveEmailConfig() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/email/config");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<EmailConfigOverview>(["/api/email/config"], { config: null });
+    },
+  });
+}
+
+export function useTestEmailConfig() {
+  return useMutation({
+    mutationFn: async (): Promise<EmailTestResult> => {
+      const response = await apiRequest("GET", "/api/email/test-config");
+      return response.json();
+    },
+  });
+}
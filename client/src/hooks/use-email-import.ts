@@ -0,0 +1,57 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { EmailImportOverview, EmailImportRunResult } from "@shared/email-import";
+import type { EmailImportSettings } from "@shared/schema";
+
+export function useEmailImport() {
+  return useQuery<EmailImportOverview>({
+    queryKey: ["/api/email-import"],
+  });
+}
+
+export function useSaveEmailImport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: EmailImportSettings): Promise<EmailImportOverview> => {
+      const response = await apiRequest("PUT", "/api/email-import", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/email-import"], data);
+    },
+  });
+}
+
+export function useRemoveEmailImport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/email-import");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<EmailImportOverview>(["/api/email-import"], { account: null });
+    },
+  });
+}
+
+export function useRunEmailImport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<EmailImportRunResult> => {
+      const response = await apiRequest("POST", "/api/email-import/run");
+      return response.json();
+    },
+    // Refresh the last checked time or error either way
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-import"] });
+    },
+    onSuccess: (result) => {
+      if (result.imported > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+      }
+    },
+  });
+}
@@ -0,0 +1,26 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface InboundAddress {
+  address: string;
+}
+
+export function useInboundAddress() {
+  return useQuery<InboundAddress>({
+    queryKey: ["/api/inbound-address"],
+  });
+}
+
+export function useRotateInboundAddress() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<InboundAddress> => {
+      const response = await apiRequest("POST", "/api/inbound-address/rotate");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/inbound-address"], data);
+    },
+  });
+}
@@ -0,0 +1,134 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { mailItemListsKey, type MailItemListOptions } from "@/hooks/use-mail-items";
+import type { MailItemWithTags } from "@shared/schema";
+import type { MailItemPage } from "@shared/mail-item-list";
+
+export interface AnalysisProgress {
+  mailItemId: number;
+  stage: "queued" | "preprocessing" | "ocr" | "classifying" | "completed" | "failed" | "retrying";
+  page?: number;
+  totalPages?: number;
+  message?: string;
+}
+
+const progressKey = (id: number) => ["analysis-progress", id];
+
+// Subscribe to the server's event stream and apply changes straight to the React Query cache
+export function useLiveUpdates() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const source = new EventSource("/api/events", { withCredentials: true });
+
+    // Apply a change to every cached page of every sorted/filtered list, or only the inbox or archive lists
+    const updateLists = (update: (items: MailItemWithTags[]) => MailItemWithTags[], archived?: boolean) => {
+      queryClient.setQueriesData<InfiniteData<MailItemPage>>(
+        {
+          queryKey: mailItemListsKey,
+          predicate: (query) => archived === undefined || (query.queryKey[2] as MailItemListOptions).archived === archived,
+        },
+        (data) => data && { ...data, pages: data.pages.map((page) => ({ ...page, items: update(page.items) })) }
+      );
+    };
+
+    const upsertItem = (item: MailItemWithTags, isNew: boolean) => {
+      if (isNew) {
+        // Where a new item lands depends on each list's sort and filters, so let the server decide
+        queryClient.invalidateQueries({ queryKey: mailItemListsKey });
+      } else {
+        updateLists((items) => items.map((existing) => (existing.id === item.id ? item : existing)));
+        // Archiving moves an item out of the list it was in
+        updateLists((items) => items.filter((existing) => existing.id !== item.id), !item.archivedAt);
+      }
+      queryClient.setQueryData(["/api/mail-items", item.id], item);
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items", "summary"] });
+      // Bill totals and smart folder counts are derived server-side, and the item may have just left the trash
+      queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    };
+
+    source.addEventListener("mail-item.created", (event) => {
+      upsertItem(JSON.parse((event as MessageEvent).data), true);
+    });
+
+    source.addEventListener("mail-item.updated", (event) => {
+      upsertItem(JSON.parse((event as MessageEvent).data), false);
+    });
+
+    source.addEventListener("mail-item.deleted", (event) => {
+      const { id } = JSON.parse((event as MessageEvent).data) as { id: number };
+      updateLists((items) => items.filter((item) => item.id !== id));
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items", "summary"] });
+      queryClient.removeQueries({ queryKey: ["/api/mail-items", id] });
+      queryClient.removeQueries({ queryKey: progressKey(id) });
+      queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    });
+
+    source.addEventListener("analysis.progress", (event) => {
+      const progress: AnalysisProgress = JSON.parse((event as MessageEvent).data);
+      queryClient.setQueryData(progressKey(progress.mailItemId), progress);
+    });
+
+    const refreshNotifications = () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    };
+
+    source.addEventListener("notification.created", refreshNotifications);
+    source.addEventListener("notification.updated", refreshNotifications);
+
+    // Smart folders are shared between devices
+    source.addEventListener("saved-searches.changed", () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    });
+
+    // Events may have been missed while disconnected, so resync on reconnect
+    let hasConnected = false;
+    source.addEventListener("open", () => {
+      if (hasConnected) {
+        queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+        refreshNotifications();
+      }
+      hasConnected = true;
+    });
+
+    return () => source.close();
+  }, [queryClient]);
+}
+
+// Latest analysis progress pushed for an item (populated by useLiveUpdates)
+export function useAnalysisProgress(id: number) {
+  return useQuery<AnalysisProgress | null>({
+    queryKey: progressKey(id),
+    queryFn: () => null,
+    enabled: false,
+  });
+}
+
+export function formatAnalysisProgress(progress: AnalysisProgress | null | undefined): string | null {
+  if (!progress) return null;
+
+  switch (progress.stage) {
+    case "queued":
+      return "Waiting for analysis";
+    case "preprocessing":
+      return "Cleaning up image";
+    case "ocr":
+      return progress.totalPages && progress.totalPages > 1
+        ? `Reading page ${progress.page} of ${progress.totalPages}`
+        : "Reading document";
+    case "classifying":
+      return "Categorizing";
+    case "retrying":
+      return "Analysis failed, retrying shortly";
+    default:
+      return null;
+  }
+}
@@ -1,27 +1,108 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { MailItem, InsertMailItem } from "@shared/schema";
+import { uploadWithProgress } from "@/lib/upload";
+import type { MailItemWithTags, UpdateMailItem } from "@shared/schema";
+import type { SearchResults } from "@shared/search";
+import type { BulkRequest, BulkResult } from "@shared/bulk-actions";
+import {
+  MAIL_ITEM_PAGE_SIZE,
+  type MailItemFilters,
+  type MailItemPage,
+  type MailItemSort,
+  type MailItemSummary,
+  type SortOrder,
+} from "@shared/mail-item-list";
 
-export function useMailItems() {
-  return useQuery<MailItem[]>({
-    queryKey: ["/api/mail-items"],
+const ANALYSIS_POLL_INTERVAL_MS = 3000;
+const SEARCH_PAGE_SIZE = 24;
+
+export function isAnalyzing(item: Pick<MailItemWithTags, "status">) {
+  return item.status === "pending" || item.status === "processing";
+}
+
+export interface MailItemListOptions {
+  sort: MailItemSort;
+  order: SortOrder;
+  filters: MailItemFilters;
+  archived: boolean;
+}
+
+// Lists are cached per sort and filter combination under ["/api/mail-items", "list", options]
+export const mailItemListsKey = ["/api/mail-items", "list"];
+
+export function useMailItems(options: MailItemListOptions, enabled = true) {
+  return useInfiniteQuery({
+    queryKey: [...mailItemListsKey, options],
+    queryFn: async ({ pageParam }): Promise<MailItemPage> => {
+      const { sort, order, filters, archived } = options;
+      const params = new URLSearchParams({ sort, order, limit: String(MAIL_ITEM_PAGE_SIZE) });
+      if (archived) params.set("archived", "true");
+      if (filters.category !== "all") params.set("category", filters.category);
+      if (filters.tags.length > 0) params.set("tags", filters.tags.join(","));
+      if (filters.match !== "any") params.set("match", filters.match);
+      if (filters.details !== "all") params.set("details", filters.details);
+      if (pageParam) params.set("cursor", pageParam);
+
+      const response = await apiRequest("GET", `/api/mail-items?${params}`);
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+    // Keep polling while any loaded upload is still being analyzed in the background
+    refetchInterval: (query) =>
+      query.state.data?.pages.some(page => page.items.some(isAnalyzing)) ? ANALYSIS_POLL_INTERVAL_MS : false,
+  });
+}
+
+// Tags, senders and per-category counts across every item
+export function useMailItemSummary() {
+  return useQuery<MailItemSummary>({
+    queryKey: ["/api/mail-items", "summary"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/mail-items/summary");
+      return response.json();
+    },
   });
 }
 
 export function useMailItem(id: number) {
-  return useQuery<MailItem>({
+  return useQuery<MailItemWithTags>({
     queryKey: ["/api/mail-items", id],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/mail-items/${id}`);
+      return response.json();
+    },
     enabled: !!id,
   });
 }
 
+type UploadProgressHandler = (loaded: number, total: number) => void;
+
 export function useCreateMailItem() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async (formData: FormData) => {
-      const response = await apiRequest("POST", "/api/mail-items", formData);
-      return response.json();
+    mutationFn: async ({ file, onProgress }: { file: File; onProgress?: UploadProgressHandler }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      return uploadWithProgress<MailItemWithTags>("/api/mail-items", formData, onProgress);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+    },
+  });
+}
+
+// Several scans stitched, in order, into one multi-page document
+export function useCreateCombinedMailItem() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ files, onProgress }: { files: File[]; onProgress?: UploadProgressHandler }) => {
+      const formData = new FormData();
+      files.forEach(file => formData.append('files', file));
+      return uploadWithProgress<MailItemWithTags>("/api/mail-items/combined", formData, onProgress);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
@@ -33,7 +114,7 @@ export function useUpdateMailItem() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async ({ id, updates }: { id: number; updates: Partial<InsertMailItem> }) => {
+    mutationFn: async ({ id, updates }: { id: number; updates: UpdateMailItem }) => {
       const response = await apiRequest("PATCH", `/api/mail-items/${id}`, updates);
       return response.json();
     },
@@ -44,6 +125,20 @@ export function useUpdateMailItem() {
   });
 }
 
+export function useReanalyzeMailItem() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/mail-items/${id}/reanalyze`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+    },
+  });
+}
+
 export function useDeleteMailItem() {
   const queryClient = useQueryClient();
   
@@ -53,13 +148,71 @@ export function useDeleteMailItem() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    },
+  });
+}
+
+// Moves every item to the trash in one request
+export function useDeleteAllMailItems() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (): Promise<{ deleted: number }> => {
+      const response = await apiRequest("DELETE", "/api/mail-items");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    },
+  });
+}
+
+// Applies one action to many items; a 422 still carries the per-item results explaining why nothing changed
+export function useBulkMailItems() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: BulkRequest): Promise<BulkResult> => {
+      const response = await fetch("/api/mail-items/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+        credentials: "include", // Include HttpOnly cookies
+      });
+      if (!response.ok && response.status !== 422) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.json();
+    },
+    onSuccess: (result, request) => {
+      if (!result.applied || request.action.type === "export") return;
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      if (request.action.type === "delete") {
+        queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      }
     },
   });
 }
 
+// Server-ranked full-text search, fetched a page at a time
 export function useSearchMailItems(query: string) {
-  return useQuery<MailItem[]>({
-    queryKey: ["/api/mail-items/search", query],
-    enabled: query.length > 0,
+  const q = query.trim();
+
+  return useInfiniteQuery({
+    queryKey: ["/api/search", q],
+    queryFn: async ({ pageParam }): Promise<SearchResults> => {
+      const params = new URLSearchParams({ q, page: String(pageParam), pageSize: String(SEARCH_PAGE_SIZE) });
+      const response = await apiRequest("GET", `/api/search?${params}`);
+      return response.json();
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.page * lastPage.pageSize < lastPage.total ? lastPage.page + 1 : undefined,
+    enabled: q.length > 0,
   });
 }
@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Notification, NotificationWithItem } from "@shared/schema";
+
+export function useNotifications() {
+  return useQuery<NotificationWithItem[]>({
+    queryKey: ["/api/notifications"],
+  });
+}
+
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<{ updated: number }> => {
+      const response = await apiRequest("POST", "/api/notifications/read");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+}
+
+export function useSnoozeNotification() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, days }: { id: number; days: number }): Promise<Notification> => {
+      const response = await apiRequest("POST", `/api/notifications/${id}/snooze`, { days });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+}
+
+export function useDismissNotification() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number): Promise<Notification> => {
+      const response = await apiRequest("POST", `/api/notifications/${id}/dismiss`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+}
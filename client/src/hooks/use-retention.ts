@@ -0,0 +1,31 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { RetentionCandidate, RetentionOverview } from "@shared/retention";
+import type { UpdateRetentionPolicies } from "@shared/schema";
+
+export function useRetention() {
+  return useQuery<RetentionOverview>({
+    queryKey: ["/api/retention"],
+  });
+}
+
+export function useRetentionPreview() {
+  return useQuery<RetentionCandidate[]>({
+    queryKey: ["/api/retention/preview"],
+  });
+}
+
+export function useUpdateRetention() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateRetentionPolicies): Promise<RetentionOverview> => {
+      const response = await apiRequest("PUT", "/api/retention", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/retention"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/retention/preview"] });
+    },
+  });
+}
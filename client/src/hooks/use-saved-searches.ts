@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { CreateSavedSearch, SavedSearch, SavedSearchWithCount, UpdateSavedSearch } from "@shared/schema";
+
+const savedSearchesKey = ["/api/saved-searches"];
+
+// Smart folders with item counts; kept fresh by useLiveUpdates
+export function useSavedSearches() {
+  return useQuery<SavedSearchWithCount[]>({
+    queryKey: savedSearchesKey,
+  });
+}
+
+export function useCreateSavedSearch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (search: CreateSavedSearch): Promise<SavedSearch> => {
+      const response = await apiRequest("POST", "/api/saved-searches", search);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedSearchesKey });
+    },
+  });
+}
+
+export function useUpdateSavedSearch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: UpdateSavedSearch }): Promise<SavedSearch> => {
+      const response = await apiRequest("PATCH", `/api/saved-searches/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedSearchesKey });
+    },
+  });
+}
+
+export function useReorderSavedSearches() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids: number[]) => {
+      await apiRequest("PUT", "/api/saved-searches/order", { ids });
+    },
+    // Move folders immediately rather than waiting for the round trip
+    onMutate: async (ids) => {
+      await queryClient.cancelQueries({ queryKey: savedSearchesKey });
+      const previous = queryClient.getQueryData<SavedSearchWithCount[]>(savedSearchesKey);
+      queryClient.setQueryData<SavedSearchWithCount[]>(savedSearchesKey, (searches) =>
+        searches && [...searches].sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id))
+      );
+      return { previous };
+    },
+    onError: (_error, _ids, context) => {
+      if (context?.previous) queryClient.setQueryData(savedSearchesKey, context.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: savedSearchesKey });
+    },
+  });
+}
+
+export function useDeleteSavedSearch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedSearchesKey });
+    },
+  });
+}
@@ -0,0 +1,56 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { MailItemWithTags } from "@shared/schema";
+
+export interface TrashContents {
+  items: MailItemWithTags[];
+  purgeAfterDays: number;
+}
+
+export function useTrash() {
+  return useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+  });
+}
+
+export function useRestoreMailItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number): Promise<MailItemWithTags> => {
+      const response = await apiRequest("POST", `/api/trash/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mail-items"] });
+    },
+  });
+}
+
+export function usePermanentlyDeleteMailItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/trash/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    },
+  });
+}
+
+export function useEmptyTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<{ deleted: number }> => {
+      const response = await apiRequest("DELETE", "/api/trash");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    },
+  });
+}
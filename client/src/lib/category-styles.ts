@@ -0,0 +1,35 @@
+import { Tag, Folder, Home, Car, Briefcase, GraduationCap, PiggyBank, Heart, Star, Plane, type LucideIcon } from "lucide-react";
+import type { CategoryColor, CategoryIcon, UserCategory } from "@shared/schema";
+
+// Badge classes for each selectable custom category colour (full class names so Tailwind keeps them)
+export const categoryColorClasses: Record<CategoryColor, { badge: string; swatch: string; text: string }> = {
+  indigo: { badge: "bg-indigo-100 text-indigo-800", swatch: "bg-indigo-500", text: "text-indigo-600" },
+  red: { badge: "bg-red-100 text-red-800", swatch: "bg-red-500", text: "text-red-600" },
+  amber: { badge: "bg-amber-100 text-amber-800", swatch: "bg-amber-500", text: "text-amber-600" },
+  green: { badge: "bg-green-100 text-green-800", swatch: "bg-green-500", text: "text-green-600" },
+  purple: { badge: "bg-purple-100 text-purple-800", swatch: "bg-purple-500", text: "text-purple-600" },
+  cyan: { badge: "bg-cyan-100 text-cyan-800", swatch: "bg-cyan-500", text: "text-cyan-600" },
+  blue: { badge: "bg-blue-100 text-blue-800", swatch: "bg-blue-500", text: "text-blue-600" },
+  emerald: { badge: "bg-emerald-100 text-emerald-800", swatch: "bg-emerald-500", text: "text-emerald-600" },
+  pink: { badge: "bg-pink-100 text-pink-800", swatch: "bg-pink-500", text: "text-pink-600" },
+  slate: { badge: "bg-slate-100 text-slate-800", swatch: "bg-slate-500", text: "text-slate-600" },
+};
+
+export const categoryIconComponents: Record<CategoryIcon, LucideIcon> = {
+  "tag": Tag,
+  "folder": Folder,
+  "home": Home,
+  "car": Car,
+  "briefcase": Briefcase,
+  "graduation-cap": GraduationCap,
+  "piggy-bank": PiggyBank,
+  "heart": Heart,
+  "star": Star,
+  "plane": Plane,
+};
+
+export function getCustomCategoryStyle(category: Pick<UserCategory, "color" | "icon"> | undefined) {
+  const colors = categoryColorClasses[(category?.color as CategoryColor) || "indigo"] || categoryColorClasses.indigo;
+  const icon = categoryIconComponents[(category?.icon as CategoryIcon) || "tag"] || Tag;
+  return { ...colors, icon };
+}
@@ -0,0 +1,21 @@
+import type { DetailsFilter, ExtractedFields } from "@shared/schema";
+
+export type { DetailsFilter } from "@shared/schema";
+
+export const detailsFilterLabels: Record<DetailsFilter, string> = {
+  "all": "Any details",
+  "amount-due": "Has amount due",
+  "due-soon": "Due in next 7 days",
+  "overdue": "Overdue",
+  "appointment": "Has appointment",
+};
+
+export function formatAmount(amount: ExtractedFields["amountDue"]): string | null {
+  if (!amount) return null;
+
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency: amount.currency }).format(amount.value);
+  } catch {
+    return `${amount.value.toFixed(2)} ${amount.currency}`;
+  }
+}
@@ -34,6 +34,17 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors read "<status>: <body>"; show the API's own message when there is one
+export function apiErrorText(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+: /, ""));
+    return body.details || body.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,222 @@
+import { ArrowLeft, Receipt, CheckCircle2, AlertTriangle, Undo2 } from "lucide-react";
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useBills, useUpdatePayment } from "@/hooks/use-bills";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { useToast } from "@/hooks/use-toast";
+import { formatAmount } from "@/lib/extracted-fields";
+import type { BillStatus, BillSummary } from "@shared/bills";
+
+const statusConfig: Record<BillStatus, { label: string; color: string }> = {
+  unpaid: { label: "Unpaid", color: "bg-amber-100 text-amber-800" },
+  overdue: { label: "Overdue", color: "bg-red-100 text-red-800" },
+  paid: { label: "Paid", color: "bg-green-100 text-green-800" },
+};
+
+function formatDate(date: string | null) {
+  return date ? format(parseISO(date), "d MMM yyyy") : "No due date";
+}
+
+function formatMoney(value: number | null, currency: string) {
+  return value === null ? "—" : formatAmount({ value, currency });
+}
+
+export default function BillsPage() {
+  const { data: overview, isLoading } = useBills();
+  const updatePayment = useUpdatePayment();
+  const { toast } = useToast();
+  useLiveUpdates();
+
+  const handlePaymentChange = async (bill: BillSummary, status: "paid" | "unpaid") => {
+    try {
+      await updatePayment.mutateAsync({ id: bill.id, payment: { status } });
+      toast({
+        title: status === "paid" ? "Marked as paid" : "Marked as unpaid",
+        description: `"${bill.title}" has been updated.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Update failed",
+        description: "The payment status could not be updated. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading || !overview) {
+    return (
+      <div className="container mx-auto p-6 max-w-5xl">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl space-y-6">
+      <div className="flex items-center space-x-4">
+        <Link href="/">
+          <Button variant="ghost" size="sm" className="flex items-center">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+        <Receipt className="w-8 h-8 mr-3" />
+        <h1 className="text-3xl font-bold">Bills</h1>
+      </div>
+
+      {/* Outstanding totals per currency */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {overview.totals.length === 0 ? (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Outstanding</CardDescription>
+              <CardTitle className="text-2xl">Nothing to pay</CardTitle>
+            </CardHeader>
+          </Card>
+        ) : overview.totals.map((total) => (
+          <Card key={total.currency}>
+            <CardHeader className="pb-2">
+              <CardDescription>Outstanding ({total.currency})</CardDescription>
+              <CardTitle className="text-2xl">{formatMoney(total.outstanding, total.currency)}</CardTitle>
+            </CardHeader>
+            {total.overdue > 0 && (
+              <CardContent className="text-sm text-red-600 flex items-center">
+                <AlertTriangle className="w-4 h-4 mr-1" />
+                {formatMoney(total.overdue, total.currency)} overdue
+              </CardContent>
+            )}
+          </Card>
+        ))}
+      </div>
+
+      {/* Outstanding bills */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Outstanding</CardTitle>
+          <CardDescription>Sorted by due date. Overdue is based on today in {overview.timezone} ({formatDate(overview.today)}).</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {overview.outstanding.length === 0 ? (
+            <p className="text-sm text-gray-500">No outstanding bills.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bill</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.outstanding.map((bill) => (
+                  <TableRow key={bill.id}>
+                    <TableCell>
+                      <div className="font-medium">{bill.title}</div>
+                      {bill.sender && <div className="text-xs text-gray-500">{bill.sender}</div>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDate(bill.dueDate)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatMoney(bill.amountDue, bill.currency)}</TableCell>
+                    <TableCell>
+                      <Badge className={statusConfig[bill.status].color}>{statusConfig[bill.status].label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handlePaymentChange(bill, "paid")}
+                        disabled={updatePayment.isPending}
+                      >
+                        <CheckCircle2 className="w-4 h-4 mr-1" />
+                        Mark paid
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Monthly totals */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Monthly totals</CardTitle>
+          <CardDescription>Amounts due and paid, grouped by due month.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {overview.monthly.length === 0 ? (
+            <p className="text-sm text-gray-500">No dated bills yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead className="text-right">Due</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Remaining</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.monthly.map((month) => (
+                  <TableRow key={`${month.month}-${month.currency}`}>
+                    <TableCell>{format(parseISO(`${month.month}-01`), "MMMM yyyy")}</TableCell>
+                    <TableCell className="text-right">{formatMoney(month.due, month.currency)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(month.paid, month.currency)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(Math.max(0, month.due - month.paid), month.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Paid bills */}
+      {overview.paid.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Paid</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableBody>
+                {overview.paid.map((bill) => (
+                  <TableRow key={bill.id}>
+                    <TableCell>
+                      <div className="font-medium">{bill.title}</div>
+                      {bill.sender && <div className="text-xs text-gray-500">{bill.sender}</div>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">Paid {formatDate(bill.paidDate)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatMoney(bill.amountPaid ?? bill.amountDue, bill.currency)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handlePaymentChange(bill, "unpaid")}
+                        disabled={updatePayment.isPending}
+                      >
+                        <Undo2 className="w-4 h-4 mr-1" />
+                        Mark unpaid
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,40 @@ import { useState, useMemo, useEffect, useCallback } from "react";
 import { useLocation, useSearch } from "wouter";
 import { Header } from "@/components/header";
 import { UploadArea } from "@/components/upload-area";
-import { FilterControls } from "@/components/filter-controls";
+import { FilterControls, sortOptionLabels, type SortOption, type TagMatchMode } from "@/components/filter-controls";
 import { MailGrid } from "@/components/mail-grid";
-import { useMailItems } from "@/hooks/use-mail-items";
+import { BulkActionToolbar } from "@/components/bulk-action-toolbar";
+import { Button } from "@/components/ui/button";
+import { useMailItems, useSearchMailItems } from "@/hooks/use-mail-items";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { useMigrateLegacyCategories } from "@/hooks/use-categories";
+import { SmartFolders } from "@/components/smart-folders";
+import { Archive, CheckSquare, Inbox } from "lucide-react";
+import { detailsFilterLabels, type DetailsFilter } from "@/lib/extracted-fields";
+import type { SearchHighlight } from "@/components/mail-item";
+import { parseSearchQuery } from "@shared/query-language";
+import { matchesMailFilters } from "@shared/mail-filters";
+import type { MailItemSort, SortOrder } from "@shared/mail-item-list";
+import type { SavedSearchFilters } from "@shared/schema";
+
+interface DashboardFilters extends SavedSearchFilters {
+  sort: SortOption;
+  archived: boolean;
+}
+
+const DEFAULT_SORT: SortOption = "uploaded-desc";
+
+function parseSortOption(value: string | null): SortOption {
+  return value && value in sortOptionLabels ? (value as SortOption) : DEFAULT_SORT;
+}
+
+function parseDetailsFilter(value: string | null): DetailsFilter {
+  return value && value in detailsFilterLabels ? (value as DetailsFilter) : "all";
+}
+
+function parseTags(value: string | null): string[] {
+  return value ? value.split(",").filter(Boolean) : [];
+}
 
 export default function Dashboard() {
   const [location, setLocation] = useLocation();
@@ -13,14 +44,42 @@ export default function Dashboard() {
   // Initialize state from URL parameters
   const [activeFilter, setActiveFilter] = useState(searchParams.get("category") || "all");
   const [searchQuery, setSearchQuery] = useState(searchParams.get("search") || "");
+  const [selectedTags, setSelectedTags] = useState<string[]>(parseTags(searchParams.get("tags")));
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>(searchParams.get("match") === "all" ? "all" : "any");
+  const [detailsFilter, setDetailsFilter] = useState<DetailsFilter>(parseDetailsFilter(searchParams.get("details")));
+  const [sortOption, setSortOption] = useState<SortOption>(parseSortOption(searchParams.get("sort")));
+  const [showArchived, setShowArchived] = useState(searchParams.get("archived") === "1");
+  // Multi-select mode for bulk actions
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
 
-  const { data: allItems = [], isLoading } = useMailItems();
+  const isSearching = searchQuery.trim().length > 0;
+  const listFilters = useMemo(() => ({
+    category: activeFilter,
+    tags: selectedTags,
+    match: selectedTags.length > 1 ? tagMatchMode : "any" as TagMatchMode,
+    details: detailsFilter,
+  }), [activeFilter, selectedTags, tagMatchMode, detailsFilter]);
+  const [sort, order] = sortOption.split("-") as [MailItemSort, SortOrder];
+
+  // Browsing pages through the server-side sorted and filtered list; searching uses ranked results
+  const list = useMailItems({ sort, order, filters: listFilters, archived: showArchived }, !isSearching);
+  // Invalid queries are reported under the search box and never sent to the server
+  const isValidQuery = useMemo(() => parseSearchQuery(searchQuery).ok, [searchQuery]);
+  const search = useSearchMailItems(isValidQuery ? searchQuery : "");
+  useLiveUpdates();
+  useMigrateLegacyCategories();
 
   // Update URL when filters change
-  const updateURL = useCallback((category: string, search: string) => {
+  const updateURL = useCallback((filters: DashboardFilters) => {
     const params = new URLSearchParams();
-    if (category !== "all") params.set("category", category);
-    if (search.trim()) params.set("search", search.trim());
+    if (filters.category !== "all") params.set("category", filters.category);
+    if (filters.search.trim()) params.set("search", filters.search.trim());
+    if (filters.tags.length > 0) params.set("tags", filters.tags.join(","));
+    if (filters.tags.length > 1 && filters.match === "all") params.set("match", "all");
+    if (filters.details !== "all") params.set("details", filters.details);
+    if (filters.sort !== DEFAULT_SORT) params.set("sort", filters.sort);
+    if (filters.archived) params.set("archived", "1");
     
     const queryString = params.toString();
     const newPath = queryString ? `/?${queryString}` : "/";
@@ -30,49 +89,126 @@ export default function Dashboard() {
     }
   }, [location, setLocation]);
 
+  const currentFilters: DashboardFilters = {
+    category: activeFilter,
+    search: searchQuery,
+    tags: selectedTags,
+    match: tagMatchMode,
+    details: detailsFilter,
+    sort: sortOption,
+    archived: showArchived,
+  };
+
   // Handle filter changes
   const handleFilterChange = useCallback((filter: string) => {
     setActiveFilter(filter);
-    updateURL(filter, searchQuery);
-  }, [searchQuery, updateURL]);
+    updateURL({ ...currentFilters, category: filter });
+  }, [searchQuery, selectedTags, tagMatchMode, detailsFilter, sortOption, showArchived, updateURL]);
 
   const handleSearchChange = useCallback((query: string) => {
     setSearchQuery(query);
-    updateURL(activeFilter, query);
-  }, [activeFilter, updateURL]);
+    updateURL({ ...currentFilters, search: query });
+  }, [activeFilter, selectedTags, tagMatchMode, detailsFilter, sortOption, showArchived, updateURL]);
+
+  const handleSelectedTagsChange = useCallback((tags: string[]) => {
+    setSelectedTags(tags);
+    updateURL({ ...currentFilters, tags });
+  }, [activeFilter, searchQuery, tagMatchMode, detailsFilter, sortOption, showArchived, updateURL]);
+
+  const handleTagMatchModeChange = useCallback((mode: TagMatchMode) => {
+    setTagMatchMode(mode);
+    updateURL({ ...currentFilters, match: mode });
+  }, [activeFilter, searchQuery, selectedTags, detailsFilter, sortOption, showArchived, updateURL]);
+
+  const handleDetailsFilterChange = useCallback((details: DetailsFilter) => {
+    setDetailsFilter(details);
+    updateURL({ ...currentFilters, details });
+  }, [activeFilter, searchQuery, selectedTags, tagMatchMode, sortOption, showArchived, updateURL]);
+
+  const handleSortChange = useCallback((sort: SortOption) => {
+    setSortOption(sort);
+    updateURL({ ...currentFilters, sort });
+  }, [activeFilter, searchQuery, selectedTags, tagMatchMode, detailsFilter, showArchived, updateURL]);
+
+  // Opening a smart folder replaces every filter at once, keeping the sort order
+  const handleApplyFilters = useCallback((filters: SavedSearchFilters) => {
+    setActiveFilter(filters.category);
+    setSearchQuery(filters.search);
+    setSelectedTags(filters.tags);
+    setTagMatchMode(filters.match);
+    setDetailsFilter(filters.details);
+    updateURL({ ...filters, sort: sortOption, archived: showArchived });
+  }, [sortOption, showArchived, updateURL]);
+
+  // The archive is a separate view; a selection never carries across views
+  const handleArchivedChange = useCallback((archived: boolean) => {
+    setShowArchived(archived);
+    setSelectedIds(new Set());
+    updateURL({ ...currentFilters, archived });
+  }, [activeFilter, searchQuery, selectedTags, tagMatchMode, detailsFilter, sortOption, updateURL]);
+
+  const handleToggleSelect = useCallback((id: number) => {
+    setSelectedIds(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleExitSelection = useCallback(() => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  }, []);
 
   // Sync state with URL changes (browser back/forward)
   useEffect(() => {
     const urlCategory = searchParams.get("category") || "all";
     const urlSearch = searchParams.get("search") || "";
+    const urlTags = parseTags(searchParams.get("tags"));
+    const urlMatch: TagMatchMode = searchParams.get("match") === "all" ? "all" : "any";
+    const urlDetails = parseDetailsFilter(searchParams.get("details"));
+    const urlSort = parseSortOption(searchParams.get("sort"));
+    const urlArchived = searchParams.get("archived") === "1";
     
     if (urlCategory !== activeFilter) setActiveFilter(urlCategory);
     if (urlSearch !== searchQuery) setSearchQuery(urlSearch);
+    if (urlTags.join(",") !== selectedTags.join(",")) setSelectedTags(urlTags);
+    if (urlMatch !== tagMatchMode) setTagMatchMode(urlMatch);
+    if (urlDetails !== detailsFilter) setDetailsFilter(urlDetails);
+    if (urlSort !== sortOption) setSortOption(urlSort);
+    if (urlArchived !== showArchived) setShowArchived(urlArchived);
   }, [useSearch()]);
 
+  const searchResults = useMemo(
+    () => search.data?.pages.flatMap(page => page.results) ?? [],
+    [search.data]
+  );
+  
+  const highlights = useMemo(() => {
+    const map = new Map<number, SearchHighlight>();
+    searchResults.forEach(result => map.set(result.item.id, { title: result.titleHighlight, snippet: result.snippet }));
+    return map;
+  }, [searchResults]);
+
   const filteredItems = useMemo(() => {
-    let items = allItems;
-    
-    // Apply search filter if query exists
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      items = items.filter(item => 
-        item.title.toLowerCase().includes(query) ||
-        item.summary.toLowerCase().includes(query) ||
-        item.category.toLowerCase().includes(query) ||
-        (item.extractedText && item.extractedText.toLowerCase().includes(query)) ||
-        (item.fileName && item.fileName.toLowerCase().includes(query))
-      );
-    }
-    
-    // Apply category filter if not "all"
-    if (activeFilter !== "all") {
-      items = items.filter(item => item.category === activeFilter);
-    }
-    
-    // Sort by most recent first
-    return items.sort((a, b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime());
-  }, [allItems, activeFilter, searchQuery]);
+    if (!isSearching) return list.data?.pages.flatMap(page => page.items) ?? [];
+    // Searches are ranked server-side; the remaining filters narrow the loaded results
+    return searchResults.map(result => result.item).filter(item => matchesMailFilters(item, listFilters));
+  }, [list.data, searchResults, isSearching, listFilters]);
+
+  const hasListFilters = activeFilter !== "all" || selectedTags.length > 0 || detailsFilter !== "all";
+  const resultCount = isSearching
+    ? (hasListFilters ? filteredItems.length : search.data?.pages[0]?.total ?? 0)
+    : list.data?.pages[0]?.total ?? 0;
+
+  const activeQuery = isSearching ? search : list;
+  const handleLoadMore = useCallback(() => {
+    activeQuery.fetchNextPage();
+  }, [activeQuery.fetchNextPage]);
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -81,15 +217,62 @@ export default function Dashboard() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <UploadArea />
         
-        <FilterControls
-          activeFilter={activeFilter}
-          onFilterChange={handleFilterChange}
-          searchQuery={searchQuery}
-          onSearchChange={handleSearchChange}
-          resultCount={filteredItems.length}
-        />
-        
-        <MailGrid items={filteredItems} isLoading={isLoading} />
+        <div className="lg:flex lg:items-start lg:gap-6">
+          <aside className="mb-6 lg:mb-0 lg:w-64 lg:flex-shrink-0">
+            <SmartFolders currentFilters={currentFilters} onSelect={handleApplyFilters} />
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            <FilterControls
+              activeFilter={activeFilter}
+              onFilterChange={handleFilterChange}
+              searchQuery={searchQuery}
+              onSearchChange={handleSearchChange}
+              selectedTags={selectedTags}
+              onSelectedTagsChange={handleSelectedTagsChange}
+              tagMatchMode={tagMatchMode}
+              onTagMatchModeChange={handleTagMatchModeChange}
+              detailsFilter={detailsFilter}
+              onDetailsFilterChange={handleDetailsFilterChange}
+              sortOption={sortOption}
+              onSortChange={handleSortChange}
+              resultCount={resultCount}
+            />
+
+            {isSelecting ? (
+              <BulkActionToolbar
+                selectedIds={Array.from(selectedIds)}
+                visibleIds={filteredItems.map(item => item.id)}
+                archivedView={showArchived}
+                onSelectionChange={(ids) => setSelectedIds(new Set(ids))}
+                onClose={handleExitSelection}
+              />
+            ) : (
+              <div className="flex justify-end gap-2 mb-4">
+                <Button size="sm" variant="outline" onClick={() => handleArchivedChange(!showArchived)}>
+                  {showArchived ? <Inbox className="w-4 h-4 mr-1" /> : <Archive className="w-4 h-4 mr-1" />}
+                  {showArchived ? "Back to inbox" : "Archived"}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setIsSelecting(true)}>
+                  <CheckSquare className="w-4 h-4 mr-1" />
+                  Select
+                </Button>
+              </div>
+            )}
+
+            <MailGrid
+              items={filteredItems}
+              isLoading={activeQuery.isLoading}
+              highlights={isSearching ? highlights : undefined}
+              hasMore={activeQuery.hasNextPage}
+              isLoadingMore={activeQuery.isFetchingNextPage}
+              onLoadMore={handleLoadMore}
+              selectable={isSelecting}
+              selectedIds={selectedIds}
+              onToggleSelect={handleToggleSelect}
+            />
+          </div>
+        </div>
       </div>
     </div>
   );
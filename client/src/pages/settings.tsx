@@ -13,8 +13,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, Bell, Palette, Globe, Clock, Trash2, AlertTriangle, ArrowLeft } from "lucide-react";
+import { Settings, Bell, Palette, Globe, Clock, Mail, Inbox, Send, Trash2, AlertTriangle, ArrowLeft } from "lucide-react";
 import { Link } from "wouter";
+import { RetentionPolicies } from "@/components/retention-policies";
+import { InboundEmailAddress } from "@/components/inbound-email-address";
+import { MailboxImport } from "@/components/mailbox-import";
+import { EmailAccount } from "@/components/email-account";
 
 interface UserSettings {
   theme: "light" | "dark" | "system";
@@ -72,6 +76,7 @@ export default function SettingsPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/retention"] });
       toast({
         title: "Settings Updated",
         description: "Your preferences have been saved successfully.",
@@ -257,7 +262,7 @@ export default function SettingsPage() {
               <div className="space-y-0.5">
                 <Label>Weekly Digest</Label>
                 <p className="text-sm text-gray-500">
-                  Receive a weekly summary of your document activity
+                  Receive a Monday morning email with last week's uploads, upcoming reminders and unpaid bills
                 </p>
               </div>
               <Switch
@@ -279,12 +284,12 @@ export default function SettingsPage() {
               Control how your data is managed and stored
             </CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-6">
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label>Auto-delete Old Items</Label>
                 <p className="text-sm text-gray-500">
-                  Automatically delete documents older than 2 years
+                  Automatically delete documents once they pass the retention period for their category
                 </p>
               </div>
               <Switch
@@ -292,6 +297,7 @@ export default function SettingsPage() {
                 onCheckedChange={(checked) => form.setValue("autoDeleteOldItems", checked)}
               />
             </div>
+            <RetentionPolicies />
           </CardContent>
         </Card>
 
@@ -306,6 +312,54 @@ export default function SettingsPage() {
         </div>
       </form>
 
+      {/* Sending Account */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Send className="w-5 h-5 mr-2" />
+            Your Email Account
+          </CardTitle>
+          <CardDescription>
+            Send notification, reminder and digest emails from your own account. Settings are checked with your mail server before they are saved, and the password is stored encrypted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EmailAccount />
+        </CardContent>
+      </Card>
+
+      {/* Email Forwarding */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Mail className="w-5 h-5 mr-2" />
+            Email Forwarding
+          </CardTitle>
+          <CardDescription>
+            Forward letters that arrive by email to this address. PDF and image attachments are added to your mail, tagged with the sender.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <InboundEmailAddress />
+        </CardContent>
+      </Card>
+
+      {/* Email Import */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Inbox className="w-5 h-5 mr-2" />
+            Import from Your Mailbox
+          </CardTitle>
+          <CardDescription>
+            Check a folder of your email account for bills and import their PDF attachments, optionally only from certain senders or subjects
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MailboxImport />
+        </CardContent>
+      </Card>
+
       {/* Danger Zone */}
       <Card className="border-red-200 bg-red-50">
         <CardHeader>
@@ -0,0 +1,173 @@
+import { ArrowLeft, Trash2, RotateCcw } from "lucide-react";
+import { Link } from "wouter";
+import { addDays, format, formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useTrash, useRestoreMailItem, usePermanentlyDeleteMailItem, useEmptyTrash } from "@/hooks/use-trash";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { useToast } from "@/hooks/use-toast";
+import type { MailItemWithTags } from "@shared/schema";
+
+export default function TrashPage() {
+  const { data: trash, isLoading } = useTrash();
+  const restoreMailItem = useRestoreMailItem();
+  const permanentlyDelete = usePermanentlyDeleteMailItem();
+  const emptyTrash = useEmptyTrash();
+  const { toast } = useToast();
+  useLiveUpdates();
+
+  const handleRestore = async (item: MailItemWithTags) => {
+    try {
+      await restoreMailItem.mutateAsync(item.id);
+      toast({
+        title: "Document restored",
+        description: `"${item.title}" is back on your dashboard.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Restore failed",
+        description: "The document could not be restored. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePermanentDelete = async (item: MailItemWithTags) => {
+    if (!confirm(`Permanently delete "${item.title}"? This action cannot be undone.`)) return;
+
+    try {
+      await permanentlyDelete.mutateAsync(item.id);
+      toast({
+        title: "Document deleted",
+        description: `"${item.title}" has been permanently deleted.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: "The document could not be deleted. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!trash || trash.items.length === 0) return;
+    if (!confirm(`Permanently delete all ${trash.items.length} documents in the trash? This action cannot be undone.`)) return;
+
+    try {
+      const { deleted } = await emptyTrash.mutateAsync();
+      toast({
+        title: "Trash emptied",
+        description: `${deleted} documents have been permanently deleted.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: "The trash could not be emptied. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading || !trash) {
+    return (
+      <div className="container mx-auto p-6 max-w-5xl">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl space-y-6">
+      <div className="flex items-center space-x-4">
+        <Link href="/">
+          <Button variant="ghost" size="sm" className="flex items-center">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+        <Trash2 className="w-8 h-8 mr-3" />
+        <h1 className="text-3xl font-bold">Trash</h1>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Deleted documents</CardTitle>
+            <CardDescription>
+              Documents are permanently deleted {trash.purgeAfterDays} days after being moved to the trash.
+            </CardDescription>
+          </div>
+          {trash.items.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleEmptyTrash}
+              disabled={emptyTrash.isPending}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Empty trash
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {trash.items.length === 0 ? (
+            <p className="text-sm text-gray-500">The trash is empty.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Removed on</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trash.items.map((item) => {
+                  const deletedAt = new Date(item.deletedAt!);
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.title}</div>
+                        <div className="text-xs text-gray-500 capitalize">{item.category}</div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDistanceToNow(deletedAt, { addSuffix: true })}</TableCell>
+                      <TableCell className="whitespace-nowrap">{format(addDays(deletedAt, trash.purgeAfterDays), "d MMM yyyy")}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore(item)}
+                          disabled={restoreMailItem.isPending}
+                          className="mr-2"
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handlePermanentDelete(item)}
+                          disabled={permanentlyDelete.isPending}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          Delete forever
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
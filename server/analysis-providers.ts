@@ -0,0 +1,509 @@
+// Document analysis providers (OCR + classification) and provider selection
+import OpenAI from "openai";
+import { spawn } from "child_process";
+import { categories, extractedFieldsSchema, type Category, type ExtractedFields } from "@shared/schema";
+
+export interface OcrContext {
+  fileName: string;
+  source: 'image' | 'pdf';
+  pageNumber?: number;
+  totalPages?: number;
+}
+
+export interface DocumentClassification {
+  title: string;
+  summary: string;
+  category: Category;
+  // Every label that applies, primary category first
+  tags: string[];
+  reminderDate?: string | null;
+  extractedFields: ExtractedFields;
+}
+
+export interface ProviderHealth {
+  status: 'available' | 'unavailable';
+  detail?: string;
+}
+
+export interface AnalysisProvider {
+  readonly name: string;
+  // Extract all visible text from a single page image
+  extractText(image: Buffer, mimeType: string, context: OcrContext): Promise<string>;
+  // Derive title/summary/category/reminder from the full extracted text
+  classifyText(text: string, fileName: string, pageCount: number): Promise<DocumentClassification>;
+  // Best-effort classification when no text could be extracted
+  classifyFileName(fileName: string): Promise<DocumentClassification>;
+  checkHealth(): Promise<ProviderHealth>;
+}
+
+export function validateCategory(category: string): Category {
+  return categories.includes(category as Category) ? (category as Category) : "personal";
+}
+
+// Keep whichever model-provided fields are valid instead of discarding the whole object
+export function parseExtractedFields(raw: unknown): ExtractedFields {
+  if (!raw || typeof raw !== "object") return {};
+
+  const parsed = extractedFieldsSchema.safeParse(raw);
+  if (parsed.success) return parsed.data;
+
+  const fields: Record<string, unknown> = {};
+  const shape = extractedFieldsSchema.shape;
+  (Object.keys(shape) as (keyof typeof shape)[]).forEach(key => {
+    const field = shape[key].safeParse((raw as Record<string, unknown>)[key]);
+    if (field.success && field.data != null) {
+      fields[key] = field.data;
+    }
+  });
+  return fields as ExtractedFields;
+}
+
+const MAX_TAGS = 5;
+
+// Clean up model-provided labels: lowercase, deduplicated, primary category first
+export function normalizeTags(category: Category, tags: unknown): string[] {
+  const candidates = Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === "string") : [];
+  const normalized = [category, ...candidates]
+    .map(tag => tag.trim().toLowerCase().substring(0, 50))
+    .filter(Boolean);
+  return Array.from(new Set(normalized)).slice(0, MAX_TAGS);
+}
+
+const CLASSIFICATION_SYSTEM_PROMPT = `Analyze the extracted text to provide comprehensive document metadata. Return JSON with:
+{
+  "title": "Descriptive title based on content",
+  "summary": "COMPREHENSIVE analysis including: document type, key details (names, addresses, dates, amounts, reference numbers), purpose, required actions, deadlines, and all important information from the document",
+  "category": "bill, appointment, personal, promotional, government, insurance, nhs",
+  "tags": ["every category from the list above that applies, plus up to 3 short lowercase topic labels such as 'council tax' or 'energy'"],
+  "reminderDate": "YYYY-MM-DD if action needed, null otherwise",
+  "fields": {
+    "sender": "organisation or person that sent the document, or null",
+    "referenceNumber": "account, policy, customer or reference number, or null",
+    "amountDue": { "value": 123.45, "currency": "GBP" } or null,
+    "dueDate": "YYYY-MM-DD payment or response deadline, or null",
+    "appointment": { "date": "YYYY-MM-DD", "time": "HH:MM (24h)", "location": "address or place" } or null,
+    "contactPhone": "phone number to contact the sender, or null"
+  }
+}
+
+Make the summary very detailed with ALL specific information:
+- Company/organization names and contact details
+- Personal names, addresses, phone numbers
+- All dates, amounts, reference numbers
+- Document purpose and key details
+- Required actions or deadlines
+- Any important terms or conditions
+
+Categories:
+- bill: Utilities, invoices, taxes, payments
+- appointment: Medical, meetings, bookings
+- personal: Letters, tickets, receipts
+- government: Official documents, permits
+- insurance: Policies, claims, coverage
+- nhs: Medical records, prescriptions
+- promotional: Marketing, offers`;
+
+const IMAGE_OCR_SYSTEM_PROMPT = `You are a professional OCR system. Your ONLY job is to extract ALL visible text from documents exactly as written.
+
+CRITICAL OCR RULES:
+- Extract EVERY word, number, symbol visible in the document
+- Preserve original spelling, capitalization, and punctuation
+- Keep original language (Ukrainian/Russian/English) - DO NOT translate
+- Maintain line breaks and spacing where possible
+- Include headers, footers, stamps, watermarks, handwritten text
+- Transcribe EVERYTHING readable, even if partially obscured
+
+For Ukrainian/Russian: Preserve Cyrillic characters exactly (е, і, ї, є, ґ, etc.)
+For numbers: Include ALL digits, decimals, currency symbols
+For dates: Extract exactly as shown (28.11.2022, 11/28/2022, etc.)
+
+Output the complete text transcription only - no analysis, no summary, just pure text extraction.`;
+
+const PDF_OCR_SYSTEM_PROMPT = "You are an expert OCR (Optical Character Recognition) system. Extract ALL visible text from the document with 100% accuracy. Maintain original formatting, line breaks, and spacing exactly as shown. Include all text, numbers, dates, addresses, company names, and any other written content. Provide only the extracted text without any analysis or interpretation.";
+
+// OpenAI GPT-4o vision OCR and JSON classification
+export class OpenAIAnalysisProvider implements AnalysisProvider {
+  readonly name = "openai";
+  private client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  private model = process.env.OPENAI_MODEL || "gpt-4o"; // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+
+  async extractText(image: Buffer, mimeType: string, context: OcrContext): Promise<string> {
+    const base64Image = image.toString('base64');
+
+    const instructions = context.source === 'pdf'
+      ? `Extract ALL text from page ${context.pageNumber || 1} of ${context.totalPages || 1} of this PDF document (converted to image) with exact precision. Include every word, number, date, and detail visible in the document. Maintain original formatting and spacing.`
+      : `Extract ALL visible text from this document. Include everything readable:
+- Every word and number exactly as written
+- All company names, addresses, phone numbers
+- Dates, amounts, reference numbers
+- Headers, footers, stamps
+- Any Cyrillic text in original form
+- Handwritten notes or annotations
+
+File: ${context.fileName}
+
+Provide complete text transcription without any analysis.`;
+
+    const ocrResponse = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content: context.source === 'pdf' ? PDF_OCR_SYSTEM_PROMPT : IMAGE_OCR_SYSTEM_PROMPT
+        },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: instructions },
+            {
+              type: "image_url",
+              image_url: {
+                url: `data:${mimeType};base64,${base64Image}`
+              }
+            }
+          ]
+        }
+      ],
+      max_tokens: context.source === 'pdf' ? 4000 : 3000
+    });
+
+    return ocrResponse.choices[0].message.content?.trim() || "";
+  }
+
+  async classifyText(text: string, fileName: string, pageCount: number): Promise<DocumentClassification> {
+    const documentLabel = pageCount > 1
+      ? `${pageCount}-page document "${fileName}". Base the title, summary, category and reminder date on ALL pages, not just the first`
+      : `document "${fileName}"`;
+
+    const analysisResponse = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content: CLASSIFICATION_SYSTEM_PROMPT
+        },
+        {
+          role: "user",
+          content: `Analyze this extracted text from ${documentLabel}:
+
+${text}
+
+Provide comprehensive analysis including:
+- Document type and purpose
+- ALL names, addresses, phone numbers, emails
+- ALL dates, amounts, reference/account numbers
+- Key terms, conditions, or requirements
+- Required actions and deadlines
+- Important details for document management
+
+Create a detailed summary with specific information for easy reference.`
+        }
+      ],
+      response_format: { type: "json_object" },
+      max_tokens: 1000
+    });
+
+    const result = JSON.parse(analysisResponse.choices[0].message.content || '{}');
+    const category = validateCategory(result.category);
+
+    return {
+      title: result.title || `Document - ${fileName}`,
+      summary: result.summary || "Document processed successfully.",
+      category,
+      tags: normalizeTags(category, result.tags),
+      reminderDate: result.reminderDate || null,
+      extractedFields: parseExtractedFields(result.fields),
+    };
+  }
+
+  async classifyFileName(fileName: string): Promise<DocumentClassification> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content: `You are a document analysis expert. Analyze PDF filenames to provide intelligent categorization and detailed insights.
+
+Provide JSON response with:
+- title: Descriptive document title
+- summary: Comprehensive analysis with likely content details
+- category: bill, appointment, personal, promotional, government, insurance, nhs
+- tags: array of every category above that applies plus up to 3 short lowercase topic labels
+- reminderDate: Estimated deadline if applicable (YYYY-MM-DD or null)
+- fields: { sender, referenceNumber } when they can be read from the filename, otherwise {}
+
+Include specific details like likely amounts, dates, organizations, and purposes based on filename patterns.
+
+Current date: ${new Date().toISOString().split('T')[0]}`
+        },
+        {
+          role: "user",
+          content: `Analyze PDF filename: ${fileName}
+
+Provide intelligent analysis with specific details based on document type patterns. Include likely amounts, dates, contact information, and action items that would typically appear in this type of document.`
+        }
+      ],
+      response_format: { type: "json_object" },
+      max_tokens: 1000
+    });
+
+    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const category = validateCategory(result.category);
+
+    return {
+      title: result.title || `PDF - ${fileName}`,
+      summary: result.summary || "PDF document analyzed based on filename.",
+      category,
+      tags: normalizeTags(category, result.tags),
+      reminderDate: result.reminderDate || null,
+      extractedFields: parseExtractedFields(result.fields),
+    };
+  }
+
+  async checkHealth(): Promise<ProviderHealth> {
+    if (!process.env.OPENAI_API_KEY) {
+      return { status: 'unavailable', detail: 'OPENAI_API_KEY is not set' };
+    }
+
+    try {
+      await this.client.models.list();
+      return { status: 'available' };
+    } catch (error: any) {
+      const reason = error.status === 429 ? "quota_exceeded" :
+                     error.status === 401 ? "auth_failed" : "error";
+      return { status: 'unavailable', detail: `${reason}: ${error.message?.substring(0, 50)}` };
+    }
+  }
+}
+
+// Keyword rules for offline classification, checked against lower-cased text
+const CATEGORY_KEYWORDS: Record<Category, string[]> = {
+  bill: ["invoice", "amount due", "balance", "payment", "direct debit", "council tax", "bill", "statement", "account number", "tariff", "overdue", "pay by"],
+  appointment: ["appointment", "booking", "scheduled", "please arrive", "clinic", "consultation", "reschedule", "attend"],
+  personal: ["dear", "ticket", "receipt", "order", "delivery", "invitation"],
+  promotional: ["offer", "discount", "sale", "limited time", "% off", "subscribe", "voucher", "free trial", "unsubscribe"],
+  government: ["hmrc", "dvla", "gov.uk", "department for", "home office", "electoral", "passport", "visa", "tax return", "national insurance"],
+  insurance: ["insurance", "policy", "premium", "claim", "cover", "excess", "renewal", "insurer"],
+  nhs: ["nhs", "gp surgery", "prescription", "hospital", "patient", "nhs number", "vaccination", "referral"],
+};
+
+const CATEGORY_LABELS: Record<Category, string> = {
+  bill: "Bill",
+  appointment: "Appointment",
+  personal: "Personal Document",
+  promotional: "Promotional Mail",
+  government: "Government Letter",
+  insurance: "Insurance Document",
+  nhs: "NHS Letter",
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Parse UK-style (day first) and ISO dates into YYYY-MM-DD
+function parseDocumentDate(raw: string): string | null {
+  let day: number, month: number, year: number;
+
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const numeric = raw.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})$/);
+  const written = raw.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\s+(\d{4})$/i);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (numeric) {
+    [day, month, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    if (year < 100) year += 2000;
+  } else if (written) {
+    const monthIndex = MONTHS.indexOf(written[2].substring(0, 3).toLowerCase());
+    if (monthIndex === -1) return null;
+    [day, month, year] = [Number(written[1]), monthIndex + 1, Number(written[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+}
+
+const SENDER_PATTERN = /\b(ltd|limited|plc|council|nhs|trust|bank|building society|insurance|hmrc|dvla|surgery|hospital|energy|water)\b/i;
+const REFERENCE_PATTERN = /(?:ref(?:erence)?|account|policy|customer)\s*(?:no\.?|number)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{4,})/i;
+const AMOUNT_DUE_PATTERN = /(?:amount due|total due|balance|to pay|amount payable)[^£$€\n]{0,30}([£$€])\s?(\d[\d,]*(?:\.\d{2})?)/i;
+const AMOUNT_PATTERN = /([£$€])\s?(\d[\d,]*(?:\.\d{2})?)/;
+const TIME_PATTERN = /\b([01]?\d|2[0-3])[:.]([0-5]\d)\s*(am|pm)?\b/i;
+const LOCATION_PATTERN = /(?:location|venue|where)\s*:\s*(.+)/i;
+const PHONE_PATTERN = /(?:tel|phone|call|telephone)[^\d+\n]{0,15}(\+?\d[\d\s-]{8,}\d)/i;
+const CURRENCY_CODES: Record<string, string> = { "£": "GBP", "$": "USD", "€": "EUR" };
+
+const DATE_PATTERN = /\b(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|\d{1,2}(?:st|nd|rd|th)?\s+(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\s+\d{4})\b/gi;
+const ACTION_PATTERN = /(due|pay by|payment date|deadline|before|no later than|by|on|appointment|expires?|renewal)/i;
+
+// Tesseract CLI OCR with keyword-based classification; needs no network access
+export class LocalAnalysisProvider implements AnalysisProvider {
+  readonly name = "local";
+  private tesseractPath = process.env.TESSERACT_PATH || "tesseract";
+  private language = process.env.TESSERACT_LANG || "eng";
+
+  extractText(image: Buffer, _mimeType: string, _context: OcrContext): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const tesseract = spawn(this.tesseractPath, ["stdin", "stdout", "-l", this.language]);
+      let stdout = "";
+      let stderr = "";
+
+      tesseract.stdout.on("data", chunk => { stdout += chunk; });
+      tesseract.stderr.on("data", chunk => { stderr += chunk; });
+      tesseract.on("error", reject);
+      tesseract.on("close", code => {
+        if (code === 0) {
+          resolve(stdout.trim());
+        } else {
+          reject(new Error(`tesseract exited with code ${code}: ${stderr.trim().substring(0, 200)}`));
+        }
+      });
+
+      tesseract.stdin.end(image);
+    });
+  }
+
+  async classifyText(text: string, fileName: string, pageCount: number): Promise<DocumentClassification> {
+    const [category, ...otherCategories] = this.detectCategories(`${text}\n${fileName}`);
+    const lines = text.split('\n').map(line => line.trim()).filter(line => /[a-zA-Z]{3,}/.test(line));
+    const heading = lines.find(line => line.length >= 6 && line.length <= 80);
+    const reminderDate = this.detectReminderDate(text);
+
+    const amounts = Array.from(new Set(text.match(/[£$€]\s?\d[\d,]*(?:\.\d{2})?/g) || [])).slice(0, 5);
+    const references = Array.from(new Set(
+      (text.match(/(?:ref(?:erence)?|account|policy|customer)\s*(?:no\.?|number)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{4,})/gi) || [])
+    )).slice(0, 3);
+
+    const summaryParts = [
+      `${CATEGORY_LABELS[category]}${pageCount > 1 ? ` (${pageCount} pages)` : ''}.`,
+      lines.slice(0, 3).join(' '),
+    ];
+    if (amounts.length > 0) summaryParts.push(`Amounts: ${amounts.join(', ')}.`);
+    if (references.length > 0) summaryParts.push(`References: ${references.join('; ')}.`);
+    if (reminderDate) summaryParts.push(`Action date: ${reminderDate}.`);
+
+    return {
+      title: heading ? `${CATEGORY_LABELS[category]} - ${heading}` : `${CATEGORY_LABELS[category]} - ${fileName.replace(/\.[^/.]+$/, "")}`,
+      summary: summaryParts.filter(Boolean).join(' '),
+      category,
+      tags: normalizeTags(category, otherCategories),
+      reminderDate,
+      extractedFields: this.detectFields(text, category, reminderDate),
+    };
+  }
+
+  async classifyFileName(fileName: string): Promise<DocumentClassification> {
+    const [category, ...otherCategories] = this.detectCategories(fileName.replace(/[_-]+/g, ' '));
+    return {
+      title: `${CATEGORY_LABELS[category]} - ${fileName.replace(/\.[^/.]+$/, "")}`,
+      summary: `${CATEGORY_LABELS[category]} categorized from the filename because no text could be extracted.`,
+      category,
+      tags: normalizeTags(category, otherCategories),
+      reminderDate: null,
+      extractedFields: {},
+    };
+  }
+
+  checkHealth(): Promise<ProviderHealth> {
+    return new Promise(resolve => {
+      const tesseract = spawn(this.tesseractPath, ["--version"]);
+      tesseract.on("error", error => resolve({ status: 'unavailable', detail: error.message }));
+      tesseract.on("close", code => resolve(
+        code === 0 ? { status: 'available' } : { status: 'unavailable', detail: `tesseract exited with code ${code}` }
+      ));
+    });
+  }
+
+  // Categories with keyword matches, best match first ("personal" when nothing matches)
+  private detectCategories(text: string): Category[] {
+    const lowerText = text.toLowerCase();
+    const scored = categories
+      .map(category => ({
+        category,
+        score: CATEGORY_KEYWORDS[category].reduce(
+          (total, keyword) => total + lowerText.split(keyword).length - 1,
+          0
+        ),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    return scored.length > 0 ? scored.map(({ category }) => category) : ["personal"];
+  }
+
+  // Regex-based extraction of key facts; anything not found is left out
+  private detectFields(text: string, category: Category, reminderDate: string | null): ExtractedFields {
+    const fields: ExtractedFields = {};
+
+    const sender = text.split('\n').map(line => line.trim()).find(line => line.length <= 80 && SENDER_PATTERN.test(line));
+    if (sender) fields.sender = sender;
+
+    const reference = text.match(REFERENCE_PATTERN);
+    if (reference) fields.referenceNumber = reference[1];
+
+    // Only fall back to the first amount on the page for bills
+    const amount = text.match(AMOUNT_DUE_PATTERN) || (category === "bill" ? text.match(AMOUNT_PATTERN) : null);
+    if (amount) {
+      fields.amountDue = { value: Number(amount[2].replace(/,/g, '')), currency: CURRENCY_CODES[amount[1]] };
+    }
+
+    if (category === "appointment") {
+      const time = text.match(TIME_PATTERN);
+      const location = text.match(LOCATION_PATTERN);
+      let hours = time ? Number(time[1]) : 0;
+      if (time?.[3]?.toLowerCase() === "pm" && hours < 12) hours += 12;
+      if (time?.[3]?.toLowerCase() === "am" && hours === 12) hours = 0;
+
+      fields.appointment = {
+        date: reminderDate,
+        time: time ? `${String(hours).padStart(2, '0')}:${time[2]}` : null,
+        location: location ? location[1].trim().substring(0, 200) : null,
+      };
+    } else if (reminderDate) {
+      fields.dueDate = reminderDate;
+    }
+
+    const phone = text.match(PHONE_PATTERN);
+    if (phone) fields.contactPhone = phone[1].trim();
+
+    return fields;
+  }
+
+  // Earliest upcoming date that appears next to an action word ("due", "pay by", ...)
+  private detectReminderDate(text: string): string | null {
+    const today = new Date().toISOString().split('T')[0];
+    const candidates: string[] = [];
+
+    for (const match of Array.from(text.matchAll(DATE_PATTERN))) {
+      const context = text.substring(Math.max(0, (match.index || 0) - 40), match.index);
+      const date = parseDocumentDate(match[1]);
+      if (date && date >= today && ACTION_PATTERN.test(context)) {
+        candidates.push(date);
+      }
+    }
+
+    return candidates.sort()[0] || null;
+  }
+}
+
+// Select provider from ANALYSIS_PROVIDER; default to OpenAI when a key is configured
+export function createAnalysisProvider(name = process.env.ANALYSIS_PROVIDER): AnalysisProvider {
+  const selected = (name || (process.env.OPENAI_API_KEY ? "openai" : "local")).toLowerCase();
+
+  switch (selected) {
+    case "openai":
+      return new OpenAIAnalysisProvider();
+    case "local":
+      return new LocalAnalysisProvider();
+    default:
+      throw new Error(`Unknown ANALYSIS_PROVIDER "${name}". Expected "openai" or "local".`);
+  }
+}
+
+export let analysisProvider = createAnalysisProvider();
+
+// Replace the active provider, e.g. with a stub in the API tests
+export function setAnalysisProvider(provider: AnalysisProvider): void {
+  analysisProvider = provider;
+}
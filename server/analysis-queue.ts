@@ -0,0 +1,194 @@
+// Persistent background queue that analyzes uploaded documents outside the request cycle
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { analyzeDocument, generateEnhancedFallback, type AIAnalysisResult } from "./ai-service";
+import { preprocessImage, isPreprocessableImage } from "./image-preprocessing";
+import { generatePreviews, previewsDir } from "./previews";
+import { publish, publishProgress } from "./live-events";
+import type { AnalysisJob, MailItem, MailItemWithTags } from "@shared/schema";
+
+const POLL_INTERVAL_MS = parseInt(process.env.ANALYSIS_POLL_INTERVAL_MS || '2000');
+const RETRY_BASE_DELAY_MS = parseInt(process.env.ANALYSIS_RETRY_BASE_DELAY_MS || '30000');
+
+// Queue a freshly uploaded mail item for analysis
+export async function enqueueAnalysis(item: MailItem, filePath: string): Promise<AnalysisJob> {
+  const job = await storage.createAnalysisJob({
+    mailItemId: item.id,
+    userId: item.userId,
+    filePath,
+    fileName: item.fileName,
+    status: "queued",
+    runAt: new Date(),
+  });
+  publishProgress(item.userId, { mailItemId: item.id, stage: "queued" });
+  return job;
+}
+
+// Exponential backoff: 30s, 1m, 2m, 4m, ...
+function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+}
+
+// Update the item and push the change to the user's open dashboards
+async function updateItem(job: AnalysisJob, updates: Parameters<typeof storage.updateMailItem>[2]): Promise<MailItemWithTags | undefined> {
+  const updated = await storage.updateMailItem(job.mailItemId, job.userId, updates);
+  if (updated) {
+    publish(job.userId, { type: "mail-item.updated", data: updated });
+  }
+  return updated;
+}
+
+async function applyAnalysisResult(job: AnalysisJob, result: AIAnalysisResult, status: "ready" | "failed"): Promise<MailItemWithTags | undefined> {
+  // Replaces only analysis-assigned tags, so labels the user added are kept on re-analysis
+  await storage.setMailItemTags(job.mailItemId, job.userId, result.tags, "ai");
+  return updateItem(job, {
+    title: result.title,
+    summary: result.summary,
+    category: result.category,
+    reminderDate: result.reminderDate || null,
+    extractedText: result.extractedText,
+    extractedFields: result.extractedFields,
+    pageCount: result.pageCount,
+    status,
+  });
+}
+
+// Photos are cleaned up before OCR and the item shows the cleaned copy, keeping the original alongside it.
+// Returns the file to analyze; the original is used if preprocessing fails.
+async function preprocessUpload(job: AnalysisJob, item: MailItem): Promise<string> {
+  if (!isPreprocessableImage(job.fileName)) return job.filePath;
+
+  publishProgress(job.userId, { mailItemId: job.mailItemId, stage: "preprocessing" });
+  try {
+    const result = await preprocessImage(job.filePath);
+    console.log(`Preprocessed mail item ${job.mailItemId}: cropped=${result.cropped}, deskewed ${result.skewDegrees}°`);
+    // The thumbnail should show the cleaned image too
+    const { thumbnailUrl } = await generatePreviews(result.path);
+    await updateItem(job, {
+      imageUrl: `/uploads/${path.basename(result.path)}`,
+      originalImageUrl: `/uploads/${path.basename(job.filePath)}`,
+      ...(thumbnailUrl && { thumbnailUrl }),
+    });
+    if (thumbnailUrl && item.thumbnailUrl && item.thumbnailUrl !== thumbnailUrl) {
+      // The thumbnail of the original photo is no longer used
+      await fs.promises.unlink(path.join(previewsDir, path.basename(item.thumbnailUrl))).catch(() => {});
+    }
+    return result.path;
+  } catch (error) {
+    console.error(`Preprocessing mail item ${job.mailItemId} failed, analyzing the original:`, error);
+    return job.filePath;
+  }
+}
+
+async function sendNotification(item: MailItem): Promise<void> {
+  try {
+    const user = await storage.getUser(item.userId);
+    if (user) {
+      const { sendLetterNotification } = await import('./email-service');
+      await sendLetterNotification(user, {
+        id: item.id,
+        title: item.title,
+        fileName: item.fileName,
+        imageUrl: item.imageUrl,
+        uploadDate: new Date(item.uploadDate),
+        summary: item.summary,
+        extractedText: item.extractedText || undefined,
+      });
+    }
+  } catch (emailError) {
+    console.error('Email notification failed:', emailError);
+    // Don't fail the job if email fails
+  }
+}
+
+async function processJob(job: AnalysisJob): Promise<void> {
+  // Storage errors are retried like analysis errors, so the job never stays running
+  try {
+    const item = await storage.getMailItem(job.mailItemId, job.userId);
+    if (!item) {
+      // Item was deleted while queued
+      await storage.completeAnalysisJob(job.id);
+      return;
+    }
+
+    await updateItem(job, { status: "processing" });
+    console.log(`Analyzing mail item ${job.mailItemId} (attempt ${job.attempts}/${job.maxAttempts}):`, job.fileName);
+
+    const analysisPath = await preprocessUpload(job, item);
+    const result = await analyzeDocument(analysisPath, job.fileName, {
+      fallbackOnError: false,
+      onProgress: progress => publishProgress(job.userId, { mailItemId: job.mailItemId, ...progress }),
+    });
+    const updated = await applyAnalysisResult(job, result, "ready");
+    await storage.completeAnalysisJob(job.id);
+    publishProgress(job.userId, { mailItemId: job.mailItemId, stage: "completed" });
+
+    if (updated) {
+      await sendNotification(updated);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (job.attempts < job.maxAttempts) {
+      const retryAt = new Date(Date.now() + getRetryDelay(job.attempts));
+      console.error(`Analysis of mail item ${job.mailItemId} failed, retrying at ${retryAt.toISOString()}:`, message);
+      await storage.failAnalysisJob(job.id, message, retryAt);
+      await updateItem(job, { status: "pending" });
+      publishProgress(job.userId, { mailItemId: job.mailItemId, stage: "retrying", message: `Retrying at ${retryAt.toISOString()}` });
+      return;
+    }
+
+    // Out of retries: keep a filename-based guess so the item is still usable
+    console.error(`Analysis of mail item ${job.mailItemId} failed permanently:`, message);
+    await storage.failAnalysisJob(job.id, message, null);
+    await applyAnalysisResult(job, generateEnhancedFallback(job.fileName, error), "failed");
+    publishProgress(job.userId, { mailItemId: job.mailItemId, stage: "failed", message });
+  }
+}
+
+// Drain all due jobs, one at a time
+export async function runPendingAnalysisJobs(): Promise<number> {
+  let processed = 0;
+  let job = await storage.claimNextAnalysisJob(new Date());
+
+  while (job) {
+    await processJob(job);
+    processed++;
+    job = await storage.claimNextAnalysisJob(new Date());
+  }
+
+  return processed;
+}
+
+// Start polling the queue; returns a function that stops the worker
+export function startAnalysisWorker(): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const poll = async () => {
+    if (stopped) return;
+    try {
+      await runPendingAnalysisJobs();
+    } catch (error) {
+      console.error('Analysis worker error:', error);
+    } finally {
+      if (!stopped) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    }
+  };
+
+  // Nothing is running in this process yet, so every running job was interrupted by a restart
+  storage.requeueStaleAnalysisJobs(new Date())
+    .then(count => {
+      if (count > 0) console.log(`Requeued ${count} interrupted analysis job(s)`);
+    })
+    .catch(error => console.error('Failed to requeue stale analysis jobs:', error))
+    .finally(poll);
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -35,6 +35,27 @@ export function verifyToken(token: string): any {
   return jwt.verify(token, JWT_SECRET);
 }
 
+// Signed links for acting on a notification from an email without logging in
+const NOTIFICATION_ACTION_EXPIRES_IN = "30d";
+
+export function generateNotificationActionToken(notificationId: number, userId: string): string {
+  return jwt.sign(
+    { purpose: "notification-action", notificationId, userId },
+    JWT_SECRET,
+    { expiresIn: NOTIFICATION_ACTION_EXPIRES_IN }
+  );
+}
+
+export function verifyNotificationActionToken(token: string): { notificationId: number; userId: string } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (decoded.purpose !== "notification-action") return null;
+    return { notificationId: decoded.notificationId, userId: decoded.userId };
+  } catch {
+    return null;
+  }
+}
+
 // Authentication middleware
 export interface AuthenticatedRequest extends Request {
   user?: User;
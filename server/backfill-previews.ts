@@ -0,0 +1,40 @@
+// Generate thumbnails and PDF previews for items uploaded before they existed: `npm run previews:backfill`
+import path from "path";
+import { storage } from "./storage";
+import { generatePreviews } from "./previews";
+
+const BATCH_SIZE = 50;
+const uploadsDir = 'uploads';
+
+async function backfillPreviews(): Promise<void> {
+  let lastId = 0;
+  let generated = 0;
+  let failed = 0;
+
+  let batch = await storage.getMailItemsWithoutThumbnails(lastId, BATCH_SIZE);
+  while (batch.length > 0) {
+    for (const item of batch) {
+      const { thumbnailUrl, previewUrl } = await generatePreviews(path.join(uploadsDir, path.basename(item.imageUrl)));
+      if (thumbnailUrl) {
+        await storage.updateMailItem(item.id, item.userId, { thumbnailUrl, previewUrl });
+        generated++;
+      } else {
+        // Left as is (e.g. the file is missing); the dashboard keeps showing the upload itself
+        failed++;
+      }
+    }
+
+    lastId = batch[batch.length - 1].id;
+    console.log(`Processed items up to id ${lastId}: ${generated} generated, ${failed} failed`);
+    batch = await storage.getMailItemsWithoutThumbnails(lastId, BATCH_SIZE);
+  }
+
+  console.log(`Preview backfill finished: ${generated} generated, ${failed} failed`);
+}
+
+backfillPreviews()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Preview backfill failed:', error);
+    process.exit(1);
+  });
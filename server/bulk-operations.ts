@@ -0,0 +1,86 @@
+// Batch actions on a selection of mail items (POST /api/mail-items/bulk)
+import { todayInTimeZone } from "@shared/bills";
+import type { BulkAction, BulkExport, BulkItemResult, BulkResult } from "@shared/bulk-actions";
+import type { MailItemWithTags } from "@shared/schema";
+import { storage } from "./storage";
+import { publish } from "./live-events";
+
+const exportColumns: [string, (item: MailItemWithTags) => string | number | null | undefined][] = [
+  ["id", item => item.id],
+  ["title", item => item.title],
+  ["category", item => item.category],
+  ["tags", item => item.tags.join("; ")],
+  ["custom_categories", item => item.customCategories.join("; ")],
+  ["sender", item => item.extractedFields?.sender],
+  ["reference", item => item.extractedFields?.referenceNumber],
+  ["amount_due", item => item.extractedFields?.amountDue?.value],
+  ["currency", item => item.extractedFields?.amountDue?.currency],
+  ["due_date", item => item.extractedFields?.dueDate],
+  ["reminder_date", item => item.reminderDate],
+  ["payment_status", item => item.paymentStatus],
+  ["paid_date", item => item.paidDate],
+  ["uploaded", item => new Date(item.uploadDate).toISOString()],
+  ["summary", item => item.summary],
+];
+
+function csvValue(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function buildExport(items: MailItemWithTags[], format: "csv" | "json", today: string): BulkExport {
+  if (format === "json") {
+    return {
+      fileName: `posty-export-${today}.json`,
+      contentType: "application/json",
+      content: JSON.stringify(items, null, 2),
+    };
+  }
+
+  const lines = [
+    exportColumns.map(([header]) => header).join(","),
+    ...items.map(item => exportColumns.map(([, value]) => csvValue(value(item))).join(",")),
+  ];
+  return {
+    fileName: `posty-export-${today}.csv`,
+    contentType: "text/csv",
+    content: lines.join("\r\n"),
+  };
+}
+
+// Export only reads items, but follows the same rule: every requested item must exist
+async function exportMailItems(userId: string, ids: number[], format: "csv" | "json", today: string): Promise<BulkResult> {
+  const uniqueIds = Array.from(new Set(ids));
+  const items = await storage.getMailItemsByIds(uniqueIds, userId);
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  const results: BulkItemResult[] = uniqueIds.map(id =>
+    itemsById.has(id) ? { id, status: "ok" } : { id, status: "failed", message: "Mail item not found" }
+  );
+  if (results.some(result => result.status === "failed")) {
+    return { applied: false, results };
+  }
+
+  // Keep the order the items were selected in
+  return { applied: true, results, export: buildExport(uniqueIds.map(id => itemsById.get(id)!), format, today) };
+}
+
+export async function runBulkAction(userId: string, ids: number[], action: BulkAction): Promise<BulkResult> {
+  const settings = await storage.getUserSettings(userId);
+  const today = todayInTimeZone(settings?.timezone);
+
+  if (action.type === "export") {
+    return exportMailItems(userId, ids, action.format, today);
+  }
+
+  const { applied, results, items } = await storage.bulkUpdateMailItems(userId, ids, action, today);
+  if (applied && action.type === "delete") {
+    results
+      .filter(result => result.status === "ok")
+      .forEach(result => publish(userId, { type: "mail-item.deleted", data: { id: result.id } }));
+  } else {
+    items.forEach(item => publish(userId, { type: "mail-item.updated", data: item }));
+  }
+
+  return { applied, results };
+}
@@ -0,0 +1,111 @@
+// Encryption for the mail server passwords users save (SMTP sending and IMAP import). AES-256-GCM with
+// server keys from CREDENTIAL_KEYS: comma-separated "<id>:<base64 32-byte key>" entries, the first of which
+// encrypts new values. Each stored value names its key, so a new key can be put first while older ones still
+// decrypt; `npm run credentials:rotate` then re-encrypts everything with the new key and the old one can go.
+// Without CREDENTIAL_KEYS a development key is derived from JWT_SECRET; production warns about that at startup
+// and refuses to start when JWT_SECRET is missing too, rather than use the built-in development secret.
+// Import passwords saved before CREDENTIAL_KEYS existed are "<iv>:<auth tag>:<ciphertext>" under a key derived
+// from EMAIL_IMPORT_SECRET; they still decrypt, and credentials:rotate moves them to the current key.
+import crypto from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const DEVELOPMENT_KEY_ID = "dev";
+
+interface CredentialKey {
+  id: string;
+  key: Buffer;
+}
+
+let cachedKeys: { source: string; keys: CredentialKey[] } | undefined;
+
+function parseKeys(source: string): CredentialKey[] {
+  return source.split(",").map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(":");
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error(`CREDENTIAL_KEYS entry "${id || entry.slice(0, 8)}" must be "<id>:<base64 32-byte key>"`);
+    }
+    return { id, key };
+  });
+}
+
+// The built-in secrets are only for development; production has to configure its own
+function secretOrDevelopmentDefault(secret: string | undefined, developmentDefault: string): string {
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("Set CREDENTIAL_KEYS (or at least JWT_SECRET) to store mail server passwords in production");
+  }
+  return developmentDefault;
+}
+
+function developmentKey(): CredentialKey {
+  const secret = secretOrDevelopmentDefault(process.env.JWT_SECRET, "posty-development-credential-key");
+  return { id: DEVELOPMENT_KEY_ID, key: crypto.createHash("sha256").update(secret).digest() };
+}
+
+// Read on use, so the keys can be changed between tests or scripts without a restart
+function credentialKeys(): CredentialKey[] {
+  const source = process.env.CREDENTIAL_KEYS || "";
+  if (cachedKeys?.source !== source) {
+    const keys = source ? parseKeys(source) : [developmentKey()];
+    if (keys.length === 0) throw new Error("CREDENTIAL_KEYS has no keys");
+    cachedKeys = { source, keys };
+  }
+  return cachedKeys.keys;
+}
+
+function legacyImportKey(): Buffer {
+  const secret = secretOrDevelopmentDefault(process.env.EMAIL_IMPORT_SECRET || process.env.JWT_SECRET, "posty-development-email-import-secret");
+  return crypto.createHash("sha256").update(secret).digest();
+}
+
+function isLegacyValue(stored: string): boolean {
+  return stored.split(":").length === 3;
+}
+
+// Run at startup: fails on malformed keys, or in production without any server secret, and warns when
+// production falls back to the key derived from JWT_SECRET
+export function checkCredentialKeys(): void {
+  credentialKeys();
+  if (process.env.NODE_ENV === "production" && !process.env.CREDENTIAL_KEYS) {
+    console.warn("CREDENTIAL_KEYS is not set; saved mail server passwords are encrypted with a key derived from JWT_SECRET");
+  }
+}
+
+export function currentCredentialKeyId(): string {
+  return credentialKeys()[0].id;
+}
+
+// "<key id>:<iv>:<auth tag>:<ciphertext>", base64 parts
+export function encryptCredential(plaintext: string): string {
+  const { id, key } = credentialKeys()[0];
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [id, ...[iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64"))].join(":");
+}
+
+function decrypt(key: Buffer, [iv, tag, encrypted]: string[]): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, "base64")), decipher.final()]).toString("utf8");
+}
+
+export function decryptCredential(stored: string): string {
+  if (isLegacyValue(stored)) {
+    return decrypt(legacyImportKey(), stored.split(":"));
+  }
+
+  const [id, ...parts] = stored.split(":");
+  const credentialKey = credentialKeys().find(candidate => candidate.id === id);
+  if (!credentialKey || parts.length !== 3) {
+    throw new Error(`Cannot decrypt a stored credential: key "${id}" is not in CREDENTIAL_KEYS`);
+  }
+  return decrypt(credentialKey.key, parts);
+}
+
+// True when the value was encrypted with an older key or in the legacy format
+export function needsReencryption(stored: string): boolean {
+  return isLegacyValue(stored) || stored.split(":")[0] !== currentCredentialKeyId();
+}
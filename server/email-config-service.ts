@@ -1,6 +1,10 @@
 // Automatic email configuration service
 import { detectEmailProvider, getEmailSetupInstructions } from './email-providers.js';
-import type { User } from '@shared/schema';
+import type { EmailConfigInput, User, UserEmailConfig } from '@shared/schema';
+import type { EmailConfigView } from '@shared/email-config';
+import { storage } from './storage';
+import { decryptCredential, encryptCredential } from './credential-crypto';
+import { createTransporter } from './email-service';
 
 interface AutoEmailConfig {
   canAutoSetup: boolean;
@@ -49,15 +53,57 @@ export function getAutoEmailConfig(user: User): AutoEmailConfig {
   };
 }
 
-// Try to send email with user's regular password (for supported providers)
+export function toEmailConfigView(config: UserEmailConfig): EmailConfigView {
+  const { encryptedPassword, userId, createdAt, updatedAt, ...view } = config;
+  return { ...view, verifiedAt: config.verifiedAt.toISOString() };
+}
+
+// Log in to the SMTP server with the settings and save them, password encrypted, only if that works.
+// The saved password is kept when none is given, as long as the server, port and username stay the same.
+export async function saveEmailConfig(
+  userId: string,
+  input: EmailConfigInput,
+  existing?: UserEmailConfig
+): Promise<{ config: UserEmailConfig } | { error: string; details?: string }> {
+  const sameAccount = existing?.host === input.host && existing?.port === input.port && existing?.username === input.username;
+  const password = input.password || (sameAccount ? decryptCredential(existing!.encryptedPassword) : undefined);
+  if (!password) {
+    return { error: 'Password is required' };
+  }
+
+  try {
+    const transporter = createTransporter({
+      smtp: { host: input.host, port: input.port, secure: input.secure, auth: { user: input.username, pass: password } },
+      from: { name: input.fromName || 'Posty', address: input.fromEmail || input.username },
+    });
+    await transporter.verify();
+  } catch (error) {
+    return { error: 'Could not log in to the mail server', details: error instanceof Error ? error.message : String(error) };
+  }
+
+  const config = await storage.saveUserEmailConfig({
+    userId,
+    host: input.host,
+    port: input.port,
+    secure: input.secure,
+    username: input.username,
+    encryptedPassword: encryptCredential(password),
+    fromName: input.fromName || null,
+    fromEmail: input.fromEmail || null,
+    verifiedAt: new Date(),
+  });
+  return { config };
+}
+
+// Try to send email with user's regular password (for supported providers); saved for the user once it works
 export async function attemptAutoEmailSetup(user: User, password?: string): Promise<{
   success: boolean;
   message: string;
-  config?: any;
+  config?: EmailConfigView;
 }> {
   const autoConfig = getAutoEmailConfig(user);
   
-  if (!autoConfig.canAutoSetup || !autoConfig.config) {
+  if (!autoConfig.canAutoSetup || !autoConfig.config || !user.email) {
     return {
       success: false,
       message: autoConfig.instructions
@@ -71,35 +117,24 @@ export async function attemptAutoEmailSetup(user: User, password?: string): Prom
     };
   }
   
-  try {
-    const nodemailer = await import('nodemailer');
-    
-    const transporter = nodemailer.default.createTransport({
-      ...autoConfig.config,
-      auth: {
-        user: user.email,
-        pass: password
-      }
-    });
-    
-    // Test the connection
-    await transporter.verify();
-    
-    return {
-      success: true,
-      message: `Email configured automatically for ${autoConfig.provider}`,
-      config: {
-        host: autoConfig.config.host,
-        port: autoConfig.config.port,
-        secure: autoConfig.config.secure,
-        user: user.email
-      }
-    };
-    
-  } catch (error) {
+  const result = await saveEmailConfig(user.id, {
+    host: autoConfig.config.host,
+    port: autoConfig.config.port,
+    secure: autoConfig.config.secure,
+    username: user.email,
+    password,
+  });
+
+  if ('error' in result) {
     return {
       success: false,
-      message: `Automatic setup failed: ${error instanceof Error ? error.message : 'Unknown error'}. ${autoConfig.instructions}`
+      message: `Automatic setup failed: ${result.details || result.error}. ${autoConfig.instructions}`
     };
   }
-}
\ No newline at end of file
+
+  return {
+    success: true,
+    message: `Email configured automatically for ${autoConfig.provider}`,
+    config: toEmailConfigView(result.config)
+  };
+}
@@ -1,4 +1,4 @@
-// Email provider configurations and automatic SMTP detection
+// Email provider configurations and automatic SMTP/IMAP detection
 export interface EmailProvider {
   name: string;
   smtp: {
@@ -6,6 +6,12 @@ export interface EmailProvider {
     port: number;
     secure: boolean;
   };
+  // Used to import bills from the user's mailbox (see imap-importer.ts)
+  imap: {
+    host: string;
+    port: number;
+    secure: boolean;
+  };
   authType: 'password' | 'oauth' | 'app-password';
   setupInstructions: string;
 }
@@ -18,6 +24,11 @@ export const EMAIL_PROVIDERS: Record<string, EmailProvider> = {
       port: 587,
       secure: false
     },
+    imap: {
+      host: 'imap.gmail.com',
+      port: 993,
+      secure: true
+    },
     authType: 'app-password',
     setupInstructions: 'Enable 2FA and generate an app password'
   },
@@ -28,6 +39,11 @@ export const EMAIL_PROVIDERS: Record<string, EmailProvider> = {
       port: 587,
       secure: false
     },
+    imap: {
+      host: 'outlook.office365.com',
+      port: 993,
+      secure: true
+    },
     authType: 'password',
     setupInstructions: 'Use your regular email password'
   },
@@ -38,6 +54,11 @@ export const EMAIL_PROVIDERS: Record<string, EmailProvider> = {
       port: 587,
       secure: false
     },
+    imap: {
+      host: 'imap.mail.yahoo.com',
+      port: 993,
+      secure: true
+    },
     authType: 'app-password',
     setupInstructions: 'Generate an app password in Yahoo Account Security'
   },
@@ -48,6 +69,11 @@ export const EMAIL_PROVIDERS: Record<string, EmailProvider> = {
       port: 587,
       secure: false
     },
+    imap: {
+      host: 'imap.mail.me.com',
+      port: 993,
+      secure: true
+    },
     authType: 'app-password',
     setupInstructions: 'Generate an app-specific password in Apple ID settings'
   }
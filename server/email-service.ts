@@ -1,10 +1,12 @@
 import nodemailer from 'nodemailer';
 import fs from 'fs';
 import path from 'path';
-import type { User } from '@shared/schema';
+import type { User, UserEmailConfig } from '@shared/schema';
+import { storage } from './storage';
+import { decryptCredential } from './credential-crypto';
 
 // Email configuration interface
-interface EmailConfig {
+export interface EmailConfig {
   smtp: {
     host: string;
     port: number;
@@ -20,28 +22,8 @@ interface EmailConfig {
   };
 }
 
-// Get email configuration from environment variables or user settings
-function getEmailConfig(user?: any): EmailConfig {
-  // If user has custom email config, use it
-  if (user?.emailConfig) {
-    return {
-      smtp: {
-        host: user.emailConfig.host,
-        port: user.emailConfig.port,
-        secure: user.emailConfig.secure,
-        auth: {
-          user: user.emailConfig.user,
-          pass: user.emailConfig.pass,
-        },
-      },
-      from: {
-        name: user.emailConfig.fromName || 'Posty',
-        address: user.emailConfig.fromEmail || user.emailConfig.user,
-      },
-    };
-  }
-  
-  // Fall back to global environment variables
+// The server's own SMTP account, used for users who have not saved one
+function getServerEmailConfig(): EmailConfig {
   return {
     smtp: {
       host: process.env.SMTP_HOST || 'smtp.gmail.com',
@@ -59,10 +41,32 @@ function getEmailConfig(user?: any): EmailConfig {
   };
 }
 
+function toEmailConfig(saved: UserEmailConfig): EmailConfig {
+  return {
+    smtp: {
+      host: saved.host,
+      port: saved.port,
+      secure: saved.secure,
+      auth: {
+        user: saved.username,
+        pass: decryptCredential(saved.encryptedPassword),
+      },
+    },
+    from: {
+      name: saved.fromName || 'Posty',
+      address: saved.fromEmail || saved.username,
+    },
+  };
+}
+
+// The user's verified SMTP account when they saved one, otherwise the server's from environment variables
+async function getEmailConfig(userId?: string): Promise<EmailConfig> {
+  const saved = userId ? await storage.getUserEmailConfig(userId) : undefined;
+  return saved ? toEmailConfig(saved) : getServerEmailConfig();
+}
+
 // Create nodemailer transporter
-function createTransporter(user?: any) {
-  const config = getEmailConfig(user);
-  
+export function createTransporter(config: EmailConfig) {
   if (!config.smtp.auth.user || !config.smtp.auth.pass) {
     throw new Error('SMTP credentials not configured. Please configure email settings in your profile.');
   }
@@ -98,8 +102,8 @@ export async function sendLetterNotification(user: User, letter: LetterData): Pr
       return;
     }
 
-    const config = getEmailConfig(user);
-    const transporter = createTransporter(user);
+    const config = await getEmailConfig(user.id);
+    const transporter = createTransporter(config);
     
     // Construct file path
     const filePath = path.join(process.cwd(), letter.imageUrl.replace(/^\//, ''));
@@ -233,10 +237,211 @@ This email was sent automatically by Posty.
   }
 }
 
-// Test email configuration
-export async function testEmailConfiguration(): Promise<{ success: boolean; message: string }> {
+// Interface for reminder data
+interface ReminderData {
+  title: string;
+  summary?: string;
+  reminderDate: string;
+  snoozeUrl: string;
+  dismissUrl: string;
+}
+
+// Send email for a due reminder. Errors are thrown so the scheduler can record the failed delivery
+export async function sendReminderEmail(user: User, reminder: ReminderData): Promise<void> {
+  if (!user.email) {
+    throw new Error('User has no email address');
+  }
+
+  const config = await getEmailConfig(user.id);
+  const transporter = createTransporter(config);
+  const appUrl = process.env.APP_URL || 'https://mail-smart-chepuralex1991.replit.app';
+  const userName = user.firstName || user.email.split('@')[0] || 'User';
+
+  const htmlBody = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Reminder: ${reminder.title}</h2>
+      <p>Hi ${userName},</p>
+      <p>This is your reminder for "<strong>${reminder.title}</strong>", due on <strong>${reminder.reminderDate}</strong>.</p>
+      
+      ${reminder.summary ? `
+      <div style="background-color: #fff8e1; padding: 15px; border-radius: 8px; margin: 20px 0;">
+        <p style="color: #424242; margin: 0;">${reminder.summary}</p>
+      </div>
+      ` : ''}
+      
+      <div style="margin: 30px 0; text-align: center;">
+        <a href="${appUrl}" 
+           style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; margin: 4px;">
+          Open Posty
+        </a>
+        <a href="${reminder.snoozeUrl}" 
+           style="background-color: #f59e0b; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; margin: 4px;">
+          Snooze 1 day
+        </a>
+        <a href="${reminder.dismissUrl}" 
+           style="background-color: #6b7280; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; margin: 4px;">
+          Dismiss
+        </a>
+      </div>
+      
+      <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+      <p style="color: #888; font-size: 12px;">
+        You are receiving this because reminder notifications are enabled in your Posty settings.
+      </p>
+    </div>
+  `;
+
+  const textBody = `
+Hi ${userName},
+
+This is your reminder for "${reminder.title}", due on ${reminder.reminderDate}.
+${reminder.summary ? `
+${reminder.summary}
+` : ''}
+Open Posty: ${appUrl}
+Snooze 1 day: ${reminder.snoozeUrl}
+Dismiss: ${reminder.dismissUrl}
+
+You are receiving this because reminder notifications are enabled in your Posty settings.
+  `;
+
+  const info = await transporter.sendMail({
+    from: `${config.from.name} <${config.from.address}>`,
+    to: user.email,
+    subject: `Reminder: ${reminder.title}`,
+    text: textBody,
+    html: htmlBody,
+  });
+
+  console.log(`Reminder email sent to ${user.email}:`, {
+    messageId: info.messageId || 'unknown',
+    title: reminder.title,
+  });
+}
+
+// Interface for weekly digest data
+export interface DigestEntry {
+  title: string;
+  summary?: string;
+  imageUrl?: string;
+  detail?: string; // short secondary line, e.g. due date or amount
+}
+
+export interface DigestData {
+  weekStart: string;
+  weekEnd: string;
+  uploads: DigestEntry[];
+  uploadCount: number;
+  reminders: DigestEntry[];
+  bills: DigestEntry[];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Image uploads are served publicly from /uploads, so they can be linked directly; PDFs get a placeholder tile
+function renderDigestThumbnail(appUrl: string, imageUrl?: string): string {
+  if (imageUrl && /\.(jpe?g|png)$/i.test(imageUrl)) {
+    return `<img src="${appUrl}${imageUrl}" alt="" width="56" height="56" style="width: 56px; height: 56px; object-fit: cover; border-radius: 6px; border: 1px solid #eee;">`;
+  }
+  return `<div style="width: 56px; height: 56px; border-radius: 6px; background-color: #f1f5f9; color: #64748b; font-size: 11px; line-height: 56px; text-align: center;">${imageUrl ? 'PDF' : ''}</div>`;
+}
+
+function renderDigestSection(appUrl: string, heading: string, entries: DigestEntry[], showThumbnails: boolean): string {
+  if (entries.length === 0) return '';
+
+  const rows = entries.map(entry => `
+        <tr>
+          ${showThumbnails ? `<td style="padding: 8px 12px 8px 0; vertical-align: top; width: 56px;">${renderDigestThumbnail(appUrl, entry.imageUrl)}</td>` : ''}
+          <td style="padding: 8px 0; vertical-align: top;">
+            <div style="font-weight: bold; color: #333;">${escapeHtml(entry.title)}</div>
+            ${entry.detail ? `<div style="color: #b45309; font-size: 13px;">${escapeHtml(entry.detail)}</div>` : ''}
+            ${entry.summary ? `<div style="color: #666; font-size: 13px;">${escapeHtml(entry.summary)}</div>` : ''}
+          </td>
+        </tr>`).join('');
+
+  return `
+      <h3 style="color: #555; border-bottom: 1px solid #eee; padding-bottom: 6px;">${heading}</h3>
+      <table style="width: 100%; border-collapse: collapse;">${rows}
+      </table>`;
+}
+
+function renderDigestTextSection(heading: string, entries: DigestEntry[]): string {
+  if (entries.length === 0) return '';
+  const lines = entries.map(entry => `- ${entry.title}${entry.detail ? ` (${entry.detail})` : ''}`);
+  return `\n${heading}:\n${lines.join('\n')}\n`;
+}
+
+// Send the weekly digest. Errors are thrown so the digest job can record the failed delivery
+export async function sendWeeklyDigestEmail(user: User, digest: DigestData): Promise<void> {
+  if (!user.email) {
+    throw new Error('User has no email address');
+  }
+
+  const config = await getEmailConfig(user.id);
+  const transporter = createTransporter(config);
+  const appUrl = process.env.APP_URL || 'https://mail-smart-chepuralex1991.replit.app';
+  const userName = user.firstName || user.email.split('@')[0] || 'User';
+  const moreUploads = digest.uploadCount - digest.uploads.length;
+  const uploadsHeading = `New this week (${digest.uploadCount})`;
+
+  const htmlBody = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Your week in Posty</h2>
+      <p>Hi ${escapeHtml(userName)},</p>
+      <p>Here is your summary for ${digest.weekStart} to ${digest.weekEnd}.</p>
+      ${renderDigestSection(appUrl, uploadsHeading, digest.uploads, true)}
+      ${moreUploads > 0 ? `<p style="color: #666; font-size: 13px;">and ${moreUploads} more.</p>` : ''}
+      ${renderDigestSection(appUrl, 'Upcoming reminders', digest.reminders, false)}
+      ${renderDigestSection(appUrl, 'Unpaid bills', digest.bills, false)}
+      
+      <div style="margin: 30px 0; text-align: center;">
+        <a href="${appUrl}" 
+           style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Open Posty
+        </a>
+      </div>
+      
+      <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+      <p style="color: #888; font-size: 12px;">
+        You are receiving this because the weekly digest is enabled in your Posty settings.
+      </p>
+    </div>
+  `;
+
+  const textBody = `
+Hi ${userName},
+
+Here is your summary for ${digest.weekStart} to ${digest.weekEnd}.
+${renderDigestTextSection(uploadsHeading, digest.uploads)}${moreUploads > 0 ? `and ${moreUploads} more.\n` : ''}${renderDigestTextSection('Upcoming reminders', digest.reminders)}${renderDigestTextSection('Unpaid bills', digest.bills)}
+Open Posty: ${appUrl}
+
+You are receiving this because the weekly digest is enabled in your Posty settings.
+  `;
+
+  const info = await transporter.sendMail({
+    from: `${config.from.name} <${config.from.address}>`,
+    to: user.email,
+    subject: 'Your weekly Posty digest',
+    text: textBody,
+    html: htmlBody,
+  });
+
+  console.log(`Weekly digest sent to ${user.email}:`, {
+    messageId: info.messageId || 'unknown',
+    weekStart: digest.weekStart,
+  });
+}
+
+// Test the email configuration the user's emails are sent with
+export async function testEmailConfiguration(userId?: string): Promise<{ success: boolean; message: string }> {
   try {
-    const transporter = createTransporter();
+    const transporter = createTransporter(await getEmailConfig(userId));
     await transporter.verify();
     
     return {
@@ -252,9 +457,9 @@ export async function testEmailConfiguration(): Promise<{ success: boolean; mess
 }
 
 // Send test email
-export async function sendTestEmail(toEmail: string): Promise<void> {
-  const config = getEmailConfig();
-  const transporter = createTransporter();
+export async function sendTestEmail(toEmail: string, userId?: string): Promise<void> {
+  const config = await getEmailConfig(userId);
+  const transporter = createTransporter(config);
   
   const mailOptions = {
     from: `${config.from.name} <${config.from.address}>`,
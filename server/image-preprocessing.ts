@@ -0,0 +1,184 @@
+// Clean up phone photos of letters before OCR: upright, cropped to the page, straightened, higher contrast and smaller
+import path from "path";
+import sharp from "sharp";
+
+const MAX_DIMENSION = parseInt(process.env.PREPROCESS_MAX_DIMENSION || '2000'); // long side in px; plenty for OCR
+const WORKING_WIDTH = 600; // page edges and skew are detected on a small grayscale copy
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.5;
+const MIN_SKEW_DEGREES = 0.5; // smaller angles are left alone
+const MIN_PAGE_AREA = 0.3; // a detected page smaller than this share of the photo is probably wrong
+
+export interface PreprocessResult {
+  path: string;
+  cropped: boolean;
+  skewDegrees: number;
+}
+
+interface Bounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export function isPreprocessableImage(fileName: string): boolean {
+  return /\.(jpe?g|png)$/i.test(fileName);
+}
+
+// The cleaned copy sits next to the original and keeps its format, so re-running overwrites it
+export function cleanedImagePath(originalPath: string): string {
+  const ext = path.extname(originalPath);
+  return path.join(path.dirname(originalPath), `${path.basename(originalPath, ext)}-clean${ext}`);
+}
+
+// Otsu's method: the gray level that best separates the bright page from the darker background and text
+function otsuThreshold(pixels: Buffer): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < pixels.length; i++) histogram[pixels[i]]++;
+
+  const total = pixels.length;
+  const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = { threshold: 128, variance: -1 };
+
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best.variance) best = { threshold: level, variance };
+  }
+
+  return best.threshold;
+}
+
+// The page is the block of rows and columns that are mostly bright; null when it fills the photo or can't be found
+function findPageBounds(pixels: Buffer, width: number, height: number, threshold: number): Bounds | null {
+  const isPageRow = (y: number) => {
+    let bright = 0;
+    for (let x = 0; x < width; x++) if (pixels[y * width + x] > threshold) bright++;
+    return bright > width / 2;
+  };
+
+  let top = 0;
+  while (top < height && !isPageRow(top)) top++;
+  let bottom = height - 1;
+  while (bottom > top && !isPageRow(bottom)) bottom--;
+  if (bottom <= top) return null;
+
+  const rows = bottom - top + 1;
+  const isPageColumn = (x: number) => {
+    let bright = 0;
+    for (let y = top; y <= bottom; y++) if (pixels[y * width + x] > threshold) bright++;
+    return bright > rows / 2;
+  };
+
+  let left = 0;
+  while (left < width && !isPageColumn(left)) left++;
+  let right = width - 1;
+  while (right > left && !isPageColumn(right)) right--;
+  if (right <= left) return null;
+
+  const bounds = { left, top, width: right - left + 1, height: rows };
+  const area = (bounds.width * bounds.height) / (width * height);
+  if (area < MIN_PAGE_AREA || area > 0.95) return null;
+  return bounds;
+}
+
+// Projection profile: text lines are sharpest (most uneven row counts of dark pixels) at the page's skew angle.
+// Positive angles mean lines slope down to the right.
+function detectSkew(pixels: Buffer, width: number, height: number, threshold: number): number {
+  const dark: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[y * width + x] < threshold) dark.push(x, y);
+    }
+  }
+  // Nearly blank or nearly black pages have no usable lines
+  const darkCount = dark.length / 2;
+  if (darkCount < 100 || darkCount > width * height * 0.5) return 0;
+
+  let best = { angle: 0, score: -1 };
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const slope = Math.tan((angle * Math.PI) / 180);
+    const offset = Math.ceil(Math.abs(slope) * width);
+    const rows = new Array<number>(height + 2 * offset + 1).fill(0);
+    for (let i = 0; i < dark.length; i += 2) {
+      rows[Math.round(dark[i + 1] - dark[i] * slope) + offset]++;
+    }
+    const score = rows.reduce((sum, count) => sum + count * count, 0);
+    if (score > best.score) best = { angle, score };
+  }
+
+  return Math.abs(best.angle) < MIN_SKEW_DEGREES ? 0 : best.angle;
+}
+
+// Grayscale working copy at WORKING_WIDTH, with the factor back to full size
+async function workingCopy(image: Buffer) {
+  const { width: fullWidth = 0 } = await sharp(image).metadata();
+  const { data, info } = await sharp(image)
+    .grayscale()
+    .resize({ width: WORKING_WIDTH, withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { pixels: data, width: info.width, height: info.height, scale: fullWidth / info.width };
+}
+
+function cropPixels(pixels: Buffer, width: number, bounds: Bounds): Buffer {
+  const cropped = Buffer.alloc(bounds.width * bounds.height);
+  for (let y = 0; y < bounds.height; y++) {
+    const start = (bounds.top + y) * width + bounds.left;
+    pixels.copy(cropped, y * bounds.width, start, start + bounds.width);
+  }
+  return cropped;
+}
+
+export async function preprocessImage(inputPath: string): Promise<PreprocessResult> {
+  // Apply the EXIF orientation so every later step sees the photo upright
+  let image = await sharp(inputPath).rotate().toBuffer();
+  let working = await workingCopy(image);
+  const threshold = otsuThreshold(working.pixels);
+
+  // Measure skew on the page alone so the background doesn't count as lines
+  const roughBounds = findPageBounds(working.pixels, working.width, working.height, threshold);
+  const skewDegrees = roughBounds
+    ? detectSkew(cropPixels(working.pixels, working.width, roughBounds), roughBounds.width, roughBounds.height, threshold)
+    : detectSkew(working.pixels, working.width, working.height, threshold);
+
+  if (skewDegrees !== 0) {
+    // sharp rotates clockwise, so undo the slope by turning the other way; the new corners count as background
+    image = await sharp(image).rotate(-skewDegrees, { background: "#000000" }).toBuffer();
+    working = await workingCopy(image);
+  }
+
+  // Crop once the page edges are straight
+  const bounds = findPageBounds(working.pixels, working.width, working.height, threshold);
+  let page = sharp(image);
+  if (bounds) {
+    const { width: fullWidth = 0, height: fullHeight = 0 } = await sharp(image).metadata();
+    const left = Math.floor(bounds.left * working.scale);
+    const top = Math.floor(bounds.top * working.scale);
+    page = sharp(await page.extract({
+      left,
+      top,
+      width: Math.min(Math.ceil(bounds.width * working.scale), fullWidth - left),
+      height: Math.min(Math.ceil(bounds.height * working.scale), fullHeight - top),
+    }).toBuffer());
+  }
+
+  const outputPath = cleanedImagePath(inputPath);
+  await page
+    .normalise()
+    .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: "inside", withoutEnlargement: true })
+    .toFormat(path.extname(inputPath).toLowerCase() === ".png" ? "png" : "jpeg")
+    .toFile(outputPath);
+
+  return { path: outputPath, cropped: !!bounds, skewDegrees };
+}
@@ -0,0 +1,211 @@
+// Imports bill PDFs from the user's own mailbox: polls the chosen IMAP folder, keeps messages that match the
+// sender and subject rules and turns their PDF attachments into mail items. Every message looked at is
+// remembered by UID, so nothing is imported twice.
+import { ImapFlow } from "imapflow";
+import { simpleParser } from "mailparser";
+import type { EmailImportAccount, EmailImportSettings, InsertEmailImportAccount } from "@shared/schema";
+import { matchesImportRules, type EmailImportAccountView, type EmailImportRunResult } from "@shared/email-import";
+import { storage } from "./storage";
+import { importEmailAttachments } from "./inbound-email";
+import { detectEmailProvider } from "./email-providers";
+import { decryptCredential, encryptCredential } from "./credential-crypto";
+
+const POLL_INTERVAL_MS = Number(process.env.EMAIL_IMPORT_INTERVAL_MS) || 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIRST_POLL_LOOKBACK_DAYS = 30;
+const MAX_MESSAGES_PER_POLL = 200; // the rest are picked up on the next poll
+
+export function toEmailImportView(account: EmailImportAccount): EmailImportAccountView {
+  const { encryptedPassword, userId, createdAt, updatedAt, ...view } = account;
+  return { ...view, lastPolledAt: account.lastPolledAt ? account.lastPolledAt.toISOString() : null };
+}
+
+// Fill in the server from the provider the address belongs to and keep the saved password unless a new one is given or the account changes
+export function resolveEmailImportSettings(
+  userId: string,
+  settings: EmailImportSettings,
+  existing: EmailImportAccount | undefined
+): { account: InsertEmailImportAccount } | { error: string } {
+  const imap = detectEmailProvider(settings.email)?.imap;
+  const sameMailbox = existing?.email === settings.email;
+  const host = settings.host || imap?.host || (sameMailbox ? existing?.host : undefined);
+  if (!host) {
+    return { error: "Enter the IMAP server for this email provider" };
+  }
+  const port = settings.port ?? (settings.host ? 993 : imap?.port ?? existing?.port ?? 993);
+  const username = settings.username || settings.email;
+
+  // The saved password is only reused for the same server and login
+  const sameAccount = existing?.host === host && existing?.port === port && existing?.username === username;
+  if (!settings.password && !sameAccount) {
+    return { error: "Password is required" };
+  }
+
+  return {
+    account: {
+      userId,
+      email: settings.email,
+      host,
+      port,
+      secure: settings.secure ?? (settings.host ? true : imap?.secure ?? existing?.secure ?? true),
+      username,
+      encryptedPassword: settings.password ? encryptCredential(settings.password) : existing!.encryptedPassword,
+      folder: settings.folder,
+      senderFilters: settings.senderFilters,
+      subjectFilters: settings.subjectFilters,
+      enabled: settings.enabled,
+    },
+  };
+}
+
+// The part of an IMAP connection the importer needs, with the folder already open
+export interface ImportMailbox {
+  uidValidity: number;
+  searchSince(since: Date): Promise<number[]>;
+  fetchSource(uid: number): Promise<Buffer | undefined>;
+  close(): Promise<void>;
+}
+
+export type MailboxOpener = (account: EmailImportAccount, password: string) => Promise<ImportMailbox>;
+
+export const openImapMailbox: MailboxOpener = async (account, password) => {
+  const client = new ImapFlow({
+    host: account.host,
+    port: account.port,
+    secure: account.secure,
+    auth: { user: account.username, pass: password },
+    logger: false,
+  });
+  await client.connect();
+
+  try {
+    const lock = await client.getMailboxLock(account.folder, { readOnly: true });
+    const uidValidity = client.mailbox ? Number(client.mailbox.uidValidity) : 0;
+    return {
+      uidValidity,
+      async searchSince(since) {
+        return (await client.search({ since }, { uid: true })) || [];
+      },
+      async fetchSource(uid) {
+        const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+        return message ? message.source : undefined;
+      },
+      async close() {
+        lock.release();
+        await client.logout();
+      },
+    };
+  } catch (error) {
+    await client.logout().catch(() => {});
+    throw error;
+  }
+};
+
+// IMAP SINCE compares dates only, so later polls look back a day before the last one; seen UIDs are skipped anyway
+function searchStart(account: EmailImportAccount): Date {
+  return account.lastPolledAt
+    ? new Date(account.lastPolledAt.getTime() - DAY_MS)
+    : new Date(account.createdAt.getTime() - FIRST_POLL_LOOKBACK_DAYS * DAY_MS);
+}
+
+const runningAccounts = new Set<number>();
+
+// Import new matching messages from one account; null when a poll of that account is already running
+export async function pollEmailImportAccount(account: EmailImportAccount, openMailbox: MailboxOpener = openImapMailbox): Promise<EmailImportRunResult | null> {
+  if (runningAccounts.has(account.id)) return null;
+  runningAccounts.add(account.id);
+
+  const result: EmailImportRunResult = { checked: 0, matched: 0, imported: 0, failed: 0 };
+  let messageError: string | null = null;
+  let mailbox: ImportMailbox | undefined;
+  try {
+    mailbox = await openMailbox(account, decryptCredential(account.encryptedPassword));
+    const { uidValidity } = mailbox;
+    const seen = new Set(await storage.getImportedEmailUids(account.id, account.folder, uidValidity));
+    const uids = (await mailbox.searchSince(searchStart(account)))
+      .filter(uid => !seen.has(uid))
+      .sort((a, b) => a - b)
+      .slice(0, MAX_MESSAGES_PER_POLL);
+
+    for (const uid of uids) {
+      const source = await mailbox.fetchSource(uid);
+      // A message that can't be parsed or imported is logged and marked like the rest, so it doesn't block newer ones
+      try {
+        if (source) {
+          const mail = await simpleParser(source);
+          if (matchesImportRules({ from: mail.from?.text || "", subject: mail.subject || "" }, account)) {
+            result.matched++;
+            const attachments = await importEmailAttachments(account.userId, mail, { pdfOnly: true });
+            result.imported += attachments.filter(attachment => attachment.status === "created").length;
+          }
+        }
+      } catch (error) {
+        console.error(`Could not import message ${uid} from ${account.email}:`, error);
+        messageError = `Message ${uid}: ${error instanceof Error ? error.message : String(error)}`;
+        result.failed++;
+      }
+      // Marked one by one, so a failure part way keeps what was already imported
+      await storage.markEmailMessagesImported(account.id, account.folder, uidValidity, [uid]);
+      result.checked++;
+    }
+
+    const hasMore = uids.length === MAX_MESSAGES_PER_POLL;
+    await storage.updateEmailImportStatus(account.id, {
+      lastPolledAt: hasMore ? account.lastPolledAt : new Date(),
+      lastError: messageError?.substring(0, 500) ?? null,
+    });
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await storage.updateEmailImportStatus(account.id, { lastError: message.substring(0, 500) });
+    throw error;
+  } finally {
+    runningAccounts.delete(account.id);
+    await mailbox?.close().catch(error => console.error("Could not close the IMAP connection:", error));
+  }
+}
+
+export async function pollAllEmailImports(openMailbox: MailboxOpener = openImapMailbox): Promise<number> {
+  const accounts = await storage.getEnabledEmailImportAccounts();
+  let imported = 0;
+
+  for (const account of accounts) {
+    try {
+      const result = await pollEmailImportAccount(account, openMailbox);
+      if (result && result.imported > 0) {
+        console.log(`Imported ${result.imported} document(s) from ${account.email} for user:`, account.userId);
+      }
+      imported += result?.imported ?? 0;
+    } catch (error) {
+      console.error(`Email import from ${account.email} failed:`, error);
+    }
+  }
+
+  return imported;
+}
+
+// Start polling the users' mailboxes on an interval; returns a function that stops the importer
+export function startEmailImporter(): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const poll = async () => {
+    if (stopped) return;
+    try {
+      await pollAllEmailImports();
+    } catch (error) {
+      console.error('Email importer error:', error);
+    } finally {
+      if (!stopped) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    }
+  };
+
+  poll();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,182 @@
+// Letters forwarded by email: every user has a private inbound address, and PDF or image attachments
+// sent to it go through the same pipeline as uploads. Messages arrive as raw RFC 822, either posted to
+// POST /api/inbound-mail by a mail provider's webhook or through the optional local SMTP listener.
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { simpleParser, type AddressObject, type ParsedMail } from "mailparser";
+import { SMTPServer } from "smtp-server";
+import type { User } from "@shared/schema";
+import { MAX_UPLOAD_BYTES, isAllowedUploadFile } from "@shared/uploads";
+import { storage } from "./storage";
+import { uploadsDir, uniqueUploadName, createPendingMailItem } from "./uploads";
+
+export const INBOUND_EMAIL_DOMAIN = (process.env.INBOUND_EMAIL_DOMAIN || "inbox.posty.local").toLowerCase();
+export const MAX_INBOUND_MESSAGE_BYTES = 25 * 1024 * 1024;
+const MAX_TAG_LENGTH = 50;
+
+export interface InboundAttachmentResult {
+  fileName: string;
+  status: "created" | "skipped";
+  mailItemId?: number;
+  reason?: string;
+}
+
+export type InboundEmailResult =
+  | { status: "delivered"; userId: string; sender: string | null; attachments: InboundAttachmentResult[] }
+  | { status: "unknown-recipient" }
+  | { status: "no-attachments"; attachments: InboundAttachmentResult[] };
+
+export function inboundAddressFor(token: string): string {
+  return `${token}@${INBOUND_EMAIL_DOMAIN}`;
+}
+
+// "<token>@domain" and "<token>+anything@domain" both reach the user; other domains never match
+export function inboundTokenFromAddress(address: string): string | undefined {
+  const at = address.lastIndexOf("@");
+  if (at <= 0 || address.slice(at + 1).toLowerCase() !== INBOUND_EMAIL_DOMAIN) return undefined;
+  const token = address.slice(0, at).split("+")[0].toLowerCase();
+  return token || undefined;
+}
+
+function newInboundToken(): string {
+  return crypto.randomBytes(10).toString("hex");
+}
+
+// Created the first time the user asks for their address
+export async function getInboundAddress(userId: string): Promise<string | undefined> {
+  const user = await storage.getUser(userId);
+  if (!user) return undefined;
+  if (user.inboundEmailToken) return inboundAddressFor(user.inboundEmailToken);
+  return rotateInboundAddress(userId);
+}
+
+// A new address for the user; mail sent to the old one is no longer accepted
+export async function rotateInboundAddress(userId: string): Promise<string | undefined> {
+  const updated = await storage.updateUser(userId, { inboundEmailToken: newInboundToken() });
+  return updated?.inboundEmailToken ? inboundAddressFor(updated.inboundEmailToken) : undefined;
+}
+
+export async function findInboundRecipient(addresses: string[]): Promise<User | undefined> {
+  for (const address of addresses) {
+    const token = inboundTokenFromAddress(address);
+    const user = token ? await storage.getUserByInboundEmailToken(token) : undefined;
+    if (user) return user;
+  }
+  return undefined;
+}
+
+function addressList(field: AddressObject | AddressObject[] | undefined): string[] {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  return objects.flatMap(object => object.value).map(entry => entry.address).filter((address): address is string => !!address);
+}
+
+// The sender's display name, else their address, shortened to fit a tag
+function senderTag(mail: ParsedMail): string | null {
+  const from = mail.from?.value[0];
+  const sender = (from?.name || from?.address || "").trim();
+  return sender ? sender.slice(0, MAX_TAG_LENGTH).trim() : null;
+}
+
+// Store the usable attachments of one message as pending mail items tagged with the sender.
+// The IMAP importer shares this and only takes PDFs.
+export async function importEmailAttachments(userId: string, mail: ParsedMail, options: { pdfOnly?: boolean } = {}): Promise<InboundAttachmentResult[]> {
+  const sender = senderTag(mail);
+  const attachments: InboundAttachmentResult[] = [];
+
+  for (let index = 0; index < mail.attachments.length; index++) {
+    const attachment = mail.attachments[index];
+    const fileName = attachment.filename || `attachment-${index + 1}`;
+    if (options.pdfOnly && path.extname(fileName).toLowerCase() !== ".pdf") {
+      attachments.push({ fileName, status: "skipped", reason: "Only PDF files are imported" });
+      continue;
+    }
+    if (!isAllowedUploadFile(fileName, attachment.contentType)) {
+      attachments.push({ fileName, status: "skipped", reason: "Only image and PDF files are allowed" });
+      continue;
+    }
+    if (attachment.size > MAX_UPLOAD_BYTES) {
+      attachments.push({ fileName, status: "skipped", reason: "File too large" });
+      continue;
+    }
+
+    const filePath = path.join(uploadsDir, uniqueUploadName("email", path.extname(fileName).toLowerCase()));
+    await fs.promises.writeFile(filePath, attachment.content);
+    const item = await createPendingMailItem(userId, filePath, fileName);
+    if (sender) {
+      // User tags are kept when the analysis adds its own
+      await storage.setMailItemTags(item.id, userId, [sender], "user");
+    }
+    attachments.push({ fileName, status: "created", mailItemId: item.id });
+  }
+
+  return attachments;
+}
+
+// Parse one forwarded message and create a pending mail item per usable attachment.
+// Envelope recipients (from SMTP or the webhook) take precedence over the To and Cc headers.
+export async function ingestInboundEmail(raw: Buffer, envelopeRecipients: string[] = []): Promise<InboundEmailResult> {
+  const mail = await simpleParser(raw);
+  const recipients = [...envelopeRecipients, ...addressList(mail.to), ...addressList(mail.cc)];
+  const user = await findInboundRecipient(recipients);
+  if (!user) return { status: "unknown-recipient" };
+
+  const sender = senderTag(mail);
+  const attachments = await importEmailAttachments(user.id, mail);
+  if (!attachments.some(attachment => attachment.status === "created")) {
+    return { status: "no-attachments", attachments };
+  }
+
+  console.log(`Created mail items from email by ${sender || "an unknown sender"} for user:`, user.id);
+  return { status: "delivered", userId: user.id, sender, attachments };
+}
+
+function smtpError(message: string, responseCode: number): Error {
+  return Object.assign(new Error(message), { responseCode });
+}
+
+// A plain local SMTP listener (no TLS or auth) for a relay such as Postfix to hand messages to.
+// Only started when INBOUND_SMTP_PORT is set; returns a function that stops it.
+export function startInboundSmtpServer(): () => void {
+  const port = Number(process.env.INBOUND_SMTP_PORT);
+  if (!port) return () => {};
+
+  const server = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ["AUTH", "STARTTLS"],
+    size: MAX_INBOUND_MESSAGE_BYTES,
+    logger: false,
+    async onRcptTo(address, _session, callback) {
+      try {
+        const user = await findInboundRecipient([address.address]);
+        callback(user ? undefined : smtpError("No such mailbox", 550));
+      } catch (error) {
+        console.error("Inbound SMTP recipient lookup failed:", error);
+        callback(smtpError("Temporary failure, try again later", 451));
+      }
+    },
+    onData(stream, session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+      stream.on("end", async () => {
+        if (stream.sizeExceeded) {
+          callback(smtpError("Message too large", 552));
+          return;
+        }
+        try {
+          const recipients = session.envelope.rcptTo.map(recipient => recipient.address);
+          const result = await ingestInboundEmail(Buffer.concat(chunks), recipients);
+          callback(result.status === "no-attachments" ? smtpError("No PDF or image attachments found", 554) : undefined);
+        } catch (error) {
+          console.error("Inbound email ingestion failed:", error);
+          callback(smtpError("Temporary failure, try again later", 451));
+        }
+      });
+    },
+  });
+
+  server.on("error", error => console.error("Inbound SMTP server error:", error));
+  server.listen(port, () => console.log(`Accepting inbound email on port ${port} for @${INBOUND_EMAIL_DOMAIN}`));
+
+  return () => server.close();
+}
@@ -1,6 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startAnalysisWorker } from "./analysis-queue";
+import { startReminderScheduler } from "./reminder-scheduler";
+import { startDigestScheduler } from "./weekly-digest";
+import { startRetentionSweeper } from "./retention-sweeper";
+import { startTrashPurger } from "./trash";
+import { startInboundSmtpServer } from "./inbound-email";
+import { startEmailImporter } from "./imap-importer";
+import { checkCredentialKeys } from "./credential-crypto";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +45,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Saved mail server passwords need a server key; don't start without one in production
+  checkCredentialKeys();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,4 +78,15 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Process uploaded documents, due reminders, weekly digests, retention and trash in the background
+  startAnalysisWorker();
+  startReminderScheduler();
+  startDigestScheduler();
+  startRetentionSweeper();
+  startTrashPurger();
+
+  // Letters forwarded by email, when INBOUND_SMTP_PORT is set, and bills imported from users' own mailboxes
+  startInboundSmtpServer();
+  startEmailImporter();
 })();
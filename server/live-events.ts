@@ -0,0 +1,67 @@
+// Per-user Server-Sent Events hub for live mail item updates
+import type { Response } from "express";
+import type { MailItemWithTags, Notification, NotificationWithItem } from "@shared/schema";
+
+export type AnalysisStage = "queued" | "preprocessing" | "ocr" | "classifying" | "completed" | "failed" | "retrying";
+
+export interface AnalysisProgress {
+  mailItemId: number;
+  stage: AnalysisStage;
+  page?: number;
+  totalPages?: number;
+  message?: string;
+}
+
+type LiveEvent =
+  | { type: "mail-item.created"; data: MailItemWithTags }
+  | { type: "mail-item.updated"; data: MailItemWithTags }
+  | { type: "mail-item.deleted"; data: { id: number } }
+  | { type: "analysis.progress"; data: AnalysisProgress }
+  | { type: "notification.created"; data: NotificationWithItem }
+  | { type: "notification.updated"; data: Notification }
+  | { type: "saved-searches.changed"; data: { id?: number } };
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+const connections = new Map<string, Set<Response>>();
+
+// Register an SSE response for a user; the connection is dropped when the client disconnects
+export function subscribe(userId: string, res: Response): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no", // disable proxy buffering
+  });
+  res.write("retry: 5000\n\n");
+
+  let userConnections = connections.get(userId);
+  if (!userConnections) {
+    userConnections = new Set();
+    connections.set(userId, userConnections);
+  }
+  userConnections.add(res);
+
+  // Comment lines keep idle connections open through proxies
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    userConnections!.delete(res);
+    if (userConnections!.size === 0) {
+      connections.delete(userId);
+    }
+  });
+}
+
+export function publish(userId: string, event: LiveEvent): void {
+  const userConnections = connections.get(userId);
+  if (!userConnections) return;
+
+  const payload = `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+  userConnections.forEach(res => res.write(payload));
+}
+
+export function publishProgress(userId: string, progress: AnalysisProgress): void {
+  publish(userId, { type: "analysis.progress", data: progress });
+}
@@ -0,0 +1,1241 @@
+// In-memory IStorage for local development and tests (STORAGE=memory). Mirrors DatabaseStorage's semantics;
+// everything is lost when the process exits.
+import {
+  type MailItem,
+  type MailItemTag,
+  type MailItemWithTags,
+  type TagSource,
+  type InsertMailItem,
+  type User,
+  type InsertUser,
+  type UpsertUser,
+  type UserSettings,
+  type InsertUserSettings,
+  type AnalysisJob,
+  type InsertAnalysisJob,
+  type UserCategory,
+  type InsertUserCategory,
+  type Notification,
+  type InsertNotification,
+  type NotificationWithItem,
+  type DigestDelivery,
+  type RetentionPolicy,
+  type RetentionPolicyInput,
+  type SavedSearch,
+  type InsertSavedSearch,
+  type EmailImportAccount,
+  type InsertEmailImportAccount,
+  type UserEmailConfig,
+  type InsertUserEmailConfig,
+} from "@shared/schema";
+import { HIGHLIGHT_START, HIGHLIGHT_END, toTsQuery, toWords, type SearchResults } from "@shared/search";
+import type { ComparisonOp, QueryTerm, SearchQuery, TextTerm } from "@shared/query-language";
+import type { MailItemFilters, MailItemPage, MailItemSort, MailItemSummary, SortOrder } from "@shared/mail-item-list";
+import { matchesMailFilters } from "@shared/mail-filters";
+import { isBill } from "@shared/bills";
+import type { BulkItemResult, BulkWriteAction } from "@shared/bulk-actions";
+import {
+  encodeMailItemCursor,
+  type BulkUpdateOutcome,
+  type DigestRecipient,
+  type DueReminderItem,
+  type IStorage,
+  type MailItemPageOptions,
+} from "./storage";
+
+type Sequence = "mailItems" | "tags" | "categories" | "jobs" | "notifications" | "digests" | "policies" | "searches" | "imports";
+
+interface SortPosition {
+  value: string | null;
+  id: number;
+}
+
+const WORD_PATTERN = /[a-z0-9À-ɏ]+/gi;
+const SNIPPET_WORDS = 30; // ts_headline's MaxWords
+// ts_rank's default weights for title (A), summary (B) and OCR text (C)
+const FIELD_WEIGHTS: [keyof Pick<MailItem, "title" | "summary" | "extractedText">, number][] = [
+  ["title", 1],
+  ["summary", 0.4],
+  ["extractedText", 0.2],
+];
+
+// Drizzle leaves undefined values out of an update, so do the same
+function defined<T extends object>(updates: T): Partial<T> {
+  const result: Partial<T> = {};
+  (Object.keys(updates) as (keyof T)[]).forEach(key => {
+    if (updates[key] !== undefined) result[key] = updates[key];
+  });
+  return result;
+}
+
+// Column defaults apply only when a value is left out; an explicit null is stored as null
+function orDefault<T>(value: T | undefined, fallback: T): T {
+  return value === undefined ? fallback : value;
+}
+
+function uniqueViolation(constraint: string): Error {
+  return new Error(`duplicate key value violates unique constraint "${constraint}"`);
+}
+
+function byText(a: string, b: string): number {
+  return a.localeCompare(b);
+}
+
+function byUploadDesc(a: MailItem, b: MailItem): number {
+  return b.uploadDate.getTime() - a.uploadDate.getTime() || b.id - a.id;
+}
+
+function itemDueDate(item: MailItem): string | null {
+  return item.extractedFields?.dueDate || item.reminderDate || null;
+}
+
+function hasTag(item: MailItemWithTags, tag: string): boolean {
+  return item.tags.some(existing => existing.toLowerCase() === tag.toLowerCase());
+}
+
+function contains(value: string | null | undefined, search: string): boolean | null {
+  return value == null ? null : value.toLowerCase().includes(search.toLowerCase());
+}
+
+function compare<T extends string | number>(left: T, op: ComparisonOp, right: T): boolean {
+  switch (op) {
+    case "=": return left === right;
+    case ">": return left > right;
+    case ">=": return left >= right;
+    case "<": return left < right;
+    default: return left <= right;
+  }
+}
+
+// One structured search term, as searchTermCondition in storage.ts; null when the item lacks the field,
+// which a negated term treats as a match like SQL's coalesce(not ..., true)
+function searchTermMatch(item: MailItemWithTags, term: Exclude<QueryTerm, TextTerm>, today: string): boolean | null {
+  const fields = item.extractedFields || {};
+
+  if (term.type === "amount") {
+    return fields.amountDue?.value == null ? null : compare(fields.amountDue.value, term.op, term.value);
+  }
+
+  if (term.type === "date") {
+    const date = term.field === "due" ? itemDueDate(item) : item.uploadDate.toISOString().split("T")[0];
+    return date === null ? null : compare(date, term.op, term.value);
+  }
+
+  switch (term.field) {
+    case "category":
+      return item.category === term.value || hasTag(item, term.value);
+    case "tag":
+      return hasTag(item, term.value);
+    case "from":
+      return contains(fields.sender, term.value);
+    case "ref":
+      return contains(fields.referenceNumber, term.value);
+    case "has":
+      switch (term.value) {
+        case "reminder":
+          return !!item.reminderDate;
+        case "amount":
+          return "amountDue" in fields;
+        case "due":
+          return itemDueDate(item) !== null;
+        case "appointment":
+          return "appointment" in fields;
+        default:
+          return item.tags.length > 0;
+      }
+    case "is":
+      switch (term.value) {
+        case "bill":
+          return isBill(item);
+        case "paid":
+          return isBill(item) && item.paymentStatus === "paid";
+        case "unpaid":
+          return isBill(item) && item.paymentStatus !== "paid";
+        case "overdue": {
+          if (!isBill(item) || item.paymentStatus === "paid") return false;
+          const dueDate = itemDueDate(item);
+          return dueDate === null ? null : dueDate < today;
+        }
+        default:
+          return item.keepForever;
+      }
+  }
+}
+
+function textTerms(query: SearchQuery): TextTerm[] {
+  return query.terms.filter((term): term is TextTerm => term.type === "text").slice(0, 10);
+}
+
+function documentWords(text: string | null): string[] {
+  return text?.toLowerCase().match(WORD_PATTERN) || [];
+}
+
+// Full-text matching without stemming: every word matches as a prefix, phrases must appear in order
+function matchesText(document: string[], term: TextTerm): boolean {
+  const words = toWords(term.value);
+  if (words.length === 0) return true;
+
+  const found = term.phrase
+    ? document.some((_, start) => words.every((word, offset) => !!document[start + offset]?.startsWith(word)))
+    : words.every(word => document.some(candidate => candidate.startsWith(word)));
+  return term.negated ? !found : found;
+}
+
+function isMatchingWord(word: string, prefixes: string[]): boolean {
+  return documentWords(word).some(part => prefixes.some(prefix => part.startsWith(prefix)));
+}
+
+function highlight(text: string, prefixes: string[]): string {
+  return text.replace(WORD_PATTERN, word =>
+    isMatchingWord(word, prefixes) ? `${HIGHLIGHT_START}${word}${HIGHLIGHT_END}` : word
+  );
+}
+
+// A short fragment around the first match, or the start of the text when only the title matched
+function snippet(text: string, prefixes: string[]): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const first = words.findIndex(word => isMatchingWord(word, prefixes));
+  const start = Math.max(0, first - Math.floor(SNIPPET_WORDS / 3));
+  return highlight(words.slice(start, start + SNIPPET_WORDS).join(" "), prefixes);
+}
+
+function rankItem(item: MailItem, prefixes: string[]): number {
+  return FIELD_WEIGHTS.reduce((total, [field, weight]) => {
+    const hits = documentWords(item[field]).filter(word => prefixes.some(prefix => word.startsWith(prefix))).length;
+    return total + hits * weight;
+  }, 0);
+}
+
+// Sort values as text, the form they take in cursors
+const mailItemSortKeys: Record<MailItemSort, { value: (item: MailItem) => string | null; type: "timestamp" | "float8" | "text" }> = {
+  uploaded: { value: item => item.uploadDate.toISOString(), type: "timestamp" },
+  reminder: { value: item => item.reminderDate || null, type: "text" },
+  title: { value: item => item.title.toLowerCase(), type: "text" },
+  amount: {
+    value: item => item.extractedFields?.amountDue?.value == null ? null : String(item.extractedFields.amountDue.value),
+    type: "float8",
+  },
+};
+
+// Listing order: nulls last in either direction, ties broken by id
+function comparePositions(a: SortPosition, b: SortPosition, type: "timestamp" | "float8" | "text", order: SortOrder): number {
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+    const difference = type === "timestamp" ? Date.parse(a.value) - Date.parse(b.value)
+      : type === "float8" ? Number(a.value) - Number(b.value)
+      : a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+    if (difference !== 0) return order === "asc" ? difference : -difference;
+  }
+  return order === "asc" ? a.id - b.id : b.id - a.id;
+}
+
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private settings = new Map<string, UserSettings>();
+  private mailItems = new Map<number, MailItem>();
+  private tags = new Map<number, MailItemTag>();
+  private categories = new Map<number, UserCategory>();
+  private jobs = new Map<number, AnalysisJob>();
+  private notifications = new Map<number, Notification>();
+  private digests = new Map<number, DigestDelivery>();
+  private policies = new Map<number, RetentionPolicy>();
+  private searches = new Map<number, SavedSearch>();
+  private imports = new Map<number, EmailImportAccount>();
+  // Imported UIDs per import account, keyed by "<uidValidity> <folder>"
+  private importedUids = new Map<number, Map<string, Set<number>>>();
+  private emailConfigs = new Map<string, UserEmailConfig>();
+  private sequences: Record<Sequence, number> = {
+    mailItems: 0, tags: 0, categories: 0, jobs: 0, notifications: 0, digests: 0, policies: 0, searches: 0, imports: 0,
+  };
+
+  private nextId(sequence: Sequence): number {
+    return ++this.sequences[sequence];
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user ? { ...user } : undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(existing => existing.email === email);
+    return user ? { ...user } : undefined;
+  }
+
+  async getUserByInboundEmailToken(token: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(existing => existing.inboundEmailToken === token);
+    return user ? { ...user } : undefined;
+  }
+
+  private assertEmailAvailable(email: string | null | undefined, userId: string) {
+    if (email && Array.from(this.users.values()).some(user => user.email === email && user.id !== userId)) {
+      throw uniqueViolation("users_email_unique");
+    }
+  }
+
+  private assertInboundTokenAvailable(token: string | null | undefined, userId: string) {
+    if (token && Array.from(this.users.values()).some(user => user.inboundEmailToken === token && user.id !== userId)) {
+      throw uniqueViolation("users_inbound_email_token_unique");
+    }
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    if (this.users.has(userData.id)) throw uniqueViolation("users_pkey");
+    this.assertEmailAvailable(userData.email, userData.id);
+    this.assertInboundTokenAvailable(userData.inboundEmailToken, userData.id);
+
+    const now = new Date();
+    const user: User = {
+      id: userData.id,
+      email: orDefault(userData.email, null),
+      firstName: orDefault(userData.firstName, null),
+      lastName: orDefault(userData.lastName, null),
+      profileImageUrl: orDefault(userData.profileImageUrl, null),
+      provider: userData.provider,
+      providerId: orDefault(userData.providerId, null),
+      passwordHash: orDefault(userData.passwordHash, null),
+      emailVerified: orDefault(userData.emailVerified, false),
+      inboundEmailToken: orDefault(userData.inboundEmailToken, null),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    if (!this.users.has(userData.id)) return this.createUser(userData);
+    return (await this.updateUser(userData.id, userData))!;
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+    this.assertEmailAvailable(updates.email, id);
+    this.assertInboundTokenAvailable(updates.inboundEmailToken, id);
+
+    const updated: User = { ...existing, ...defined(updates), updatedAt: new Date() };
+    this.users.set(id, updated);
+    return { ...updated };
+  }
+
+  // Cascades like the database's foreign keys
+  async deleteUser(id: string): Promise<boolean> {
+    if (!this.users.delete(id)) return false;
+
+    this.settings.delete(id);
+    this.emailConfigs.delete(id);
+    await this.deleteEmailImportAccount(id);
+    Array.from(this.mailItems.values())
+      .filter(item => item.userId === id)
+      .forEach(item => this.removeMailItem(item.id));
+    const userTables: Map<number, { id: number; userId: string }>[] = [
+      this.categories, this.jobs, this.notifications, this.digests, this.policies, this.searches,
+    ];
+    userTables.forEach(table => {
+      Array.from(table.values()).filter(row => row.userId === id).forEach(row => table.delete(row.id));
+    });
+    return true;
+  }
+
+  // User settings methods
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    const settings = this.settings.get(userId);
+    return settings ? { ...settings } : undefined;
+  }
+
+  async createUserSettings(settingsData: InsertUserSettings): Promise<UserSettings> {
+    if (this.settings.has(settingsData.userId)) throw uniqueViolation("user_settings_pkey");
+
+    const now = new Date();
+    const settings: UserSettings = {
+      userId: settingsData.userId,
+      theme: orDefault(settingsData.theme, "system"),
+      language: orDefault(settingsData.language, "en"),
+      timezone: orDefault(settingsData.timezone, "UTC"),
+      emailNotifications: orDefault(settingsData.emailNotifications, true),
+      reminderNotifications: orDefault(settingsData.reminderNotifications, true),
+      weeklyDigest: orDefault(settingsData.weeklyDigest, false),
+      autoDeleteOldItems: orDefault(settingsData.autoDeleteOldItems, false),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.settings.set(settings.userId, settings);
+    return { ...settings };
+  }
+
+  async updateUserSettings(userId: string, updates: Partial<InsertUserSettings>): Promise<UserSettings | undefined> {
+    const existing = this.settings.get(userId);
+    if (!existing) return undefined;
+
+    const updated: UserSettings = { ...existing, ...defined(updates), updatedAt: new Date() };
+    this.settings.set(userId, updated);
+    return { ...updated };
+  }
+
+  private tagRows(mailItemId: number): MailItemTag[] {
+    return Array.from(this.tags.values()).filter(row => row.mailItemId === mailItemId);
+  }
+
+  private withTags(items: MailItem[]): MailItemWithTags[] {
+    return items.map(item => ({ ...item, tags: this.tagRows(item.id).map(row => row.tag) }));
+  }
+
+  // Unique per item and exact tag, like ON CONFLICT DO NOTHING
+  private insertTag(mailItemId: number, tag: string, source: TagSource) {
+    if (this.tagRows(mailItemId).some(row => row.tag === tag)) return;
+    const id = this.nextId("tags");
+    this.tags.set(id, { id, mailItemId, tag, source, createdAt: new Date() });
+  }
+
+  private liveMailItems(userId: string): MailItem[] {
+    return Array.from(this.mailItems.values()).filter(item => item.userId === userId && item.deletedAt === null);
+  }
+
+  private trashedMailItems(userId: string): MailItem[] {
+    return Array.from(this.mailItems.values()).filter(item => item.userId === userId && item.deletedAt !== null);
+  }
+
+  private saveMailItem(item: MailItem): MailItemWithTags {
+    this.mailItems.set(item.id, item);
+    const [withTags] = this.withTags([item]);
+    return withTags;
+  }
+
+  // Removes the item with its tags, notifications and analysis jobs
+  private removeMailItem(id: number): MailItem | undefined {
+    const item = this.mailItems.get(id);
+    if (!item) return undefined;
+
+    this.mailItems.delete(id);
+    const itemTables: Map<number, { id: number; mailItemId: number }>[] = [this.tags, this.notifications, this.jobs];
+    itemTables.forEach(table => {
+      Array.from(table.values()).filter(row => row.mailItemId === id).forEach(row => table.delete(row.id));
+    });
+    return { ...item };
+  }
+
+  // Mail item methods (now user-scoped)
+  async getAllMailItems(userId: string): Promise<MailItemWithTags[]> {
+    return this.withTags(this.liveMailItems(userId).sort(byUploadDesc));
+  }
+
+  async getMailItemsPage(userId: string, options: MailItemPageOptions): Promise<MailItemPage> {
+    const { filters, sort, order, limit, cursor, archived, today } = options;
+    const { value, type } = mailItemSortKeys[sort];
+
+    const matching = this.withTags(this.liveMailItems(userId).filter(item => (item.archivedAt !== null) === archived))
+      .filter(item => matchesMailFilters(item, filters, today))
+      .map(item => ({ item, position: { value: value(item), id: item.id } }))
+      .sort((a, b) => comparePositions(a.position, b.position, type, order));
+    const remaining = cursor
+      ? matching.filter(row => comparePositions(row.position, cursor, type, order) > 0)
+      : matching;
+
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map(row => row.item),
+      total: matching.length,
+      nextCursor: remaining.length > limit
+        ? encodeMailItemCursor({ sort, order, value: last.position.value, id: last.item.id })
+        : null,
+    };
+  }
+
+  async getMailItemSummary(userId: string): Promise<MailItemSummary> {
+    const items = this.withTags(this.liveMailItems(userId));
+    const tags = new Set<string>();
+    const senders = new Set<string>();
+    const customCategoryCounts: Record<string, number> = {};
+
+    items.forEach(item => {
+      item.tags.forEach(tag => tags.add(tag));
+      if (item.extractedFields?.sender) senders.add(item.extractedFields.sender);
+      item.customCategories.forEach(name => {
+        customCategoryCounts[name] = (customCategoryCounts[name] || 0) + 1;
+      });
+    });
+
+    return {
+      total: items.length,
+      tags: Array.from(tags).sort(byText),
+      senders: Array.from(senders).sort(byText),
+      customCategoryCounts,
+    };
+  }
+
+  // Items in the trash are treated as missing everywhere except the trash methods below
+  async getMailItem(id: number, userId: string): Promise<MailItemWithTags | undefined> {
+    const item = this.mailItems.get(id);
+    if (!item || item.userId !== userId || item.deletedAt !== null) return undefined;
+    const [withTags] = this.withTags([item]);
+    return withTags;
+  }
+
+  async createMailItem(insertMailItem: InsertMailItem): Promise<MailItemWithTags> {
+    const item: MailItem = {
+      id: this.nextId("mailItems"),
+      userId: insertMailItem.userId,
+      title: insertMailItem.title,
+      summary: insertMailItem.summary,
+      category: insertMailItem.category,
+      customCategories: orDefault(insertMailItem.customCategories, []),
+      reminderDate: orDefault(insertMailItem.reminderDate, null),
+      imageUrl: insertMailItem.imageUrl,
+      originalImageUrl: orDefault(insertMailItem.originalImageUrl, null),
+      thumbnailUrl: orDefault(insertMailItem.thumbnailUrl, null),
+      previewUrl: orDefault(insertMailItem.previewUrl, null),
+      fileName: insertMailItem.fileName,
+      extractedText: orDefault(insertMailItem.extractedText, null),
+      extractedFields: orDefault(insertMailItem.extractedFields, {}),
+      pageCount: orDefault(insertMailItem.pageCount, 1),
+      status: orDefault(insertMailItem.status, "ready"),
+      paymentStatus: orDefault(insertMailItem.paymentStatus, "unpaid"),
+      paidDate: orDefault(insertMailItem.paidDate, null),
+      amountPaid: orDefault(insertMailItem.amountPaid, null),
+      keepForever: orDefault(insertMailItem.keepForever, false),
+      uploadDate: new Date(),
+      deletedAt: null,
+      archivedAt: null,
+    };
+    this.mailItems.set(item.id, item);
+    return { ...item, tags: [] };
+  }
+
+  async updateMailItem(id: number, userId: string, updates: Partial<InsertMailItem>): Promise<MailItemWithTags | undefined> {
+    const existing = this.mailItems.get(id);
+    if (!existing || existing.userId !== userId || existing.deletedAt !== null) return undefined;
+    return this.saveMailItem({ ...existing, ...defined(updates) });
+  }
+
+  // User tags replace the whole set; analysis only replaces its own tags so user edits survive re-analysis
+  async setMailItemTags(mailItemId: number, userId: string, tags: string[], source: TagSource): Promise<string[] | undefined> {
+    const item = this.mailItems.get(mailItemId);
+    if (!item || item.userId !== userId) return undefined;
+
+    const seen = new Set<string>();
+    const uniqueTags = tags
+      .map(tag => tag.trim())
+      .filter(tag => {
+        const key = tag.toLowerCase();
+        if (!tag || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    const existing = this.tagRows(mailItemId);
+    const replaceable = source === "user" ? existing : existing.filter(row => row.source === source);
+    replaceable
+      .filter(row => !seen.has(row.tag.toLowerCase()))
+      .forEach(row => this.tags.delete(row.id));
+
+    const existingKeys = new Set(existing.map(row => row.tag.toLowerCase()));
+    uniqueTags
+      .filter(tag => !existingKeys.has(tag.toLowerCase()))
+      .forEach(tag => this.insertTag(mailItemId, tag, source));
+
+    return this.tagRows(mailItemId).map(row => row.tag);
+  }
+
+  async trashMailItem(id: number, userId: string): Promise<boolean> {
+    const item = this.mailItems.get(id);
+    if (!item || item.userId !== userId || item.deletedAt !== null) return false;
+    this.mailItems.set(id, { ...item, deletedAt: new Date() });
+    return true;
+  }
+
+  async getMailItemsByIds(ids: number[], userId: string): Promise<MailItemWithTags[]> {
+    return this.withTags(this.liveMailItems(userId).filter(item => ids.includes(item.id)).sort(byUploadDesc));
+  }
+
+  // All or nothing: if any item fails nothing is written, and every item's outcome is reported
+  async bulkUpdateMailItems(userId: string, ids: number[], action: BulkWriteAction, today: string): Promise<BulkUpdateOutcome> {
+    const uniqueIds = Array.from(new Set(ids));
+    const itemsById = new Map(this.withTags(this.liveMailItems(userId)).map(item => [item.id, item]));
+
+    const results: BulkItemResult[] = uniqueIds.map(id => {
+      const item = itemsById.get(id);
+      if (!item) return { id, status: "failed", message: "Mail item not found" };
+
+      if (action.type === "mark-paid") {
+        if (!isBill(item)) return { id, status: "skipped", message: "Not a bill" };
+        if (item.paymentStatus === "paid") return { id, status: "skipped", message: "Already paid" };
+      }
+      if (action.type === "archive" && (item.archivedAt !== null) === action.archived) {
+        return { id, status: "skipped", message: action.archived ? "Already archived" : "Not archived" };
+      }
+      return { id, status: "ok" };
+    });
+
+    if (results.some(result => result.status === "failed")) {
+      return { applied: false, results, items: [] };
+    }
+
+    const changedIds = results.filter(result => result.status === "ok").map(result => result.id);
+    const now = new Date();
+    // Tags compare case-insensitively, as in setMailItemTags
+    const removed = action.type === "tag" ? new Set(action.remove.map(tag => tag.toLowerCase())) : new Set<string>();
+
+    changedIds.forEach(id => {
+      const { tags, ...item } = itemsById.get(id)!;
+      switch (action.type) {
+        case "recategorize":
+          this.mailItems.set(id, { ...item, category: action.category });
+          break;
+        case "set-reminder":
+          this.mailItems.set(id, { ...item, reminderDate: action.reminderDate });
+          break;
+        case "archive":
+          this.mailItems.set(id, { ...item, archivedAt: action.archived ? now : null });
+          break;
+        case "delete":
+          this.mailItems.set(id, { ...item, deletedAt: now });
+          break;
+        case "mark-paid":
+          // The amount paid defaults to each bill's own amount due
+          this.mailItems.set(id, {
+            ...item,
+            paymentStatus: "paid",
+            paidDate: action.paidDate || today,
+            amountPaid: item.extractedFields?.amountDue?.value ?? null,
+          });
+          break;
+        case "tag": {
+          this.tagRows(id)
+            .filter(row => removed.has(row.tag.toLowerCase()))
+            .forEach(row => this.tags.delete(row.id));
+          const present = new Set(tags.map(tag => tag.toLowerCase()).filter(tag => !removed.has(tag)));
+          action.add.forEach(tag => {
+            const key = tag.toLowerCase();
+            if (present.has(key)) return;
+            present.add(key);
+            this.insertTag(id, tag, "user");
+          });
+          break;
+        }
+      }
+    });
+
+    // Trashed items are reported by id only
+    const items = action.type === "delete"
+      ? []
+      : this.withTags(changedIds.map(id => this.mailItems.get(id)!));
+    return { applied: true, results, items };
+  }
+
+  // Returns the ids moved to the trash
+  async trashAllMailItems(userId: string): Promise<number[]> {
+    const now = new Date();
+    return this.liveMailItems(userId).map(item => {
+      this.mailItems.set(item.id, { ...item, deletedAt: now });
+      return item.id;
+    });
+  }
+
+  async getTrashedMailItems(userId: string): Promise<MailItemWithTags[]> {
+    return this.withTags(this.trashedMailItems(userId).sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime()));
+  }
+
+  async restoreMailItem(id: number, userId: string): Promise<MailItemWithTags | undefined> {
+    const item = this.mailItems.get(id);
+    if (!item || item.userId !== userId || item.deletedAt === null) return undefined;
+    return this.saveMailItem({ ...item, deletedAt: null });
+  }
+
+  // Permanent deletion, only for items already in the trash; returns the row so its file can be removed
+  async deleteMailItem(id: number, userId: string): Promise<MailItem | undefined> {
+    const item = this.mailItems.get(id);
+    if (!item || item.userId !== userId || item.deletedAt === null) return undefined;
+    return this.removeMailItem(id);
+  }
+
+  async emptyTrash(userId: string): Promise<MailItem[]> {
+    return this.trashedMailItems(userId).map(item => this.removeMailItem(item.id)!);
+  }
+
+  // Every user's items, trashed ones included, in id order so a backfill can page through them
+  async getMailItemsWithoutThumbnails(afterId: number, limit: number): Promise<MailItem[]> {
+    return Array.from(this.mailItems.values())
+      .filter(item => item.thumbnailUrl === null && item.id > afterId)
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit)
+      .map(item => ({ ...item }));
+  }
+
+  async getExpiredTrashItems(deletedBefore: Date): Promise<MailItem[]> {
+    return Array.from(this.mailItems.values())
+      .filter(item => item.deletedAt !== null && item.deletedAt < deletedBefore)
+      .sort((a, b) => a.deletedAt!.getTime() - b.deletedAt!.getTime())
+      .map(item => ({ ...item }));
+  }
+
+  // Whether any item of any user, trashed ones included, still points at a stored file
+  async isFileReferenced(url: string): Promise<boolean> {
+    return Array.from(this.mailItems.values()).some(item =>
+      [item.imageUrl, item.originalImageUrl, item.thumbnailUrl, item.previewUrl].includes(url)
+    );
+  }
+
+  // The user's live (not trashed) items matching a parsed search, archived ones included
+  private searchItems(query: SearchQuery, userId: string, today: string): MailItemWithTags[] {
+    const text = textTerms(query);
+    return this.withTags(this.liveMailItems(userId)).filter(item => {
+      const document = documentWords([item.title, item.summary, item.extractedText].filter(Boolean).join(" "));
+      if (!text.every(term => matchesText(document, term))) return false;
+
+      return query.terms.every(term => {
+        if (term.type === "text") return true;
+        const match = searchTermMatch(item, term, today);
+        return term.negated ? match !== true : match === true;
+      });
+    });
+  }
+
+  // Structured terms filter as in DatabaseStorage; free text is matched by word prefix and ranked by where it appears
+  async searchMailItems(query: SearchQuery, userId: string, page: number, pageSize: number, today: string): Promise<SearchResults> {
+    const matches = this.searchItems(query, userId, today);
+    const total = matches.length;
+    if (total === 0) return { results: [], total, page, pageSize };
+
+    const text = textTerms(query);
+    const hasText = toTsQuery(text) !== null;
+    const prefixes = text.filter(term => !term.negated).flatMap(term => toWords(term.value));
+
+    const results = matches
+      .map(item => ({ item, rank: hasText ? rankItem(item, prefixes) : 0 }))
+      .sort((a, b) => b.rank - a.rank || byUploadDesc(a.item, b.item))
+      .slice((page - 1) * pageSize, page * pageSize)
+      .map(({ item, rank }) => ({
+        item,
+        rank,
+        titleHighlight: hasText ? highlight(item.title, prefixes) : item.title,
+        snippet: hasText ? snippet(item.extractedText || item.summary, prefixes) : item.summary,
+      }));
+
+    return { results, total, page, pageSize };
+  }
+
+  async countMailItems(userId: string, query: SearchQuery | null, filters: MailItemFilters, today: string): Promise<number> {
+    // Searches include archived items, plain filters only cover the inbox, as on the dashboard
+    const base = query
+      ? this.searchItems(query, userId, today)
+      : this.withTags(this.liveMailItems(userId).filter(item => item.archivedAt === null));
+    return base.filter(item => matchesMailFilters(item, filters, today)).length;
+  }
+
+  async getMailItemsByCategory(category: string, userId: string): Promise<MailItemWithTags[]> {
+    return this.withTags(this.liveMailItems(userId).filter(item => item.category === category).sort(byUploadDesc));
+  }
+
+  // Custom category methods
+  private userCategoryRows(userId: string): UserCategory[] {
+    return Array.from(this.categories.values()).filter(category => category.userId === userId);
+  }
+
+  private assertCategoryNameAvailable(userId: string, name: string, id?: number) {
+    if (this.userCategoryRows(userId).some(category => category.name === name && category.id !== id)) {
+      throw uniqueViolation("idx_user_categories_user_name");
+    }
+  }
+
+  // Applies a change to every one of the user's items (trashed included) that has the category
+  private rewriteCustomCategory(userId: string, name: string, rewrite: (names: string[]) => string[]): number {
+    const affected = Array.from(this.mailItems.values())
+      .filter(item => item.userId === userId && item.customCategories.includes(name));
+    affected.forEach(item => this.mailItems.set(item.id, { ...item, customCategories: rewrite(item.customCategories) }));
+    return affected.length;
+  }
+
+  // Points smart folders filtering on the old category at the new one
+  private rewriteSavedSearchCategory(userId: string, from: string, to: string) {
+    this.userSavedSearches(userId)
+      .filter(search => search.filters.category === from)
+      .forEach(search => this.searches.set(search.id, { ...search, filters: { ...search.filters, category: to } }));
+  }
+
+  async getUserCategories(userId: string): Promise<UserCategory[]> {
+    return this.userCategoryRows(userId)
+      .sort((a, b) => byText(a.name, b.name))
+      .map(category => ({ ...category }));
+  }
+
+  async getUserCategory(id: number, userId: string): Promise<UserCategory | undefined> {
+    const category = this.categories.get(id);
+    return category && category.userId === userId ? { ...category } : undefined;
+  }
+
+  async createUserCategory(category: InsertUserCategory): Promise<UserCategory> {
+    this.assertCategoryNameAvailable(category.userId, category.name);
+
+    const now = new Date();
+    const created: UserCategory = {
+      id: this.nextId("categories"),
+      userId: category.userId,
+      name: category.name,
+      color: orDefault(category.color, "indigo"),
+      icon: orDefault(category.icon, "tag"),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.categories.set(created.id, created);
+    return { ...created };
+  }
+
+  async updateUserCategory(id: number, userId: string, updates: Partial<Pick<InsertUserCategory, "name" | "color" | "icon">>): Promise<UserCategory | undefined> {
+    const existing = this.categories.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    if (updates.name) this.assertCategoryNameAvailable(userId, updates.name, id);
+
+    const updated: UserCategory = { ...existing, ...defined(updates), updatedAt: new Date() };
+    this.categories.set(id, updated);
+
+    const newName = updates.name;
+    if (newName && newName !== existing.name) {
+      this.rewriteCustomCategory(userId, existing.name, names => names.map(name => name === existing.name ? newName : name));
+      this.rewriteSavedSearchCategory(userId, `custom:${existing.name}`, `custom:${newName}`);
+    }
+
+    return { ...updated };
+  }
+
+  async mergeUserCategories(sourceId: number, targetId: number, userId: string): Promise<{ target: UserCategory; itemsUpdated: number } | undefined> {
+    const source = this.categories.get(sourceId);
+    const target = this.categories.get(targetId);
+    if (!source || !target || source.userId !== userId || target.userId !== userId) return undefined;
+
+    // Replace the source name and drop duplicates on items that already had both
+    const itemsUpdated = this.rewriteCustomCategory(userId, source.name, names =>
+      names
+        .map(name => name === source.name ? target.name : name)
+        .filter((name, index, all) => all.indexOf(name) === index)
+    );
+    this.rewriteSavedSearchCategory(userId, `custom:${source.name}`, `custom:${target.name}`);
+    this.categories.delete(source.id);
+
+    return { target: { ...target }, itemsUpdated };
+  }
+
+  async deleteUserCategory(id: number, userId: string): Promise<boolean> {
+    const deleted = this.categories.get(id);
+    if (!deleted || deleted.userId !== userId) return false;
+    this.categories.delete(id);
+
+    // Unassign the category; the documents themselves are kept
+    this.rewriteCustomCategory(userId, deleted.name, names => names.filter(name => name !== deleted.name));
+    this.rewriteSavedSearchCategory(userId, `custom:${deleted.name}`, "all");
+    return true;
+  }
+
+  // Analysis job queue methods
+  async createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const now = new Date();
+    const created: AnalysisJob = {
+      id: this.nextId("jobs"),
+      mailItemId: job.mailItemId,
+      userId: job.userId,
+      filePath: job.filePath,
+      fileName: job.fileName,
+      status: orDefault(job.status, "queued"),
+      attempts: orDefault(job.attempts, 0),
+      maxAttempts: orDefault(job.maxAttempts, 5),
+      lastError: orDefault(job.lastError, null),
+      runAt: orDefault(job.runAt, now),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(created.id, created);
+    return { ...created };
+  }
+
+  async claimNextAnalysisJob(now: Date): Promise<AnalysisJob | undefined> {
+    const next = Array.from(this.jobs.values())
+      .filter(job => job.status === "queued" && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())[0];
+    if (!next) return undefined;
+
+    const claimed: AnalysisJob = { ...next, status: "running", attempts: next.attempts + 1, updatedAt: now };
+    this.jobs.set(next.id, claimed);
+    return { ...claimed };
+  }
+
+  private updateJob(id: number, updates: Partial<AnalysisJob>) {
+    const job = this.jobs.get(id);
+    if (job) this.jobs.set(id, { ...job, ...updates, updatedAt: new Date() });
+  }
+
+  async completeAnalysisJob(id: number): Promise<void> {
+    this.updateJob(id, { status: "completed", lastError: null });
+  }
+
+  async failAnalysisJob(id: number, error: string, retryAt: Date | null): Promise<void> {
+    this.updateJob(id, {
+      status: retryAt ? "queued" : "failed",
+      lastError: error,
+      ...(retryAt && { runAt: retryAt }),
+    });
+  }
+
+  async requeueStaleAnalysisJobs(startedBefore: Date): Promise<number> {
+    const stale = Array.from(this.jobs.values()).filter(job => job.status === "running" && job.updatedAt < startedBefore);
+    stale.forEach(job => this.updateJob(job.id, { status: "queued" }));
+    return stale.length;
+  }
+
+  // Reminder notification methods
+  // Items whose reminder date has arrived (in UTC terms) and have not been notified for that date yet. Dates before
+  // notBefore or before the item was uploaded were already past when the scheduler could first have seen them.
+  async getDueReminderItems(onOrBefore: string, notBefore: string): Promise<DueReminderItem[]> {
+    const notified = new Set(Array.from(this.notifications.values()).map(row => `${row.mailItemId}:${row.reminderDate}`));
+    return Array.from(this.mailItems.values())
+      .filter(item => item.deletedAt === null
+        && !!item.reminderDate
+        && item.reminderDate <= onOrBefore
+        && item.reminderDate >= notBefore
+        && item.reminderDate >= item.uploadDate.toISOString().slice(0, 10)
+        && !notified.has(`${item.id}:${item.reminderDate}`))
+      .sort((a, b) => byText(a.reminderDate!, b.reminderDate!))
+      .map(item => {
+        const settings = this.settings.get(item.userId);
+        return {
+          item: { ...item },
+          timezone: settings?.timezone ?? null,
+          reminderNotifications: settings?.reminderNotifications ?? null,
+          emailNotifications: settings?.emailNotifications ?? null,
+        };
+      });
+  }
+
+  // Returns undefined when a notification already exists for this item and reminder date
+  async createNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    const exists = Array.from(this.notifications.values())
+      .some(row => row.mailItemId === notification.mailItemId && row.reminderDate === notification.reminderDate);
+    if (exists) return undefined;
+
+    const now = new Date();
+    const created: Notification = {
+      id: this.nextId("notifications"),
+      userId: notification.userId,
+      mailItemId: notification.mailItemId,
+      reminderDate: notification.reminderDate,
+      status: orDefault(notification.status, "delivered"),
+      emailStatus: orDefault(notification.emailStatus, "skipped"),
+      snoozedUntil: orDefault(notification.snoozedUntil, null),
+      readAt: orDefault(notification.readAt, null),
+      deliveredAt: orDefault(notification.deliveredAt, now),
+      createdAt: now,
+    };
+    this.notifications.set(created.id, created);
+    return { ...created };
+  }
+
+  async getNotifications(userId: string): Promise<NotificationWithItem[]> {
+    return Array.from(this.notifications.values())
+      .filter(row => row.userId === userId && row.status === "delivered" && this.mailItems.get(row.mailItemId)?.deletedAt === null)
+      .sort((a, b) => b.deliveredAt.getTime() - a.deliveredAt.getTime())
+      .slice(0, 50)
+      .map(row => {
+        const { id, title, summary, reminderDate } = this.mailItems.get(row.mailItemId)!;
+        return { ...row, mailItem: { id, title, summary, reminderDate } };
+      });
+  }
+
+  async getNotification(id: number, userId: string): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    return notification && notification.userId === userId ? { ...notification } : undefined;
+  }
+
+  async updateNotification(id: number, userId: string, updates: Partial<InsertNotification>): Promise<Notification | undefined> {
+    const existing = this.notifications.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+
+    const updated: Notification = { ...existing, ...defined(updates) };
+    this.notifications.set(id, updated);
+    return { ...updated };
+  }
+
+  async markNotificationsRead(userId: string): Promise<number> {
+    const now = new Date();
+    const unread = Array.from(this.notifications.values())
+      .filter(row => row.userId === userId && row.status === "delivered" && row.readAt === null);
+    unread.forEach(row => this.notifications.set(row.id, { ...row, readAt: now }));
+    return unread.length;
+  }
+
+  async getDueSnoozedNotifications(now: Date): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(row => row.status === "snoozed" && row.snoozedUntil !== null && row.snoozedUntil <= now)
+      .sort((a, b) => a.snoozedUntil!.getTime() - b.snoozedUntil!.getTime())
+      .map(row => ({ ...row }));
+  }
+
+  async getDigestRecipients(): Promise<DigestRecipient[]> {
+    return Array.from(this.settings.values())
+      .filter(settings => settings.weeklyDigest === true && !!this.users.get(settings.userId)?.email)
+      .map(settings => ({ user: { ...this.users.get(settings.userId)! }, timezone: settings.timezone }));
+  }
+
+  // Returns undefined when the digest for this week was already sent, is in flight (sending since before staleBefore
+  // counts as interrupted and is claimed again), or has run out of retries
+  async claimDigestDelivery(userId: string, weekStart: string, maxAttempts: number, staleBefore: Date): Promise<DigestDelivery | undefined> {
+    const now = new Date();
+    const existing = Array.from(this.digests.values()).find(row => row.userId === userId && row.weekStart === weekStart);
+
+    if (existing) {
+      const interrupted = existing.status === "sending" && existing.updatedAt < staleBefore;
+      if ((existing.status !== "failed" && !interrupted) || existing.attempts >= maxAttempts) return undefined;
+      const retried: DigestDelivery = { ...existing, status: "sending", attempts: existing.attempts + 1, updatedAt: now };
+      this.digests.set(existing.id, retried);
+      return { ...retried };
+    }
+
+    const created: DigestDelivery = {
+      id: this.nextId("digests"),
+      userId,
+      weekStart,
+      status: "sending",
+      attempts: 1,
+      itemCount: 0,
+      lastError: null,
+      sentAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.digests.set(created.id, created);
+    return { ...created };
+  }
+
+  async updateDigestDelivery(id: number, updates: Partial<Pick<DigestDelivery, "status" | "itemCount" | "lastError" | "sentAt">>): Promise<DigestDelivery | undefined> {
+    const existing = this.digests.get(id);
+    if (!existing) return undefined;
+
+    const updated: DigestDelivery = { ...existing, ...defined(updates), updatedAt: new Date() };
+    this.digests.set(id, updated);
+    return { ...updated };
+  }
+
+  async getRetentionPolicies(userId: string): Promise<RetentionPolicy[]> {
+    return Array.from(this.policies.values())
+      .filter(policy => policy.userId === userId)
+      .map(policy => ({ ...policy }));
+  }
+
+  async saveRetentionPolicies(userId: string, policies: RetentionPolicyInput[]): Promise<RetentionPolicy[]> {
+    const existing = Array.from(this.policies.values()).filter(policy => policy.userId === userId);
+    policies.forEach(({ category, retentionDays }) => {
+      const current = existing.find(policy => policy.category === category);
+      const id = current?.id ?? this.nextId("policies");
+      this.policies.set(id, { id, userId, category, retentionDays, updatedAt: new Date() });
+    });
+    return this.getRetentionPolicies(userId);
+  }
+
+  async getAutoDeleteUserIds(): Promise<string[]> {
+    return Array.from(this.settings.values())
+      .filter(settings => settings.autoDeleteOldItems === true)
+      .map(settings => settings.userId);
+  }
+
+  // Saved search (smart folder) methods
+  private userSavedSearches(userId: string): SavedSearch[] {
+    return Array.from(this.searches.values()).filter(search => search.userId === userId);
+  }
+
+  private assertSavedSearchNameAvailable(userId: string, name: string, id?: number) {
+    if (this.userSavedSearches(userId).some(search => search.name === name && search.id !== id)) {
+      throw uniqueViolation("idx_saved_searches_user_name");
+    }
+  }
+
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return this.userSavedSearches(userId)
+      .sort((a, b) => Number(b.pinned) - Number(a.pinned) || a.position - b.position || a.id - b.id)
+      .map(search => ({ ...search }));
+  }
+
+  async getSavedSearch(id: number, userId: string): Promise<SavedSearch | undefined> {
+    const search = this.searches.get(id);
+    return search && search.userId === userId ? { ...search } : undefined;
+  }
+
+  async createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch> {
+    this.assertSavedSearchNameAvailable(search.userId, search.name);
+
+    // New folders go to the end of the list
+    const positions = this.userSavedSearches(search.userId).map(existing => existing.position);
+    const now = new Date();
+    const created: SavedSearch = {
+      id: this.nextId("searches"),
+      userId: search.userId,
+      name: search.name,
+      filters: search.filters,
+      pinned: orDefault(search.pinned, false),
+      position: Math.max(-1, ...positions) + 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.searches.set(created.id, created);
+    return { ...created };
+  }
+
+  async updateSavedSearch(id: number, userId: string, updates: Partial<Pick<InsertSavedSearch, "name" | "filters" | "pinned">>): Promise<SavedSearch | undefined> {
+    const existing = this.searches.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    if (updates.name) this.assertSavedSearchNameAvailable(userId, updates.name, id);
+
+    const updated: SavedSearch = { ...existing, ...defined(updates), updatedAt: new Date() };
+    this.searches.set(id, updated);
+    return { ...updated };
+  }
+
+  // Positions follow the given order; folders missing from the list keep their relative order after it
+  async reorderSavedSearches(userId: string, ids: number[]): Promise<SavedSearch[]> {
+    const existing = this.userSavedSearches(userId).sort((a, b) => a.position - b.position || a.id - b.id);
+    const ownedIds = new Set(existing.map(search => search.id));
+    const ordered = ids.filter((id, index) => ownedIds.has(id) && ids.indexOf(id) === index);
+    existing.forEach(search => {
+      if (!ordered.includes(search.id)) ordered.push(search.id);
+    });
+
+    ordered.forEach((id, position) => this.searches.set(id, { ...this.searches.get(id)!, position }));
+    return this.getSavedSearches(userId);
+  }
+
+  async deleteSavedSearch(id: number, userId: string): Promise<boolean> {
+    const search = this.searches.get(id);
+    if (!search || search.userId !== userId) return false;
+    this.searches.delete(id);
+    return true;
+  }
+
+  // IMAP import methods
+  async getEmailImportAccount(userId: string): Promise<EmailImportAccount | undefined> {
+    const account = Array.from(this.imports.values()).find(existing => existing.userId === userId);
+    return account ? { ...account } : undefined;
+  }
+
+  async getEnabledEmailImportAccounts(): Promise<EmailImportAccount[]> {
+    return Array.from(this.imports.values())
+      .filter(account => account.enabled)
+      .map(account => ({ ...account }));
+  }
+
+  async saveEmailImportAccount(account: InsertEmailImportAccount): Promise<EmailImportAccount> {
+    const existing = Array.from(this.imports.values()).find(current => current.userId === account.userId);
+    const now = new Date();
+    const saved: EmailImportAccount = existing
+      ? { ...existing, ...defined(account), lastError: null, updatedAt: now }
+      : {
+          id: this.nextId("imports"),
+          userId: account.userId,
+          email: account.email,
+          host: account.host,
+          port: orDefault(account.port, 993),
+          secure: orDefault(account.secure, true),
+          username: account.username,
+          encryptedPassword: account.encryptedPassword,
+          folder: orDefault(account.folder, "INBOX"),
+          senderFilters: orDefault(account.senderFilters, []),
+          subjectFilters: orDefault(account.subjectFilters, []),
+          enabled: orDefault(account.enabled, true),
+          lastPolledAt: null,
+          lastError: null,
+          createdAt: now,
+          updatedAt: now,
+        };
+    this.imports.set(saved.id, saved);
+    return { ...saved };
+  }
+
+  async updateEmailImportStatus(id: number, updates: Partial<Pick<EmailImportAccount, "lastPolledAt" | "lastError">>): Promise<void> {
+    const account = this.imports.get(id);
+    if (account) this.imports.set(id, { ...account, ...defined(updates) });
+  }
+
+  async deleteEmailImportAccount(userId: string): Promise<boolean> {
+    const account = Array.from(this.imports.values()).find(existing => existing.userId === userId);
+    if (!account) return false;
+    this.imports.delete(account.id);
+    this.importedUids.delete(account.id);
+    return true;
+  }
+
+  async getImportedEmailUids(accountId: number, folder: string, uidValidity: number): Promise<number[]> {
+    return Array.from(this.importedUids.get(accountId)?.get(`${uidValidity} ${folder}`) ?? []);
+  }
+
+  async markEmailMessagesImported(accountId: number, folder: string, uidValidity: number, uids: number[]): Promise<void> {
+    if (!this.imports.has(accountId)) return;
+    const folders = this.importedUids.get(accountId) ?? new Map<string, Set<number>>();
+    const key = `${uidValidity} ${folder}`;
+    const imported = folders.get(key) ?? new Set<number>();
+    uids.forEach(uid => imported.add(uid));
+    folders.set(key, imported);
+    this.importedUids.set(accountId, folders);
+  }
+
+  async getAllEmailImportAccounts(): Promise<EmailImportAccount[]> {
+    return Array.from(this.imports.values()).map(account => ({ ...account }));
+  }
+
+  async updateEmailImportPassword(id: number, encryptedPassword: string): Promise<void> {
+    const account = this.imports.get(id);
+    if (account) this.imports.set(id, { ...account, encryptedPassword });
+  }
+
+  // SMTP settings methods
+  async getUserEmailConfig(userId: string): Promise<UserEmailConfig | undefined> {
+    const config = this.emailConfigs.get(userId);
+    return config ? { ...config } : undefined;
+  }
+
+  async getAllUserEmailConfigs(): Promise<UserEmailConfig[]> {
+    return Array.from(this.emailConfigs.values()).map(config => ({ ...config }));
+  }
+
+  async saveUserEmailConfig(config: InsertUserEmailConfig): Promise<UserEmailConfig> {
+    const existing = this.emailConfigs.get(config.userId);
+    const now = new Date();
+    const saved: UserEmailConfig = existing
+      ? { ...existing, ...defined(config), updatedAt: now }
+      : {
+          userId: config.userId,
+          host: config.host,
+          port: config.port,
+          secure: orDefault(config.secure, false),
+          username: config.username,
+          encryptedPassword: config.encryptedPassword,
+          fromName: orDefault(config.fromName, null),
+          fromEmail: orDefault(config.fromEmail, null),
+          verifiedAt: config.verifiedAt,
+          createdAt: now,
+          updatedAt: now,
+        };
+    this.emailConfigs.set(saved.userId, saved);
+    return { ...saved };
+  }
+
+  async updateUserEmailConfigPassword(userId: string, encryptedPassword: string): Promise<void> {
+    const config = this.emailConfigs.get(userId);
+    if (config) this.emailConfigs.set(userId, { ...config, encryptedPassword });
+  }
+
+  async deleteUserEmailConfig(userId: string): Promise<boolean> {
+    return this.emailConfigs.delete(userId);
+  }
+
+  // Profile methods
+  async updateUserProfile(userId: string, updates: { firstName?: string; lastName?: string; email?: string }): Promise<User | undefined> {
+    return this.updateUser(userId, updates);
+  }
+
+  async changeUserPassword(userId: string, hashedPassword: string): Promise<boolean> {
+    return !!(await this.updateUser(userId, { passwordHash: hashedPassword }));
+  }
+
+  async deleteUserAccount(userId: string): Promise<boolean> {
+    return this.deleteUser(userId);
+  }
+}
@@ -0,0 +1,66 @@
+// Small images for the dashboard: a thumbnail for every upload and a first-page preview for PDFs
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { fromPath } from "pdf2pic";
+
+export const previewsDir = path.join('uploads', 'previews');
+const THUMBNAIL_SIZE = 480; // px on the long side; cards show them at about 400px wide
+const PREVIEW_SIZE = 1200;
+
+export interface GeneratedPreviews {
+  thumbnailUrl: string | null;
+  previewUrl: string | null; // PDFs only; images are their own preview
+}
+
+async function renderPdfFirstPage(filePath: string): Promise<Buffer> {
+  const convertPDF = fromPath(filePath, {
+    density: 100,
+    saveFilename: "preview",
+    savePath: path.dirname(filePath),
+    format: "jpg",
+    width: PREVIEW_SIZE,
+    height: PREVIEW_SIZE,
+    preserveAspectRatio: true,
+  });
+  const page = await convertPDF(1, { responseType: "buffer" });
+  if (!page.buffer || page.buffer.length === 0) {
+    throw new Error('Failed to render the first PDF page');
+  }
+  return page.buffer;
+}
+
+// File names follow the source file, so a new source always gets new preview URLs and they can be cached forever.
+// Failures are logged and leave the item without previews; the dashboard then falls back to the upload itself.
+export async function generatePreviews(filePath: string): Promise<GeneratedPreviews> {
+  const ext = path.extname(filePath);
+  const base = path.basename(filePath, ext);
+
+  try {
+    await fs.promises.mkdir(previewsDir, { recursive: true });
+
+    let source: string | Buffer = filePath;
+    let previewUrl: string | null = null;
+    if (ext.toLowerCase() === '.pdf') {
+      source = await renderPdfFirstPage(filePath);
+      const previewName = `${base}-preview.jpg`;
+      await sharp(source)
+        .resize({ width: PREVIEW_SIZE, height: PREVIEW_SIZE, fit: "inside", withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toFile(path.join(previewsDir, previewName));
+      previewUrl = `/uploads/previews/${previewName}`;
+    }
+
+    const thumbnailName = `${base}-thumb.jpg`;
+    await sharp(source)
+      .rotate() // apply EXIF orientation
+      .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: 75 })
+      .toFile(path.join(previewsDir, thumbnailName));
+
+    return { thumbnailUrl: `/uploads/previews/${thumbnailName}`, previewUrl };
+  } catch (error) {
+    console.error(`Could not generate previews for ${filePath}:`, error);
+    return { thumbnailUrl: null, previewUrl: null };
+  }
+}
@@ -0,0 +1,157 @@
+// Periodic scan that turns due reminder dates into in-app notifications and reminder emails
+import { storage } from "./storage";
+import { publish } from "./live-events";
+import { generateNotificationActionToken } from "./auth";
+import { isBill, todayInTimeZone } from "@shared/bills";
+import type { MailItem, Notification } from "@shared/schema";
+
+const SCAN_INTERVAL_MS = parseInt(process.env.REMINDER_SCAN_INTERVAL_MS || '300000');
+// Furthest-ahead timezone, so a reminder is picked up as soon as its date starts anywhere
+const EARLIEST_TIMEZONE = "Pacific/Kiritimati";
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+// Reminders missed for longer than this (e.g. before the scheduler existed or while the server was down) are not sent late
+const MISSED_REMINDER_DAYS = parseInt(process.env.REMINDER_MISSED_DAYS || '3');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type NotificationAction = "snooze" | "dismiss";
+
+// Signed link used in reminder emails so users can act without logging in
+export function getNotificationActionUrl(notification: Notification, action: NotificationAction): string {
+  const appUrl = process.env.APP_URL || 'https://mail-smart-chepuralex1991.replit.app';
+  const token = generateNotificationActionToken(notification.id, notification.userId);
+  return `${appUrl}/api/notifications/${notification.id}/${action}?token=${encodeURIComponent(token)}`;
+}
+
+async function sendEmail(notification: Notification, item: MailItem): Promise<"sent" | "failed"> {
+  try {
+    const user = await storage.getUser(notification.userId);
+    if (!user) return "failed";
+
+    const { sendReminderEmail } = await import('./email-service');
+    await sendReminderEmail(user, {
+      title: item.title,
+      summary: item.summary,
+      reminderDate: notification.reminderDate,
+      snoozeUrl: getNotificationActionUrl(notification, "snooze"),
+      dismissUrl: getNotificationActionUrl(notification, "dismiss"),
+    });
+    return "sent";
+  } catch (error) {
+    console.error('Reminder email failed:', error instanceof Error ? error.message : error);
+    return "failed";
+  }
+}
+
+// Mark the notification delivered, email it if allowed and push it to open dashboards
+async function deliver(notification: Notification, item: MailItem, emailEnabled: boolean): Promise<void> {
+  const emailStatus = emailEnabled ? await sendEmail(notification, item) : "skipped";
+
+  const delivered = await storage.updateNotification(notification.id, notification.userId, {
+    status: "delivered",
+    emailStatus,
+    snoozedUntil: null,
+    readAt: null,
+    deliveredAt: new Date(),
+  });
+  if (!delivered) return;
+
+  publish(notification.userId, {
+    type: "notification.created",
+    data: {
+      ...delivered,
+      mailItem: { id: item.id, title: item.title, summary: item.summary, reminderDate: item.reminderDate },
+    },
+  });
+}
+
+export async function runDueReminders(now = new Date()): Promise<number> {
+  let delivered = 0;
+
+  const notBefore = todayInTimeZone("UTC", new Date(now.getTime() - MISSED_REMINDER_DAYS * DAY_MS));
+  const candidates = await storage.getDueReminderItems(todayInTimeZone(EARLIEST_TIMEZONE, now), notBefore);
+  for (let i = 0; i < candidates.length; i++) {
+    const { item, timezone, reminderNotifications, emailNotifications } = candidates[i];
+    const reminderDate = item.reminderDate!;
+
+    // Not due yet in the user's own timezone; picked up again by a later scan
+    if (DATE_ONLY.test(reminderDate) && reminderDate > todayInTimeZone(timezone, now)) continue;
+
+    // Reminders that will never be delivered are recorded as skipped, so later scans don't fetch them again.
+    // The unique (item, date) index makes either insert a no-op if another scan got there first.
+    const skip = reminderNotifications === false || !DATE_ONLY.test(reminderDate) || (isBill(item) && item.paymentStatus === "paid");
+    const notification = await storage.createNotification({
+      userId: item.userId,
+      mailItemId: item.id,
+      reminderDate,
+      status: skip ? "skipped" : "delivered",
+    });
+    if (!notification || skip) continue;
+
+    await deliver(notification, item, emailNotifications !== false);
+    delivered++;
+  }
+
+  const snoozed = await storage.getDueSnoozedNotifications(now);
+  for (let i = 0; i < snoozed.length; i++) {
+    const notification = snoozed[i];
+    const [item, settings] = await Promise.all([
+      storage.getMailItem(notification.mailItemId, notification.userId),
+      storage.getUserSettings(notification.userId),
+    ]);
+    if (!item) continue;
+
+    // Paid since it was snoozed, so there is nothing left to remind about
+    if (isBill(item) && item.paymentStatus === "paid") {
+      await storage.updateNotification(notification.id, notification.userId, { status: "dismissed", snoozedUntil: null });
+      continue;
+    }
+
+    await deliver(notification, item, settings?.emailNotifications !== false && settings?.reminderNotifications !== false);
+    delivered++;
+  }
+
+  return delivered;
+}
+
+// Start scanning for due reminders; returns a function that stops the scheduler
+export function startReminderScheduler(): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const scan = async () => {
+    if (stopped) return;
+    try {
+      const count = await runDueReminders();
+      if (count > 0) console.log(`Delivered ${count} reminder notification(s)`);
+    } catch (error) {
+      console.error('Reminder scheduler error:', error);
+    } finally {
+      if (!stopped) {
+        timer = setTimeout(scan, SCAN_INTERVAL_MS);
+      }
+    }
+  };
+
+  scan();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
+
+// Shared by the authenticated API and the signed email links
+export async function snoozeNotification(id: number, userId: string, days: number): Promise<Notification | undefined> {
+  const updated = await storage.updateNotification(id, userId, {
+    status: "snoozed",
+    snoozedUntil: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+  });
+  if (updated) publish(userId, { type: "notification.updated", data: updated });
+  return updated;
+}
+
+export async function dismissNotification(id: number, userId: string): Promise<Notification | undefined> {
+  const updated = await storage.updateNotification(id, userId, { status: "dismissed", snoozedUntil: null });
+  if (updated) publish(userId, { type: "notification.updated", data: updated });
+  return updated;
+}
@@ -0,0 +1,76 @@
+// Scheduled sweeper that moves documents past their category's retention period to the trash
+import { storage } from "./storage";
+import { publish } from "./live-events";
+import { getRetentionCandidates, resolveRetentionPolicies, type RetentionCandidate } from "@shared/retention";
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.RETENTION_SWEEP_INTERVAL_MS || '21600000');
+
+// Candidates for a user under their current policies, whether or not auto-delete is switched on
+export async function getRetentionPreview(userId: string, now = new Date()): Promise<RetentionCandidate[]> {
+  const [items, saved] = await Promise.all([
+    storage.getAllMailItems(userId),
+    storage.getRetentionPolicies(userId),
+  ]);
+  return getRetentionCandidates(items, resolveRetentionPolicies(saved), now);
+}
+
+export async function sweepUser(userId: string, now = new Date()): Promise<number> {
+  const candidates = await getRetentionPreview(userId, now);
+  let deleted = 0;
+
+  for (let i = 0; i < candidates.length; i++) {
+    const item = await storage.getMailItem(candidates[i].id, userId);
+    // Re-check the pin in case it was set since the candidates were computed
+    if (!item || item.keepForever) continue;
+
+    // Files stay until the trash is purged, so a sweep can still be undone
+    if (await storage.trashMailItem(item.id, userId)) {
+      publish(userId, { type: "mail-item.deleted", data: { id: item.id } });
+      deleted++;
+    }
+  }
+
+  return deleted;
+}
+
+export async function runRetentionSweep(now = new Date()): Promise<number> {
+  const userIds = await storage.getAutoDeleteUserIds();
+  let deleted = 0;
+
+  for (let i = 0; i < userIds.length; i++) {
+    try {
+      deleted += await sweepUser(userIds[i], now);
+    } catch (error) {
+      console.error(`Retention sweep failed for user ${userIds[i]}:`, error);
+    }
+  }
+
+  return deleted;
+}
+
+// Start sweeping on an interval; returns a function that stops the sweeper
+export function startRetentionSweeper(): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const sweep = async () => {
+    if (stopped) return;
+    try {
+      const count = await runRetentionSweep();
+      if (count > 0) console.log(`Retention sweep deleted ${count} item(s)`);
+    } catch (error) {
+      console.error('Retention sweeper error:', error);
+    } finally {
+      if (!stopped) {
+        timer = setTimeout(sweep, SWEEP_INTERVAL_MS);
+      }
+    }
+  };
+
+  sweep();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,45 @@
+// Re-encrypt saved mail server passwords with the first key in CREDENTIAL_KEYS: `npm run credentials:rotate`.
+// Put the new key first and keep the old ones listed while this runs; afterwards the old ones can be removed.
+// Import passwords from before CREDENTIAL_KEYS are migrated too, as long as EMAIL_IMPORT_SECRET is still set as it was.
+import { storage } from "./storage";
+import { currentCredentialKeyId, decryptCredential, encryptCredential, needsReencryption } from "./credential-crypto";
+
+// Passwords that can't be decrypted are reported and left as they are, so one bad value doesn't stop the rest
+async function reencrypt(stored: string, save: (encrypted: string) => Promise<unknown>, label: string): Promise<boolean> {
+  try {
+    await save(encryptCredential(decryptCredential(stored)));
+    return true;
+  } catch (error) {
+    console.error(`Could not re-encrypt ${label}:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+async function rotateCredentialKeys(): Promise<number> {
+  let rotated = 0;
+  let failed = 0;
+
+  for (const config of await storage.getAllUserEmailConfigs()) {
+    if (needsReencryption(config.encryptedPassword)) {
+      const saved = await reencrypt(config.encryptedPassword, encrypted => storage.updateUserEmailConfigPassword(config.userId, encrypted), `the SMTP password of user ${config.userId}`);
+      if (saved) rotated++; else failed++;
+    }
+  }
+
+  for (const account of await storage.getAllEmailImportAccounts()) {
+    if (needsReencryption(account.encryptedPassword)) {
+      const saved = await reencrypt(account.encryptedPassword, encrypted => storage.updateEmailImportPassword(account.id, encrypted), `the password of import account ${account.id}`);
+      if (saved) rotated++; else failed++;
+    }
+  }
+
+  console.log(`Credential rotation finished: ${rotated} password(s) re-encrypted with key "${currentCredentialKeyId()}", ${failed} failed`);
+  return failed;
+}
+
+rotateCredentialKeys()
+  .then(failed => process.exit(failed > 0 ? 1 : 0))
+  .catch(error => {
+    console.error('Credential rotation failed:', error);
+    process.exit(1);
+  });
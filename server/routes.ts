@@ -4,21 +4,56 @@ import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import crypto from "crypto";
 import rateLimit from "express-rate-limit";
 import helmet from "helmet";
 import cors from "cors";
 import cookieParser from "cookie-parser";
 import { z } from "zod";
-import { storage } from "./storage";
-import { analyzeDocument } from "./ai-service";
+import { storage, decodeMailItemCursor } from "./storage";
+import { enqueueAnalysis } from "./analysis-queue";
+import { subscribe, publish } from "./live-events";
+import { analysisProvider } from "./analysis-providers";
+import { snoozeNotification, dismissNotification } from "./reminder-scheduler";
+import { getRetentionPreview } from "./retention-sweeper";
+import { permanentlyDeleteMailItem, emptyTrash, TRASH_RETENTION_DAYS } from "./trash";
+import { getSavedSearchesWithCounts } from "./saved-searches";
+import { runBulkAction } from "./bulk-operations";
+import { combineScanPages } from "./scan-pdf";
+import { previewsDir } from "./previews";
+import { uploadsDir, uniqueUploadName, createPendingMailItem } from "./uploads";
+import { pollEmailImportAccount, resolveEmailImportSettings, toEmailImportView } from "./imap-importer";
+import { ingestInboundEmail, getInboundAddress, rotateInboundAddress, MAX_INBOUND_MESSAGE_BYTES } from "./inbound-email";
+import { buildBillsOverview, todayInTimeZone } from "@shared/bills";
+import { searchParamsSchema } from "@shared/search";
+import { parseSearchQuery } from "@shared/query-language";
+import { mailItemListParamsSchema, defaultSortOrders } from "@shared/mail-item-list";
+import { bulkRequestSchema } from "@shared/bulk-actions";
+import type { EmailImportOverview } from "@shared/email-import";
+import type { EmailConfigOverview } from "@shared/email-config";
+import { MAX_UPLOAD_BYTES, MAX_UPLOAD_FILES, isAllowedUploadFile } from "@shared/uploads";
+import { defaultRetentionPolicies, resolveRetentionPolicies, type RetentionOverview } from "@shared/retention";
 import { 
-  insertMailItemSchema, 
+  updateMailItemSchema,
+  updatePaymentSchema,
   emailRegistrationSchema, 
-  emailLoginSchema 
+  emailLoginSchema,
+  createCategorySchema,
+  updateCategorySchema,
+  mergeCategorySchema,
+  snoozeNotificationSchema,
+  updateRetentionPoliciesSchema,
+  createSavedSearchSchema,
+  updateSavedSearchSchema,
+  reorderSavedSearchesSchema,
+  emailImportSettingsSchema,
+  emailConfigSchema,
+  categories
 } from "@shared/schema";
 import { 
   authenticateToken, 
   type AuthenticatedRequest,
+  verifyNotificationActionToken,
   setAuthCookie,
   clearAuthCookie
 } from "./auth";
@@ -35,34 +70,21 @@ interface MulterRequest extends AuthenticatedRequest {
   file?: Express.Multer.File;
 }
 
-// Ensure uploads directory exists
-const uploadsDir = 'uploads';
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
-}
-
 // Configure multer for file uploads with proper file naming
 const multerStorage = multer.diskStorage({
-  destination: 'uploads/',
+  destination: uploadsDir,
   filename: (req, file, cb) => {
-    // Keep original extension for proper file type detection
-    const ext = path.extname(file.originalname);
-    const uniqueName = file.fieldname + '-' + Date.now() + ext;
-    cb(null, uniqueName);
+    cb(null, uniqueUploadName(file.fieldname, path.extname(file.originalname)));
   }
 });
 
 const upload = multer({
   storage: multerStorage,
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
+    fileSize: MAX_UPLOAD_BYTES,
   },
   fileFilter: (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-    const allowedTypes = /jpeg|jpg|png|pdf/;
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-    const mimetype = allowedTypes.test(file.mimetype);
-    
-    if (mimetype && extname) {
+    if (isAllowedUploadFile(file.originalname, file.mimetype)) {
       return cb(null, true);
     } else {
       cb(new Error('Only image and PDF files are allowed'));
@@ -70,6 +92,35 @@ const upload = multer({
   }
 });
 
+// Multer reports rejected files (wrong type, too large, too many) as errors; answer them as bad requests
+function acceptUpload(middleware: express.RequestHandler): express.RequestHandler {
+  return (req, res, next) => {
+    middleware(req, res, (error?: unknown) => {
+      if (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : "Invalid upload" });
+        return;
+      }
+      next();
+    });
+  };
+}
+
+// Content types a webhook may post a raw message as
+const inboundMailTypes = ["message/rfc822", "text/plain", "application/octet-stream"];
+
+function secretMatches(provided: string | undefined, secret: string): boolean {
+  if (!provided) return false;
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+async function removeFiles(files: Express.Multer.File[]): Promise<void> {
+  await Promise.all(files.map(file => fs.promises.unlink(file.path).catch(error => {
+    console.error("Could not remove uploaded file:", file.path, error);
+  })));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Security middleware (relaxed for development)
   if (process.env.NODE_ENV === 'production') {
@@ -410,38 +461,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Health check endpoint
   app.get("/api/health", async (req, res) => {
-    try {
-      const openai = (await import("openai")).default;
-      const client = new openai({ apiKey: process.env.OPENAI_API_KEY });
-      
-      await client.models.list();
-      
-      res.json({ 
-        status: "healthy", 
-        openai: "connected",
-        database: "connected",
-        timestamp: new Date().toISOString()
-      });
-    } catch (error: any) {
-      console.error("Health check failed:", error);
-      res.status(503).json({ 
-        status: "unhealthy", 
-        openai: error.message.includes("openai") ? "disconnected" : "connected",
-        database: "connected",
-        error: error.message,
-        timestamp: new Date().toISOString()
-      });
+    const providerHealth = await analysisProvider.checkHealth();
+    const healthy = providerHealth.status === "available";
+
+    if (!healthy) {
+      console.error("Health check failed:", providerHealth.detail);
     }
+
+    res.status(healthy ? 200 : 503).json({ 
+      status: healthy ? "healthy" : "unhealthy", 
+      analysisProvider: analysisProvider.name,
+      analysis: providerHealth.status,
+      ...(providerHealth.detail && { error: providerHealth.detail }),
+      database: "connected",
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Live updates stream (Server-Sent Events) for the authenticated user
+  app.get("/api/events", authenticateToken, (req: AuthenticatedRequest, res) => {
+    subscribe(req.userId!, res);
   });
 
   // Protected mail item routes (user-scoped)
+  // One page of the user's items, filtered and sorted server-side; pass nextCursor back for the next page
   app.get("/api/mail-items", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const items = await storage.getAllMailItems(req.userId!);
-      res.json(items);
+      const { limit, cursor, sort, order = defaultSortOrders[sort], archived, ...filters } = mailItemListParamsSchema.parse(req.query);
+
+      const decodedCursor = cursor ? decodeMailItemCursor(cursor, sort, order) : undefined;
+      if (cursor && !decodedCursor) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+
+      const settings = await storage.getUserSettings(req.userId!);
+      const page = await storage.getMailItemsPage(req.userId!, {
+        filters,
+        sort,
+        order,
+        limit,
+        cursor: decodedCursor,
+        archived,
+        today: todayInTimeZone(settings?.timezone),
+      });
+      res.json(page);
     } catch (error) {
       console.error("Error fetching mail items:", error);
-      res.status(500).json({ error: "Failed to fetch mail items" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to fetch mail items" });
+      }
+    }
+  });
+
+  // Tags, senders and category counts across all items, for filter menus
+  app.get("/api/mail-items/summary", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      res.json(await storage.getMailItemSummary(req.userId!));
+    } catch (error) {
+      console.error("Error fetching mail item summary:", error);
+      res.status(500).json({ error: "Failed to fetch mail item summary" });
     }
   });
 
@@ -462,55 +542,332 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/mail-items", authenticateToken, upload.single('file'), async (req: MulterRequest, res: Response) => {
+  app.post("/api/mail-items", authenticateToken, acceptUpload(upload.single('file')), async (req: MulterRequest, res: Response) => {
     try {
       if (!req.file) {
         res.status(400).json({ error: "No file uploaded" });
         return;
       }
 
-      console.log("Processing file:", req.file.filename, "for user:", req.userId);
+      console.log("Queueing file for analysis:", req.file.filename, "for user:", req.userId);
+      const newItem = await createPendingMailItem(req.userId!, req.file.path, req.file.originalname);
       
-      const analysisResult = await analyzeDocument(req.file.path, req.file.originalname);
-      
-      const mailItemData = {
-        userId: req.userId!,
-        title: analysisResult.title,
-        summary: analysisResult.summary,
-        category: analysisResult.category,
-        reminderDate: analysisResult.reminderDate || null,
-        imageUrl: `/uploads/${req.file.filename}`,
-        fileName: req.file.originalname,
-        extractedText: analysisResult.extractedText,
-      };
+      res.status(202).json(newItem);
+    } catch (error) {
+      console.error('Error creating mail item:', error);
+      res.status(500).json({ error: "Failed to create mail item" });
+    }
+  });
 
-      const validatedData = insertMailItemSchema.parse(mailItemData);
-      const newItem = await storage.createMailItem(validatedData);
+  // Several scans of one letter (e.g. phone photos of each page), stitched in upload order into one PDF document
+  app.post("/api/mail-items/combined", authenticateToken, acceptUpload(upload.array('files', MAX_UPLOAD_FILES)), async (req: MulterRequest, res: Response) => {
+    // upload.array() always yields a list
+    const files = Array.isArray(req.files) ? req.files : [];
+    if (files.length === 0) {
+      res.status(400).json({ error: "No files uploaded" });
+      return;
+    }
+
+    try {
+      const baseName = files[0].originalname.replace(/\.[^/.]+$/, "");
+      const fileName = `${baseName}.pdf`;
+      const outputPath = path.join(uploadsDir, uniqueUploadName("scan", ".pdf"));
 
-      // Send email notification
       try {
-        const user = await storage.getUser(req.userId!);
-        if (user) {
-          const { sendLetterNotification } = await import('./email-service');
-          await sendLetterNotification(user, {
-            id: newItem.id,
-            title: newItem.title,
-            fileName: newItem.fileName,
-            imageUrl: newItem.imageUrl,
-            uploadDate: new Date(newItem.uploadDate),
-            summary: newItem.summary,
-            extractedText: newItem.extractedText,
-          });
-        }
-      } catch (emailError) {
-        console.error('Email notification failed:', emailError);
-        // Don't fail the request if email fails
+        const pageCount = await combineScanPages(
+          files.map(file => ({ path: file.path, originalName: file.originalname })),
+          outputPath
+        );
+        console.log(`Combined ${files.length} file(s) into a ${pageCount}-page document for user:`, req.userId);
+      } catch (error) {
+        console.error('Error combining scans:', error);
+        await fs.promises.unlink(outputPath).catch(() => {});
+        res.status(400).json({ error: "Could not combine the files into one document" });
+        return;
       }
-      
-      res.status(201).json(newItem);
+
+      const newItem = await createPendingMailItem(req.userId!, outputPath, fileName);
+      res.status(202).json(newItem);
     } catch (error) {
-      console.error('Error creating mail item:', error);
+      console.error('Error creating combined mail item:', error);
       res.status(500).json({ error: "Failed to create mail item" });
+    } finally {
+      // Only the generated PDF is kept
+      await removeFiles(files);
+    }
+  });
+
+  // Raw RFC 822 messages from the mail provider's inbound webhook (or any relay), e.g.
+  // curl -H "X-Inbound-Secret: $INBOUND_MAIL_SECRET" -H "Content-Type: message/rfc822" --data-binary @letter.eml "/api/inbound-mail?to=<address>"
+  // The optional "to" lists the envelope recipients, comma separated; otherwise the To and Cc headers are used.
+  app.post("/api/inbound-mail", express.raw({ type: inboundMailTypes, limit: MAX_INBOUND_MESSAGE_BYTES }), async (req, res) => {
+    const secret = process.env.INBOUND_MAIL_SECRET;
+    if (!secret) {
+      res.status(503).json({ error: "Inbound email is not configured" });
+      return;
+    }
+    if (!secretMatches(req.get("X-Inbound-Secret"), secret)) {
+      res.status(401).json({ error: "Invalid inbound mail secret" });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ error: "Expected a raw email message" });
+      return;
+    }
+
+    try {
+      const recipients = typeof req.query.to === "string" ? req.query.to.split(",").map(address => address.trim()).filter(Boolean) : [];
+      const result = await ingestInboundEmail(req.body, recipients);
+      if (result.status === "unknown-recipient") {
+        res.status(404).json({ error: "Unknown recipient" });
+        return;
+      }
+      if (result.status === "no-attachments") {
+        res.status(422).json({ error: "No PDF or image attachments found", attachments: result.attachments });
+        return;
+      }
+      res.status(202).json({ sender: result.sender, attachments: result.attachments });
+    } catch (error) {
+      console.error("Error ingesting inbound email:", error);
+      res.status(500).json({ error: "Failed to process inbound email" });
+    }
+  });
+
+  // The user's personal forwarding address, created on first use
+  app.get("/api/inbound-address", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const address = await getInboundAddress(req.userId!);
+      if (!address) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+      res.json({ address });
+    } catch (error) {
+      console.error("Error fetching inbound address:", error);
+      res.status(500).json({ error: "Failed to fetch inbound address" });
+    }
+  });
+
+  // Replace the address, e.g. when the old one attracts spam
+  app.post("/api/inbound-address/rotate", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const address = await rotateInboundAddress(req.userId!);
+      if (!address) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+      res.json({ address });
+    } catch (error) {
+      console.error("Error rotating inbound address:", error);
+      res.status(500).json({ error: "Failed to rotate inbound address" });
+    }
+  });
+
+  // Re-run analysis for an item whose analysis failed
+  app.post("/api/mail-items/:id/reanalyze", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const item = await storage.getMailItem(id, req.userId!);
+      
+      if (!item) {
+        res.status(404).json({ error: "Mail item not found" });
+        return;
+      }
+
+      if (item.status === "pending" || item.status === "processing") {
+        res.status(409).json({ error: "Mail item is already being analyzed" });
+        return;
+      }
+
+      // Analysis starts again from the upload itself, so preprocessing runs again too
+      const filePath = path.join(uploadsDir, path.basename(item.originalImageUrl || item.imageUrl));
+      const updatedItem = await storage.updateMailItem(id, req.userId!, { status: "pending" });
+      if (updatedItem) {
+        publish(req.userId!, { type: "mail-item.updated", data: updatedItem });
+      }
+      await enqueueAnalysis(item, filePath);
+      
+      res.status(202).json(updatedItem);
+    } catch (error) {
+      console.error('Error requeueing mail item analysis:', error);
+      res.status(500).json({ error: "Failed to requeue analysis" });
+    }
+  });
+
+  // Mark a bill as paid or unpaid
+  app.patch("/api/mail-items/:id/payment", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payment = updatePaymentSchema.parse(req.body);
+      
+      const item = await storage.getMailItem(id, req.userId!);
+      if (!item) {
+        return res.status(404).json({ error: "Mail item not found" });
+      }
+      
+      let updates;
+      if (payment.status === "paid") {
+        const settings = await storage.getUserSettings(req.userId!);
+        updates = {
+          paymentStatus: "paid",
+          paidDate: payment.paidDate || todayInTimeZone(settings?.timezone),
+          amountPaid: payment.amountPaid ?? item.extractedFields?.amountDue?.value ?? null,
+        };
+      } else {
+        updates = { paymentStatus: "unpaid", paidDate: null, amountPaid: null };
+      }
+      
+      const updatedItem = await storage.updateMailItem(id, req.userId!, updates);
+      if (!updatedItem) {
+        return res.status(404).json({ error: "Mail item not found" });
+      }
+      
+      publish(req.userId!, { type: "mail-item.updated", data: updatedItem });
+      res.json(updatedItem);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input data", details: error.errors });
+      }
+      console.error("Error updating payment status:", error);
+      res.status(500).json({ error: "Failed to update payment status" });
+    }
+  });
+
+  // Outstanding and paid bills with monthly totals, using the user's timezone for overdue detection
+  app.get("/api/bills", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const [items, settings] = await Promise.all([
+        storage.getAllMailItems(req.userId!),
+        storage.getUserSettings(req.userId!),
+      ]);
+      res.json(buildBillsOverview(items, settings?.timezone || "UTC"));
+    } catch (error) {
+      console.error("Error fetching bills:", error);
+      res.status(500).json({ error: "Failed to fetch bills" });
+    }
+  });
+
+  // Delivered reminder notifications, newest first
+  app.get("/api/notifications", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const notifications = await storage.getNotifications(req.userId!);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const updated = await storage.markNotificationsRead(req.userId!);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ error: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.post("/api/notifications/:id/snooze", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { days } = snoozeNotificationSchema.parse(req.body);
+      const notification = await snoozeNotification(parseInt(req.params.id), req.userId!, days);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input data", details: error.errors });
+      }
+      console.error("Error snoozing notification:", error);
+      res.status(500).json({ error: "Failed to snooze notification" });
+    }
+  });
+
+  app.post("/api/notifications/:id/dismiss", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const notification = await dismissNotification(parseInt(req.params.id), req.userId!);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error dismissing notification:", error);
+      res.status(500).json({ error: "Failed to dismiss notification" });
+    }
+  });
+
+  // Signed links from reminder emails; these work without a session and redirect back to the app
+  app.get("/api/notifications/:id/:action(snooze|dismiss)", async (req, res) => {
+    const id = parseInt(req.params.id);
+    const action = req.params.action as "snooze" | "dismiss";
+    const payload = verifyNotificationActionToken(String(req.query.token || ""));
+
+    if (!payload || payload.notificationId !== id) {
+      return res.redirect("/?reminder=invalid");
+    }
+
+    try {
+      const notification = action === "snooze"
+        ? await snoozeNotification(id, payload.userId, 1)
+        : await dismissNotification(id, payload.userId);
+      res.redirect(notification ? `/?reminder=${action === "snooze" ? "snoozed" : "dismissed"}` : "/?reminder=invalid");
+    } catch (error) {
+      console.error(`Error handling reminder ${action} link:`, error);
+      res.redirect("/?reminder=error");
+    }
+  });
+
+  // Retention policies per category, with the defaults for categories the user has not changed
+  app.get("/api/retention", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const [saved, settings] = await Promise.all([
+        storage.getRetentionPolicies(req.userId!),
+        storage.getUserSettings(req.userId!),
+      ]);
+      const overview: RetentionOverview = {
+        enabled: !!settings?.autoDeleteOldItems,
+        policies: resolveRetentionPolicies(saved),
+        defaults: defaultRetentionPolicies,
+      };
+      res.json(overview);
+    } catch (error) {
+      console.error("Error fetching retention policies:", error);
+      res.status(500).json({ error: "Failed to fetch retention policies" });
+    }
+  });
+
+  app.put("/api/retention", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { policies } = updateRetentionPoliciesSchema.parse(req.body);
+      const [saved, settings] = await Promise.all([
+        storage.saveRetentionPolicies(req.userId!, policies),
+        storage.getUserSettings(req.userId!),
+      ]);
+      const overview: RetentionOverview = {
+        enabled: !!settings?.autoDeleteOldItems,
+        policies: resolveRetentionPolicies(saved),
+        defaults: defaultRetentionPolicies,
+      };
+      res.json(overview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input data", details: error.errors });
+      }
+      console.error("Error saving retention policies:", error);
+      res.status(500).json({ error: "Failed to save retention policies" });
+    }
+  });
+
+  // Items the next sweep would delete under the current policies
+  app.get("/api/retention/preview", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const candidates = await getRetentionPreview(req.userId!);
+      res.json(candidates);
+    } catch (error) {
+      console.error("Error building retention preview:", error);
+      res.status(500).json({ error: "Failed to build retention preview" });
     }
   });
 
@@ -518,40 +875,368 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/mail-items/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updates = req.body;
+      const { tags, ...updates } = updateMailItemSchema.parse(req.body);
+
+      if (updates.category !== undefined && !(categories as readonly string[]).includes(updates.category)) {
+        const userCategories = await storage.getUserCategories(req.userId!);
+        if (!userCategories.some(category => category.name === updates.category)) {
+          return res.status(400).json({ error: "Unknown category" });
+        }
+      }
       
-      const updatedItem = await storage.updateMailItem(id, req.userId!, updates);
+      if (tags) {
+        const savedTags = await storage.setMailItemTags(id, req.userId!, tags, "user");
+        if (!savedTags) {
+          return res.status(404).json({ error: "Mail item not found" });
+        }
+      }
+      
+      // A tags-only update has no columns to set
+      const updatedItem = Object.keys(updates).length > 0
+        ? await storage.updateMailItem(id, req.userId!, updates)
+        : await storage.getMailItem(id, req.userId!);
       if (!updatedItem) {
         return res.status(404).json({ error: "Mail item not found" });
       }
       
+      publish(req.userId!, { type: "mail-item.updated", data: updatedItem });
       res.json(updatedItem);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update mail item" });
     }
   });
 
-  // Delete mail item
+  // Move a mail item to the trash
   app.delete("/api/mail-items/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteMailItem(id, req.userId!);
-      if (!deleted) {
+      const trashed = await storage.trashMailItem(id, req.userId!);
+      if (!trashed) {
         return res.status(404).json({ error: "Mail item not found" });
       }
+      publish(req.userId!, { type: "mail-item.deleted", data: { id } });
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete mail item" });
     }
   });
 
-  // Search mail items
-  app.get("/api/mail-items/search/:query", async (req, res) => {
+  // Move every mail item to the trash
+  app.delete("/api/mail-items", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const query = req.params.query;
-      const items = await dataStorage.searchMailItems(query);
-      res.json(items);
+      const ids = await storage.trashAllMailItems(req.userId!);
+      ids.forEach(id => publish(req.userId!, { type: "mail-item.deleted", data: { id } }));
+      res.json({ deleted: ids.length });
+    } catch (error) {
+      console.error("Error deleting all mail items:", error);
+      res.status(500).json({ error: "Failed to delete mail items" });
+    }
+  });
+
+  // Apply one action to many items; nothing changes unless every item can be handled
+  app.post("/api/mail-items/bulk", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { ids, action } = bulkRequestSchema.parse(req.body);
+      const result = await runBulkAction(req.userId!, ids, action);
+      if (!result.applied) {
+        return res.status(422).json({ error: "Some items could not be updated, so no changes were made", ...result });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input data", details: error.errors });
+      }
+      console.error("Error applying bulk action:", error);
+      res.status(500).json({ error: "Failed to apply bulk action" });
+    }
+  });
+
+  // Trashed items, most recently deleted first
+  app.get("/api/trash", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const items = await storage.getTrashedMailItems(req.userId!);
+      res.json({ items, purgeAfterDays: TRASH_RETENTION_DAYS });
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ error: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/:id/restore", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const restored = await storage.restoreMailItem(parseInt(req.params.id), req.userId!);
+      if (!restored) {
+        return res.status(404).json({ error: "Mail item not found in trash" });
+      }
+
+      // Analysis jobs for trashed items are dropped, so queue it again
+      if (restored.status === "pending" || restored.status === "processing") {
+        await enqueueAnalysis(restored, path.join(uploadsDir, path.basename(restored.originalImageUrl || restored.imageUrl)));
+      }
+
+      publish(req.userId!, { type: "mail-item.created", data: restored });
+      res.json(restored);
+    } catch (error) {
+      console.error("Error restoring mail item:", error);
+      res.status(500).json({ error: "Failed to restore mail item" });
+    }
+  });
+
+  // Permanently delete a trashed item and its uploaded file
+  app.delete("/api/trash/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const deleted = await permanentlyDeleteMailItem(parseInt(req.params.id), req.userId!);
+      if (!deleted) {
+        return res.status(404).json({ error: "Mail item not found in trash" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error permanently deleting mail item:", error);
+      res.status(500).json({ error: "Failed to delete mail item" });
+    }
+  });
+
+  app.delete("/api/trash", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const deleted = await emptyTrash(req.userId!);
+      res.json({ deleted });
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      res.status(500).json({ error: "Failed to empty trash" });
+    }
+  });
+
+  // Custom category routes (user-scoped)
+  const isBuiltInCategory = (name: string) =>
+    (categories as readonly string[]).includes(name.toLowerCase());
+
+  app.get("/api/categories", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const userCategories = await storage.getUserCategories(req.userId!);
+      res.json(userCategories);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ error: "Failed to fetch categories" });
+    }
+  });
+
+  app.post("/api/categories", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { name, color, icon } = createCategorySchema.parse(req.body);
+
+      const existing = await storage.getUserCategories(req.userId!);
+      if (isBuiltInCategory(name) || existing.some(category => category.name.toLowerCase() === name.toLowerCase())) {
+        res.status(409).json({ error: "Category already exists" });
+        return;
+      }
+
+      const category = await storage.createUserCategory({ userId: req.userId!, name, color, icon });
+      res.status(201).json(category);
     } catch (error) {
+      console.error("Error creating category:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create category" });
+      }
+    }
+  });
+
+  // Rename/restyle a category; renames are applied to every item that uses it
+  app.patch("/api/categories/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = updateCategorySchema.parse(req.body);
+
+      if (updates.name) {
+        const existing = await storage.getUserCategories(req.userId!);
+        const clash = existing.find(category => category.id !== id && category.name.toLowerCase() === updates.name!.toLowerCase());
+        if (isBuiltInCategory(updates.name) || clash) {
+          res.status(409).json({ error: "A category with this name already exists", conflictId: clash?.id });
+          return;
+        }
+      }
+
+      const updated = await storage.updateUserCategory(id, req.userId!, updates);
+      if (!updated) {
+        res.status(404).json({ error: "Category not found" });
+        return;
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating category:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update category" });
+      }
+    }
+  });
+
+  // Merge one category into another, moving all of its items
+  app.post("/api/categories/:id/merge", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { targetId } = mergeCategorySchema.parse(req.body);
+
+      if (id === targetId) {
+        res.status(400).json({ error: "Cannot merge a category into itself" });
+        return;
+      }
+
+      const result = await storage.mergeUserCategories(id, targetId, req.userId!);
+      if (!result) {
+        res.status(404).json({ error: "Category not found" });
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error merging categories:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to merge categories" });
+      }
+    }
+  });
+
+  // Delete a category; items keep existing but lose the label
+  app.delete("/api/categories/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteUserCategory(id, req.userId!);
+      if (!deleted) {
+        res.status(404).json({ error: "Category not found" });
+        return;
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      res.status(500).json({ error: "Failed to delete category" });
+    }
+  });
+
+  // Smart folders (saved searches) with live item counts
+  app.get("/api/saved-searches", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      res.json(await getSavedSearchesWithCounts(req.userId!));
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+      res.status(500).json({ error: "Failed to fetch saved searches" });
+    }
+  });
+
+  app.post("/api/saved-searches", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { name, filters, pinned } = createSavedSearchSchema.parse(req.body);
+
+      const existing = await storage.getSavedSearches(req.userId!);
+      if (existing.some(search => search.name.toLowerCase() === name.toLowerCase())) {
+        res.status(409).json({ error: "A smart folder with this name already exists" });
+        return;
+      }
+
+      const search = await storage.createSavedSearch({ userId: req.userId!, name, filters, pinned });
+      publish(req.userId!, { type: "saved-searches.changed", data: { id: search.id } });
+      res.status(201).json(search);
+    } catch (error) {
+      console.error("Error creating saved search:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create saved search" });
+      }
+    }
+  });
+
+  // Reorder smart folders; registered before /:id so "order" is not taken for an id
+  app.put("/api/saved-searches/order", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { ids } = reorderSavedSearchesSchema.parse(req.body);
+      const searches = await storage.reorderSavedSearches(req.userId!, ids);
+      publish(req.userId!, { type: "saved-searches.changed", data: {} });
+      res.json(searches);
+    } catch (error) {
+      console.error("Error reordering saved searches:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to reorder saved searches" });
+      }
+    }
+  });
+
+  // Rename, pin/unpin or replace the filters of a smart folder
+  app.patch("/api/saved-searches/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = updateSavedSearchSchema.parse(req.body);
+
+      if (updates.name) {
+        const existing = await storage.getSavedSearches(req.userId!);
+        if (existing.some(search => search.id !== id && search.name.toLowerCase() === updates.name!.toLowerCase())) {
+          res.status(409).json({ error: "A smart folder with this name already exists" });
+          return;
+        }
+      }
+
+      const updated = await storage.updateSavedSearch(id, req.userId!, updates);
+      if (!updated) {
+        res.status(404).json({ error: "Saved search not found" });
+        return;
+      }
+
+      publish(req.userId!, { type: "saved-searches.changed", data: { id } });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating saved search:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update saved search" });
+      }
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteSavedSearch(id, req.userId!);
+      if (!deleted) {
+        res.status(404).json({ error: "Saved search not found" });
+        return;
+      }
+
+      publish(req.userId!, { type: "saved-searches.changed", data: { id } });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      res.status(500).json({ error: "Failed to delete saved search" });
+    }
+  });
+
+  // Search using the query language: ranked full-text over title, summary and OCR text plus field filters
+  app.get("/api/search", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { q, page, pageSize } = searchParamsSchema.parse(req.query);
+      const parsed = parseSearchQuery(q);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: "Invalid search query", details: parsed.errors });
+      }
+      
+      const settings = await storage.getUserSettings(req.userId!);
+      const results = await storage.searchMailItems(parsed.query, req.userId!, page, pageSize, todayInTimeZone(settings?.timezone));
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input data", details: error.errors });
+      }
+      console.error("Error searching mail items:", error);
       res.status(500).json({ error: "Failed to search mail items" });
     }
   });
@@ -568,10 +1253,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Email test endpoints
-  app.get("/api/email/test-config", authenticateToken, async (req, res) => {
+  app.get("/api/email/test-config", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
       const { testEmailConfiguration } = await import('./email-service');
-      const result = await testEmailConfiguration();
+      const result = await testEmailConfiguration(req.userId!);
       res.json(result);
     } catch (error) {
       res.status(500).json({ 
@@ -590,7 +1275,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { sendTestEmail } = await import('./email-service');
-      await sendTestEmail(user.email || '');
+      await sendTestEmail(user.email || '', user.id);
       
       res.json({ success: true, message: `Test email sent to ${user.email}` });
     } catch (error) {
@@ -602,6 +1287,131 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Importing bills from the user's own mailbox over IMAP
+  app.get("/api/email-import", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const account = await storage.getEmailImportAccount(req.userId!);
+      const overview: EmailImportOverview = { account: account ? toEmailImportView(account) : null };
+      res.json(overview);
+    } catch (error) {
+      console.error("Error fetching email import settings:", error);
+      res.status(500).json({ error: "Failed to fetch email import settings" });
+    }
+  });
+
+  app.put("/api/email-import", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const settings = emailImportSettingsSchema.parse(req.body);
+      const existing = await storage.getEmailImportAccount(req.userId!);
+      const resolved = resolveEmailImportSettings(req.userId!, settings, existing);
+      if ("error" in resolved) {
+        res.status(400).json({ error: resolved.error });
+        return;
+      }
+
+      const account = await storage.saveEmailImportAccount(resolved.account);
+      const overview: EmailImportOverview = { account: toEmailImportView(account) };
+      res.json(overview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input data", details: error.errors });
+        return;
+      }
+      console.error("Error saving email import settings:", error);
+      res.status(500).json({ error: "Failed to save email import settings" });
+    }
+  });
+
+  app.delete("/api/email-import", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const deleted = await storage.deleteEmailImportAccount(req.userId!);
+      if (!deleted) {
+        res.status(404).json({ error: "Email import is not set up" });
+        return;
+      }
+      res.json({ message: "Email import removed" });
+    } catch (error) {
+      console.error("Error removing email import settings:", error);
+      res.status(500).json({ error: "Failed to remove email import settings" });
+    }
+  });
+
+  // Check the mailbox now instead of waiting for the next scheduled poll
+  app.post("/api/email-import/run", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const account = await storage.getEmailImportAccount(req.userId!);
+      if (!account) {
+        res.status(404).json({ error: "Email import is not set up" });
+        return;
+      }
+
+      const result = await pollEmailImportAccount(account).catch((error: unknown) => error instanceof Error ? error : new Error(String(error)));
+      if (result instanceof Error) {
+        // The mailbox refused the connection or login; the message is also saved as the account's lastError
+        res.status(502).json({ error: "Could not import from the mailbox", details: result.message });
+        return;
+      }
+      if (!result) {
+        res.status(409).json({ error: "An import from this mailbox is already running" });
+        return;
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Email import failed:", error);
+      res.status(500).json({ error: "Failed to import from the mailbox" });
+    }
+  });
+
+  // The user's own SMTP account for notification emails; the password is never sent back
+  app.get("/api/email/config", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const { toEmailConfigView } = await import('./email-config-service');
+      const config = await storage.getUserEmailConfig(req.userId!);
+      const overview: EmailConfigOverview = { config: config ? toEmailConfigView(config) : null };
+      res.json(overview);
+    } catch (error) {
+      console.error("Error fetching email settings:", error);
+      res.status(500).json({ error: "Failed to fetch email settings" });
+    }
+  });
+
+  // Saved only after logging in to the SMTP server with them
+  app.put("/api/email/config", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const input = emailConfigSchema.parse(req.body);
+      const { saveEmailConfig, toEmailConfigView } = await import('./email-config-service');
+      const result = await saveEmailConfig(req.userId!, input, await storage.getUserEmailConfig(req.userId!));
+      if ("error" in result) {
+        res.status(400).json(result);
+        return;
+      }
+
+      const overview: EmailConfigOverview = { config: toEmailConfigView(result.config) };
+      res.json(overview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid input data", details: error.errors });
+        return;
+      }
+      console.error("Error saving email settings:", error);
+      res.status(500).json({ error: "Failed to save email settings" });
+    }
+  });
+
+  app.delete("/api/email/config", authenticateToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const deleted = await storage.deleteUserEmailConfig(req.userId!);
+      if (!deleted) {
+        res.status(404).json({ error: "Email is not set up" });
+        return;
+      }
+      res.json({ message: "Email settings removed" });
+    } catch (error) {
+      console.error("Error removing email settings:", error);
+      res.status(500).json({ error: "Failed to remove email settings" });
+    }
+  });
+
   // Auto-detect email provider and get setup instructions
   app.get("/api/email/auto-config", authenticateToken, async (req: AuthenticatedRequest, res) => {
     try {
@@ -637,12 +1447,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { attemptAutoEmailSetup } = await import('./email-config-service');
       const result = await attemptAutoEmailSetup(user, password);
       
-      if (result.success && result.config) {
-        // Save email config to user settings
-        await storage.updateUserSettings(req.userId!, {
-          emailConfig: result.config,
-          emailNotifications: true
-        });
+      if (result.success) {
+        // The verified account is already saved; turn notifications on to use it
+        await storage.updateUserSettings(req.userId!, { emailNotifications: true });
       }
       
       res.json(result);
@@ -662,7 +1469,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       timestamp: new Date().toISOString(),
       environment: process.env.NODE_ENV || "unknown",
       database: "unknown",
-      openai: "unknown",
+      analysisProvider: "unknown",
+      analysis: "unknown",
       uploads: "unknown",
       staticFiles: "unknown"
     };
@@ -676,24 +1484,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       diagnostics.status = "degraded";
     }
 
-    // Check OpenAI API
-    try {
-      const openai = new (await import("openai")).default({ 
-        apiKey: process.env.OPENAI_API_KEY 
-      });
-      
-      await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: "test" }],
-        max_tokens: 1
-      });
-      
-      diagnostics.openai = "available";
-    } catch (error: any) {
-      const openaiStatus = error.status === 429 ? "quota_exceeded" : 
-                          error.status === 401 ? "auth_failed" : "error";
-      diagnostics.openai = `${openaiStatus}: ${error.message?.substring(0, 50)}`;
-    }
+    // Check document analysis provider
+    const providerHealth = await analysisProvider.checkHealth();
+    diagnostics.analysisProvider = analysisProvider.name;
+    diagnostics.analysis = providerHealth.detail
+      ? `${providerHealth.status}: ${providerHealth.detail.substring(0, 50)}`
+      : providerHealth.status;
 
     // Check uploads directory
     try {
@@ -721,7 +1517,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Add environment variable check
     diagnostics.envVars = {
       DATABASE_URL: process.env.DATABASE_URL ? "set" : "missing",
+      STORAGE: process.env.STORAGE || "postgres",
       OPENAI_API_KEY: process.env.OPENAI_API_KEY ? "set" : "missing",
+      ANALYSIS_PROVIDER: process.env.ANALYSIS_PROVIDER || "unset",
       NODE_ENV: process.env.NODE_ENV || "unset"
     };
 
@@ -729,6 +1527,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 
+  // Thumbnails and previews get a new name whenever their source changes, so browsers can keep them for good
+  app.use('/uploads/previews', express.static(previewsDir, {
+    immutable: true,
+    maxAge: '1y',
+    fallthrough: false,
+    setHeaders: (res) => {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+    }
+  }));
+
   // Serve uploaded files with proper headers and CORS
   app.use('/uploads', express.static('uploads', {
     setHeaders: (res, path) => {
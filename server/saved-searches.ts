@@ -0,0 +1,30 @@
+// Smart folders: saved dashboard filters with item counts
+import { todayInTimeZone } from "@shared/bills";
+import { parseSearchQuery } from "@shared/query-language";
+import type { SavedSearch, SavedSearchWithCount } from "@shared/schema";
+import { storage } from "./storage";
+
+// Count matches the way the dashboard lists them: the search text plus the remaining filters
+async function countMatches(search: SavedSearch, userId: string, today: string): Promise<number | null> {
+  let query = null;
+  if (search.filters.search.trim()) {
+    const parsed = parseSearchQuery(search.filters.search);
+    if (!parsed.ok) return null;
+    query = parsed.query;
+  }
+
+  return await storage.countMailItems(userId, query, search.filters, today);
+}
+
+export async function getSavedSearchesWithCounts(userId: string): Promise<SavedSearchWithCount[]> {
+  const [searches, settings] = await Promise.all([
+    storage.getSavedSearches(userId),
+    storage.getUserSettings(userId),
+  ]);
+  const today = todayInTimeZone(settings?.timezone);
+
+  return await Promise.all(searches.map(async search => ({
+    ...search,
+    count: await countMatches(search, userId, today),
+  })));
+}
@@ -0,0 +1,54 @@
+// Stitch several scanned pages (photos or PDFs) into one PDF so they are analyzed and stored as one document
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { PDFDocument, type PDFImage, type PDFPage } from "pdf-lib";
+
+// Pages are laid out A4-wide; the height follows each photo's aspect ratio
+const PAGE_WIDTH = 595.28;
+
+// Phone cameras store the rotation in the EXIF orientation instead of rotating the pixels; sharp reads it and
+// re-encodes the photo upright. Photos that are already upright are embedded unchanged.
+async function uprightJpeg(data: Buffer): Promise<Buffer> {
+  const { orientation } = await sharp(data).metadata();
+  if (!orientation || orientation === 1) return data;
+  return sharp(data).rotate().jpeg({ quality: 90 }).toBuffer();
+}
+
+// Draw the image on a new page
+function addImagePage(pdf: PDFDocument, image: PDFImage): PDFPage {
+  const scale = PAGE_WIDTH / image.width;
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const page = pdf.addPage([width, height]);
+  page.drawImage(image, { x: 0, y: 0, width, height });
+  return page;
+}
+
+export interface ScanPage {
+  path: string;
+  originalName: string;
+}
+
+// Pages appear in the order given; PDFs contribute all of their pages. Returns the page count.
+export async function combineScanPages(pages: ScanPage[], outputPath: string): Promise<number> {
+  const pdf = await PDFDocument.create();
+
+  for (const page of pages) {
+    const data = await fs.promises.readFile(page.path);
+    const ext = path.extname(page.originalName).toLowerCase();
+
+    if (ext === ".pdf") {
+      const source = await PDFDocument.load(data);
+      const copied = await pdf.copyPages(source, source.getPageIndices());
+      copied.forEach(copiedPage => pdf.addPage(copiedPage));
+    } else if (ext === ".png") {
+      addImagePage(pdf, await pdf.embedPng(data));
+    } else {
+      addImagePage(pdf, await pdf.embedJpg(await uprightJpeg(data)));
+    }
+  }
+
+  await fs.promises.writeFile(outputPath, await pdf.save());
+  return pdf.getPageCount();
+}
@@ -2,21 +2,95 @@ import {
   mailItems,
   users,
   userSettings,
+  analysisJobs,
+  userCategories,
+  mailItemTags,
+  notifications,
+  digestDeliveries,
+  retentionPolicies,
+  savedSearches,
+  emailImportAccounts,
+  importedEmailMessages,
+  userEmailConfigs,
+  mailItemSearchDocument,
   type MailItem,
+  type MailItemWithTags,
+  type TagSource,
   type InsertMailItem,
   type User,
   type InsertUser,
   type UpsertUser,
   type UserSettings,
   type InsertUserSettings,
+  type AnalysisJob,
+  type InsertAnalysisJob,
+  type UserCategory,
+  type InsertUserCategory,
+  type Notification,
+  type InsertNotification,
+  type NotificationWithItem,
+  type DigestDelivery,
+  type RetentionPolicy,
+  type RetentionPolicyInput,
+  type SavedSearch,
+  type InsertSavedSearch,
+  type EmailImportAccount,
+  type InsertEmailImportAccount,
+  type UserEmailConfig,
+  type InsertUserEmailConfig,
 } from "@shared/schema";
+import { HIGHLIGHT_START, HIGHLIGHT_END, toTsQuery, type SearchResults } from "@shared/search";
+import type { QueryTerm, SearchQuery, TextTerm } from "@shared/query-language";
+import type { MailItemFilters, MailItemPage, MailItemSort, MailItemSummary, SortOrder } from "@shared/mail-item-list";
+import { dueSoonLimit } from "@shared/mail-filters";
+import { isBill } from "@shared/bills";
+import type { BulkItemResult, BulkWriteAction } from "@shared/bulk-actions";
 import { db } from "./db";
-import { eq, desc, ilike, or, and } from "drizzle-orm";
+import { MemStorage } from "./mem-storage";
+import { eq, desc, asc, ilike, or, and, not, lte, lt, gt, gte, ne, inArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+
+export interface DueReminderItem {
+  item: MailItem;
+  // Null when the user has never saved settings
+  timezone: string | null;
+  reminderNotifications: boolean | null;
+  emailNotifications: boolean | null;
+}
+
+export interface DigestRecipient {
+  user: User;
+  timezone: string | null;
+}
+
+// Position in a sorted listing: the last item's sort value (as text) and id
+export interface MailItemCursor {
+  sort: MailItemSort;
+  order: SortOrder;
+  value: string | null;
+  id: number;
+}
+
+export interface MailItemPageOptions {
+  filters: MailItemFilters;
+  sort: MailItemSort;
+  order: SortOrder;
+  limit: number;
+  cursor?: MailItemCursor;
+  archived: boolean; // list archived items instead of the inbox
+  today: string;
+}
+
+export interface BulkUpdateOutcome {
+  applied: boolean;
+  results: BulkItemResult[];
+  items: MailItemWithTags[]; // changed items, as saved
+}
 
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByInboundEmailToken(token: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
@@ -33,14 +107,228 @@ export interface IStorage {
   deleteUserAccount(userId: string): Promise<boolean>;
   
   // Mail item methods (now user-scoped)
-  getAllMailItems(userId: string): Promise<MailItem[]>;
-  getMailItem(id: number, userId: string): Promise<MailItem | undefined>;
-  createMailItem(mailItem: InsertMailItem): Promise<MailItem>;
-  updateMailItem(id: number, userId: string, updates: Partial<InsertMailItem>): Promise<MailItem | undefined>;
-  deleteMailItem(id: number, userId: string): Promise<boolean>;
-  deleteAllMailItems(userId: string): Promise<number>;
-  searchMailItems(query: string, userId: string): Promise<MailItem[]>;
-  getMailItemsByCategory(category: string, userId: string): Promise<MailItem[]>;
+  getAllMailItems(userId: string): Promise<MailItemWithTags[]>;
+  getMailItem(id: number, userId: string): Promise<MailItemWithTags | undefined>;
+  getMailItemsByIds(ids: number[], userId: string): Promise<MailItemWithTags[]>;
+  bulkUpdateMailItems(userId: string, ids: number[], action: BulkWriteAction, today: string): Promise<BulkUpdateOutcome>;
+  createMailItem(mailItem: InsertMailItem): Promise<MailItemWithTags>;
+  updateMailItem(id: number, userId: string, updates: Partial<InsertMailItem>): Promise<MailItemWithTags | undefined>;
+  trashMailItem(id: number, userId: string): Promise<boolean>;
+  trashAllMailItems(userId: string): Promise<number[]>;
+  getTrashedMailItems(userId: string): Promise<MailItemWithTags[]>;
+  restoreMailItem(id: number, userId: string): Promise<MailItemWithTags | undefined>;
+  deleteMailItem(id: number, userId: string): Promise<MailItem | undefined>;
+  emptyTrash(userId: string): Promise<MailItem[]>;
+  getExpiredTrashItems(deletedBefore: Date): Promise<MailItem[]>;
+  isFileReferenced(url: string): Promise<boolean>;
+  getMailItemsWithoutThumbnails(afterId: number, limit: number): Promise<MailItem[]>;
+  searchMailItems(query: SearchQuery, userId: string, page: number, pageSize: number, today: string): Promise<SearchResults>;
+  getMailItemsPage(userId: string, options: MailItemPageOptions): Promise<MailItemPage>;
+  getMailItemSummary(userId: string): Promise<MailItemSummary>;
+  countMailItems(userId: string, query: SearchQuery | null, filters: MailItemFilters, today: string): Promise<number>;
+  getMailItemsByCategory(category: string, userId: string): Promise<MailItemWithTags[]>;
+  
+  // Mail item tag methods
+  setMailItemTags(mailItemId: number, userId: string, tags: string[], source: TagSource): Promise<string[] | undefined>;
+  
+  // Custom category methods (renames and merges rewrite the user's mail items)
+  getUserCategories(userId: string): Promise<UserCategory[]>;
+  getUserCategory(id: number, userId: string): Promise<UserCategory | undefined>;
+  createUserCategory(category: InsertUserCategory): Promise<UserCategory>;
+  updateUserCategory(id: number, userId: string, updates: Partial<Pick<InsertUserCategory, "name" | "color" | "icon">>): Promise<UserCategory | undefined>;
+  mergeUserCategories(sourceId: number, targetId: number, userId: string): Promise<{ target: UserCategory; itemsUpdated: number } | undefined>;
+  deleteUserCategory(id: number, userId: string): Promise<boolean>;
+  
+  // Analysis job queue methods
+  createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob>;
+  claimNextAnalysisJob(now: Date): Promise<AnalysisJob | undefined>;
+  completeAnalysisJob(id: number): Promise<void>;
+  failAnalysisJob(id: number, error: string, retryAt: Date | null): Promise<void>;
+  requeueStaleAnalysisJobs(startedBefore: Date): Promise<number>;
+  
+  // Reminder notification methods
+  getDueReminderItems(onOrBefore: string, notBefore: string): Promise<DueReminderItem[]>;
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  getNotifications(userId: string): Promise<NotificationWithItem[]>;
+  getNotification(id: number, userId: string): Promise<Notification | undefined>;
+  updateNotification(id: number, userId: string, updates: Partial<InsertNotification>): Promise<Notification | undefined>;
+  markNotificationsRead(userId: string): Promise<number>;
+  getDueSnoozedNotifications(now: Date): Promise<Notification[]>;
+  
+  // Weekly digest operations
+  getDigestRecipients(): Promise<DigestRecipient[]>;
+  claimDigestDelivery(userId: string, weekStart: string, maxAttempts: number, staleBefore: Date): Promise<DigestDelivery | undefined>;
+  updateDigestDelivery(id: number, updates: Partial<Pick<DigestDelivery, "status" | "itemCount" | "lastError" | "sentAt">>): Promise<DigestDelivery | undefined>;
+  
+  // Retention operations
+  getRetentionPolicies(userId: string): Promise<RetentionPolicy[]>;
+  saveRetentionPolicies(userId: string, policies: RetentionPolicyInput[]): Promise<RetentionPolicy[]>;
+  getAutoDeleteUserIds(): Promise<string[]>;
+  
+  // Saved search (smart folder) methods
+  getSavedSearches(userId: string): Promise<SavedSearch[]>;
+  getSavedSearch(id: number, userId: string): Promise<SavedSearch | undefined>;
+  createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(id: number, userId: string, updates: Partial<Pick<InsertSavedSearch, "name" | "filters" | "pinned">>): Promise<SavedSearch | undefined>;
+  reorderSavedSearches(userId: string, ids: number[]): Promise<SavedSearch[]>;
+  deleteSavedSearch(id: number, userId: string): Promise<boolean>;
+  
+  // IMAP import methods (one account per user; imported UIDs are kept per folder and UIDVALIDITY)
+  getEmailImportAccount(userId: string): Promise<EmailImportAccount | undefined>;
+  getEnabledEmailImportAccounts(): Promise<EmailImportAccount[]>;
+  saveEmailImportAccount(account: InsertEmailImportAccount): Promise<EmailImportAccount>;
+  updateEmailImportStatus(id: number, updates: Partial<Pick<EmailImportAccount, "lastPolledAt" | "lastError">>): Promise<void>;
+  deleteEmailImportAccount(userId: string): Promise<boolean>;
+  getImportedEmailUids(accountId: number, folder: string, uidValidity: number): Promise<number[]>;
+  markEmailMessagesImported(accountId: number, folder: string, uidValidity: number, uids: number[]): Promise<void>;
+
+  // Stored mail server passwords; the "all" listings are for re-encrypting them with a new key
+  getAllEmailImportAccounts(): Promise<EmailImportAccount[]>;
+  updateEmailImportPassword(id: number, encryptedPassword: string): Promise<void>;
+
+  // SMTP settings for a user's notification emails (one per user)
+  getUserEmailConfig(userId: string): Promise<UserEmailConfig | undefined>;
+  getAllUserEmailConfigs(): Promise<UserEmailConfig[]>;
+  saveUserEmailConfig(config: InsertUserEmailConfig): Promise<UserEmailConfig>;
+  updateUserEmailConfigPassword(userId: string, encryptedPassword: string): Promise<void>;
+  deleteUserEmailConfig(userId: string): Promise<boolean>;
+}
+
+const itemDueDate = sql`coalesce(nullif(${mailItems.extractedFields}->>'dueDate', ''), nullif(${mailItems.reminderDate}, ''))`;
+const itemIsBill = sql`(${mailItems.category} = 'bill' or exists (select 1 from ${mailItemTags} where ${mailItemTags.mailItemId} = ${mailItems.id} and ${mailItemTags.tag} = 'bill'))`;
+
+function hasTag(tag: string): SQL {
+  return sql`exists (select 1 from ${mailItemTags} where ${mailItemTags.mailItemId} = ${mailItems.id} and lower(${mailItemTags.tag}) = lower(${tag}))`;
+}
+
+// SQL condition for one structured search term; text terms are handled by full-text search
+function searchTermCondition(term: Exclude<QueryTerm, TextTerm>, today: string): SQL {
+  if (term.type === "amount") {
+    return sql`(${mailItems.extractedFields}->'amountDue'->>'value')::float8 ${sql.raw(term.op)} ${term.value}`;
+  }
+
+  if (term.type === "date") {
+    const column = term.field === "due" ? itemDueDate : sql`to_char(${mailItems.uploadDate}, 'YYYY-MM-DD')`;
+    return sql`${column} ${sql.raw(term.op)} ${term.value}`;
+  }
+
+  switch (term.field) {
+    case "category":
+      return or(eq(mailItems.category, term.value), hasTag(term.value))!;
+    case "tag":
+      return hasTag(term.value);
+    case "from":
+      return sql`${mailItems.extractedFields}->>'sender' ilike ${`%${term.value}%`}`;
+    case "ref":
+      return sql`${mailItems.extractedFields}->>'referenceNumber' ilike ${`%${term.value}%`}`;
+    case "has":
+      switch (term.value) {
+        case "reminder":
+          return and(isNotNull(mailItems.reminderDate), ne(mailItems.reminderDate, ""))!;
+        case "amount":
+          return sql`${mailItems.extractedFields} ? 'amountDue'`;
+        case "due":
+          return sql`${itemDueDate} is not null`;
+        case "appointment":
+          return sql`${mailItems.extractedFields} ? 'appointment'`;
+        default:
+          return sql`exists (select 1 from ${mailItemTags} where ${mailItemTags.mailItemId} = ${mailItems.id})`;
+      }
+    case "is":
+      switch (term.value) {
+        case "bill":
+          return itemIsBill;
+        case "paid":
+          return and(itemIsBill, eq(mailItems.paymentStatus, "paid"))!;
+        case "unpaid":
+          return and(itemIsBill, ne(mailItems.paymentStatus, "paid"))!;
+        case "overdue":
+          return and(itemIsBill, ne(mailItems.paymentStatus, "paid"), sql`${itemDueDate} < ${today}`)!;
+        default:
+          return eq(mailItems.keepForever, true);
+      }
+  }
+}
+
+function textQuery(query: SearchQuery): string | null {
+  return toTsQuery(query.terms.filter((term): term is TextTerm => term.type === "text"));
+}
+
+// Full WHERE clause for a parsed search over the user's live (not trashed) items
+function searchFilter(query: SearchQuery, userId: string, today: string): SQL {
+  const tsquery = textQuery(query);
+  const conditions: SQL[] = [eq(mailItems.userId, userId), isNull(mailItems.deletedAt)];
+  if (tsquery) {
+    conditions.push(sql`${mailItemSearchDocument(mailItems)} @@ to_tsquery('english', ${tsquery})`);
+  }
+  query.terms.forEach(term => {
+    if (term.type === "text") return;
+    const condition = searchTermCondition(term, today);
+    // Items without the field never match, negated or not
+    conditions.push(term.negated ? sql`coalesce(not (${condition}), true)` : condition);
+  });
+  return and(...conditions)!;
+}
+
+// SQL version of matchesMailFilters in shared/mail-filters.ts
+function mailFiltersCondition(filters: MailItemFilters, today: string): SQL | undefined {
+  const conditions: SQL[] = [];
+  const dueDate = sql`nullif(${mailItems.extractedFields}->>'dueDate', '')`;
+  const itemHasTag = (tags: string[]) =>
+    sql`exists (select 1 from ${mailItemTags} where ${mailItemTags.mailItemId} = ${mailItems.id} and ${inArray(mailItemTags.tag, tags)})`;
+
+  if (filters.category !== "all") {
+    conditions.push(filters.category.startsWith("custom:")
+      ? sql`${filters.category.slice("custom:".length)} = ANY(${mailItems.customCategories})`
+      : or(eq(mailItems.category, filters.category), itemHasTag([filters.category]))!);
+  }
+
+  switch (filters.details) {
+    case "amount-due":
+      conditions.push(sql`(${mailItems.extractedFields}->'amountDue'->>'value')::float8 > 0`);
+      break;
+    case "due-soon":
+      conditions.push(sql`${dueDate} >= ${today} and ${dueDate} <= ${dueSoonLimit(today)}`);
+      break;
+    case "overdue":
+      conditions.push(sql`${dueDate} < ${today}`);
+      break;
+    case "appointment":
+      conditions.push(sql`nullif(${mailItems.extractedFields}->'appointment'->>'date', '') is not null`);
+      break;
+  }
+
+  if (filters.tags.length > 0) {
+    conditions.push(filters.match === "all"
+      ? and(...filters.tags.map(tag => itemHasTag([tag])))!
+      : itemHasTag(filters.tags));
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+// Sort expression per listing order; values round-trip through text in cursors
+const mailItemSortKeys: Record<MailItemSort, { key: SQL; type: "timestamp" | "float8" | "text" }> = {
+  uploaded: { key: sql`${mailItems.uploadDate}`, type: "timestamp" },
+  reminder: { key: sql`nullif(${mailItems.reminderDate}, '')`, type: "text" },
+  title: { key: sql`lower(${mailItems.title})`, type: "text" },
+  amount: { key: sql`(${mailItems.extractedFields}->'amountDue'->>'value')::float8`, type: "float8" },
+};
+
+export function encodeMailItemCursor(cursor: MailItemCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString("base64url");
+}
+
+// Undefined for malformed cursors or ones issued for a different sort
+export function decodeMailItemCursor(encoded: string, sort: MailItemSort, order: SortOrder): MailItemCursor | undefined {
+  try {
+    const [cursorSort, cursorOrder, value, id] = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (cursorSort !== sort || cursorOrder !== order) return undefined;
+    if (!(value === null || typeof value === "string") || !Number.isInteger(id)) return undefined;
+    return { sort, order, value, id };
+  } catch {
+    return undefined;
+  }
 }
 
 export class DatabaseStorage implements IStorage {
@@ -55,6 +343,11 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUserByInboundEmailToken(token: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.inboundEmailToken, token));
+    return user || undefined;
+  }
+
   async createUser(userData: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -115,76 +408,985 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  // Load tags for a batch of items in one query
+  private async withTags(items: MailItem[]): Promise<MailItemWithTags[]> {
+    if (items.length === 0) return [];
+
+    const rows = await db
+      .select()
+      .from(mailItemTags)
+      .where(inArray(mailItemTags.mailItemId, items.map(item => item.id)))
+      .orderBy(asc(mailItemTags.createdAt), asc(mailItemTags.id));
+
+    const tagsByItem = new Map<number, string[]>();
+    rows.forEach(row => {
+      const tags = tagsByItem.get(row.mailItemId) || [];
+      tags.push(row.tag);
+      tagsByItem.set(row.mailItemId, tags);
+    });
+
+    return items.map(item => ({ ...item, tags: tagsByItem.get(item.id) || [] }));
+  }
+
   // Mail item methods (now user-scoped)
-  async getAllMailItems(userId: string): Promise<MailItem[]> {
-    return await db
+  async getAllMailItems(userId: string): Promise<MailItemWithTags[]> {
+    const items = await db
       .select()
       .from(mailItems)
-      .where(eq(mailItems.userId, userId))
+      .where(and(eq(mailItems.userId, userId), isNull(mailItems.deletedAt)))
       .orderBy(desc(mailItems.uploadDate));
+    return this.withTags(items);
+  }
+
+  // Keyset pagination: nulls sort last, ties are broken by id so every item appears exactly once
+  async getMailItemsPage(userId: string, options: MailItemPageOptions): Promise<MailItemPage> {
+    const { filters, sort, order, limit, cursor, archived, today } = options;
+    const { key, type } = mailItemSortKeys[sort];
+    const filter = and(
+      eq(mailItems.userId, userId),
+      isNull(mailItems.deletedAt),
+      archived ? isNotNull(mailItems.archivedAt) : isNull(mailItems.archivedAt),
+      mailFiltersCondition(filters, today),
+    );
+
+    let after: SQL | undefined;
+    if (cursor) {
+      const comparison = sql.raw(order === "asc" ? ">" : "<");
+      const laterId = sql`${mailItems.id} ${comparison} ${cursor.id}`;
+      const value = sql`${cursor.value}::${sql.raw(type)}`;
+      after = cursor.value === null
+        ? sql`(${key} is null and ${laterId})`
+        : sql`(${key} is null or ${key} ${comparison} ${value} or (${key} = ${value} and ${laterId}))`;
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select({ item: mailItems, sortValue: sql<string | null>`${key}::text` })
+        .from(mailItems)
+        .where(and(filter, after))
+        .orderBy(sql`${key} ${sql.raw(order)} nulls last`, order === "asc" ? asc(mailItems.id) : desc(mailItems.id))
+        .limit(limit + 1),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(mailItems)
+        .where(filter),
+    ]);
+
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+    return {
+      items: await this.withTags(pageRows.map(row => row.item)),
+      total,
+      nextCursor: rows.length > limit
+        ? encodeMailItemCursor({ sort, order, value: last.sortValue, id: last.item.id })
+        : null,
+    };
   }
 
-  async getMailItem(id: number, userId: string): Promise<MailItem | undefined> {
+  async getMailItemSummary(userId: string): Promise<MailItemSummary> {
+    const live = and(eq(mailItems.userId, userId), isNull(mailItems.deletedAt));
+    const sender = sql<string>`${mailItems.extractedFields}->>'sender'`;
+    // Set-returning functions can't be grouped directly, so unnest in a subquery
+    const itemCategories = db
+      .select({ name: sql<string>`unnest(${mailItems.customCategories})`.as("name") })
+      .from(mailItems)
+      .where(live)
+      .as("item_categories");
+
+    const [[{ total }], tagRows, senderRows, categoryRows] = await Promise.all([
+      db.select({ total: sql<number>`count(*)::int` }).from(mailItems).where(live),
+      db
+        .selectDistinct({ tag: mailItemTags.tag })
+        .from(mailItemTags)
+        .innerJoin(mailItems, eq(mailItemTags.mailItemId, mailItems.id))
+        .where(live)
+        .orderBy(asc(mailItemTags.tag)),
+      db
+        .selectDistinct({ sender })
+        .from(mailItems)
+        .where(and(live, sql`nullif(${sender}, '') is not null`))
+        .orderBy(sender),
+      db
+        .select({ name: itemCategories.name, count: sql<number>`count(*)::int` })
+        .from(itemCategories)
+        .groupBy(itemCategories.name),
+    ]);
+
+    const customCategoryCounts: Record<string, number> = {};
+    categoryRows.forEach(row => {
+      customCategoryCounts[row.name] = row.count;
+    });
+
+    return {
+      total,
+      tags: tagRows.map(row => row.tag),
+      senders: senderRows.map(row => row.sender),
+      customCategoryCounts,
+    };
+  }
+
+  // Items in the trash are treated as missing everywhere except the trash methods below
+  async getMailItem(id: number, userId: string): Promise<MailItemWithTags | undefined> {
     const [item] = await db
       .select()
       .from(mailItems)
-      .where(and(eq(mailItems.id, id), eq(mailItems.userId, userId)));
-    return item || undefined;
+      .where(and(eq(mailItems.id, id), eq(mailItems.userId, userId), isNull(mailItems.deletedAt)));
+    if (!item) return undefined;
+    const [withTags] = await this.withTags([item]);
+    return withTags;
   }
 
-  async createMailItem(insertMailItem: InsertMailItem): Promise<MailItem> {
+  async createMailItem(insertMailItem: InsertMailItem): Promise<MailItemWithTags> {
     const [item] = await db
       .insert(mailItems)
       .values(insertMailItem)
       .returning();
-    return item;
+    return { ...item, tags: [] };
   }
 
-  async updateMailItem(id: number, userId: string, updates: Partial<InsertMailItem>): Promise<MailItem | undefined> {
+  async updateMailItem(id: number, userId: string, updates: Partial<InsertMailItem>): Promise<MailItemWithTags | undefined> {
     const [updated] = await db
       .update(mailItems)
       .set(updates)
-      .where(and(eq(mailItems.id, id), eq(mailItems.userId, userId)))
+      .where(and(eq(mailItems.id, id), eq(mailItems.userId, userId), isNull(mailItems.deletedAt)))
       .returning();
-    return updated || undefined;
+    if (!updated) return undefined;
+    const [withTags] = await this.withTags([updated]);
+    return withTags;
   }
 
-  async deleteMailItem(id: number, userId: string): Promise<boolean> {
+  // User tags replace the whole set; analysis only replaces its own tags so user edits survive re-analysis
+  async setMailItemTags(mailItemId: number, userId: string, tags: string[], source: TagSource): Promise<string[] | undefined> {
+    const seen = new Set<string>();
+    const uniqueTags = tags
+      .map(tag => tag.trim())
+      .filter(tag => {
+        const key = tag.toLowerCase();
+        if (!tag || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    return await db.transaction(async (tx) => {
+      const [item] = await tx
+        .select({ id: mailItems.id })
+        .from(mailItems)
+        .where(and(eq(mailItems.id, mailItemId), eq(mailItems.userId, userId)));
+      if (!item) return undefined;
+
+      const existing = await tx
+        .select()
+        .from(mailItemTags)
+        .where(eq(mailItemTags.mailItemId, mailItemId));
+
+      const replaceable = source === "user" ? existing : existing.filter(row => row.source === source);
+      const staleIds = replaceable
+        .filter(row => !seen.has(row.tag.toLowerCase()))
+        .map(row => row.id);
+      if (staleIds.length > 0) {
+        await tx.delete(mailItemTags).where(inArray(mailItemTags.id, staleIds));
+      }
+
+      const existingKeys = new Set(existing.map(row => row.tag.toLowerCase()));
+      const newTags = uniqueTags.filter(tag => !existingKeys.has(tag.toLowerCase()));
+      if (newTags.length > 0) {
+        await tx
+          .insert(mailItemTags)
+          .values(newTags.map(tag => ({ mailItemId, tag, source })))
+          .onConflictDoNothing();
+      }
+
+      const rows = await tx
+        .select({ tag: mailItemTags.tag })
+        .from(mailItemTags)
+        .where(eq(mailItemTags.mailItemId, mailItemId))
+        .orderBy(asc(mailItemTags.createdAt), asc(mailItemTags.id));
+      return rows.map(row => row.tag);
+    });
+  }
+
+  async trashMailItem(id: number, userId: string): Promise<boolean> {
     const result = await db
-      .delete(mailItems)
-      .where(and(eq(mailItems.id, id), eq(mailItems.userId, userId)));
+      .update(mailItems)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(mailItems.id, id), eq(mailItems.userId, userId), isNull(mailItems.deletedAt)));
     return (result.rowCount || 0) > 0;
   }
 
-  async deleteAllMailItems(userId: string): Promise<number> {
-    const result = await db.delete(mailItems).where(eq(mailItems.userId, userId));
-    return result.rowCount || 0;
+  async getMailItemsByIds(ids: number[], userId: string): Promise<MailItemWithTags[]> {
+    if (ids.length === 0) return [];
+    const items = await db
+      .select()
+      .from(mailItems)
+      .where(and(inArray(mailItems.id, ids), eq(mailItems.userId, userId), isNull(mailItems.deletedAt)))
+      .orderBy(desc(mailItems.uploadDate));
+    return this.withTags(items);
   }
 
-  async searchMailItems(query: string, userId: string): Promise<MailItem[]> {
+  // All or nothing: if any item fails nothing is written, and every item's outcome is reported
+  async bulkUpdateMailItems(userId: string, ids: number[], action: BulkWriteAction, today: string): Promise<BulkUpdateOutcome> {
+    const uniqueIds = Array.from(new Set(ids));
+
+    const outcome = await db.transaction(async (tx) => {
+      const rows = await tx
+        .select()
+        .from(mailItems)
+        .where(and(inArray(mailItems.id, uniqueIds), eq(mailItems.userId, userId), isNull(mailItems.deletedAt)))
+        .for("update");
+      const tagRows = rows.length > 0
+        ? await tx.select().from(mailItemTags).where(inArray(mailItemTags.mailItemId, rows.map(row => row.id)))
+        : [];
+
+      const itemsById = new Map(rows.map(row => [row.id, row]));
+      const tagsByItem = new Map<number, string[]>();
+      tagRows.forEach(row => tagsByItem.set(row.mailItemId, [...(tagsByItem.get(row.mailItemId) || []), row.tag]));
+
+      const results: BulkItemResult[] = uniqueIds.map(id => {
+        const item = itemsById.get(id);
+        if (!item) return { id, status: "failed", message: "Mail item not found" };
+
+        if (action.type === "mark-paid") {
+          if (!isBill({ category: item.category, tags: tagsByItem.get(id) })) return { id, status: "skipped", message: "Not a bill" };
+          if (item.paymentStatus === "paid") return { id, status: "skipped", message: "Already paid" };
+        }
+        if (action.type === "archive" && (item.archivedAt !== null) === action.archived) {
+          return { id, status: "skipped", message: action.archived ? "Already archived" : "Not archived" };
+        }
+        return { id, status: "ok" };
+      });
+
+      if (results.some(result => result.status === "failed")) {
+        return { applied: false, results, changedIds: [] as number[] };
+      }
+
+      const changedIds = results.filter(result => result.status === "ok").map(result => result.id);
+      if (changedIds.length === 0) return { applied: true, results, changedIds };
+      const changed = inArray(mailItems.id, changedIds);
+
+      switch (action.type) {
+        case "recategorize":
+          await tx.update(mailItems).set({ category: action.category }).where(changed);
+          break;
+        case "set-reminder":
+          await tx.update(mailItems).set({ reminderDate: action.reminderDate }).where(changed);
+          break;
+        case "archive":
+          await tx.update(mailItems).set({ archivedAt: action.archived ? new Date() : null }).where(changed);
+          break;
+        case "delete":
+          await tx.update(mailItems).set({ deletedAt: new Date() }).where(changed);
+          break;
+        case "mark-paid":
+          // The amount paid defaults to each bill's own amount due
+          for (const id of changedIds) {
+            await tx
+              .update(mailItems)
+              .set({
+                paymentStatus: "paid",
+                paidDate: action.paidDate || today,
+                amountPaid: itemsById.get(id)!.extractedFields?.amountDue?.value ?? null,
+              })
+              .where(eq(mailItems.id, id));
+          }
+          break;
+        case "tag": {
+          // Tags compare case-insensitively, as in setMailItemTags
+          const removed = new Set(action.remove.map(tag => tag.toLowerCase()));
+          if (removed.size > 0) {
+            await tx
+              .delete(mailItemTags)
+              .where(and(
+                inArray(mailItemTags.mailItemId, changedIds),
+                inArray(sql`lower(${mailItemTags.tag})`, Array.from(removed))
+              ));
+          }
+
+          const additions = changedIds.flatMap(id => {
+            const present = new Set((tagsByItem.get(id) || []).map(tag => tag.toLowerCase()).filter(tag => !removed.has(tag)));
+            return action.add.filter(tag => {
+              const key = tag.toLowerCase();
+              if (present.has(key)) return false;
+              present.add(key);
+              return true;
+            }).map(tag => ({ mailItemId: id, tag, source: "user" as TagSource }));
+          });
+          if (additions.length > 0) {
+            await tx.insert(mailItemTags).values(additions).onConflictDoNothing();
+          }
+          break;
+        }
+      }
+
+      return { applied: true, results, changedIds };
+    });
+
+    // Read back after commit; trashed items are reported by id only
+    if (outcome.changedIds.length === 0 || action.type === "delete") {
+      return { applied: outcome.applied, results: outcome.results, items: [] };
+    }
+    const items = await db
+      .select()
+      .from(mailItems)
+      .where(and(inArray(mailItems.id, outcome.changedIds), eq(mailItems.userId, userId)));
+    return { applied: outcome.applied, results: outcome.results, items: await this.withTags(items) };
+  }
+
+  // Returns the ids moved to the trash
+  async trashAllMailItems(userId: string): Promise<number[]> {
+    const trashed = await db
+      .update(mailItems)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(mailItems.userId, userId), isNull(mailItems.deletedAt)))
+      .returning({ id: mailItems.id });
+    return trashed.map(item => item.id);
+  }
+
+  async getTrashedMailItems(userId: string): Promise<MailItemWithTags[]> {
+    const items = await db
+      .select()
+      .from(mailItems)
+      .where(and(eq(mailItems.userId, userId), isNotNull(mailItems.deletedAt)))
+      .orderBy(desc(mailItems.deletedAt));
+    return this.withTags(items);
+  }
+
+  async restoreMailItem(id: number, userId: string): Promise<MailItemWithTags | undefined> {
+    const [restored] = await db
+      .update(mailItems)
+      .set({ deletedAt: null })
+      .where(and(eq(mailItems.id, id), eq(mailItems.userId, userId), isNotNull(mailItems.deletedAt)))
+      .returning();
+    if (!restored) return undefined;
+    const [withTags] = await this.withTags([restored]);
+    return withTags;
+  }
+
+  // Permanent deletion, only for items already in the trash; returns the row so its file can be removed
+  async deleteMailItem(id: number, userId: string): Promise<MailItem | undefined> {
+    const [deleted] = await db
+      .delete(mailItems)
+      .where(and(eq(mailItems.id, id), eq(mailItems.userId, userId), isNotNull(mailItems.deletedAt)))
+      .returning();
+    return deleted || undefined;
+  }
+
+  async emptyTrash(userId: string): Promise<MailItem[]> {
     return await db
+      .delete(mailItems)
+      .where(and(eq(mailItems.userId, userId), isNotNull(mailItems.deletedAt)))
+      .returning();
+  }
+
+  // Every user's items, trashed ones included, in id order so a backfill can page through them
+  async getMailItemsWithoutThumbnails(afterId: number, limit: number): Promise<MailItem[]> {
+    return await db
+      .select()
+      .from(mailItems)
+      .where(and(isNull(mailItems.thumbnailUrl), gt(mailItems.id, afterId)))
+      .orderBy(asc(mailItems.id))
+      .limit(limit);
+  }
+
+  async getExpiredTrashItems(deletedBefore: Date): Promise<MailItem[]> {
+    return await db
+      .select()
+      .from(mailItems)
+      .where(lt(mailItems.deletedAt, deletedBefore))
+      .orderBy(asc(mailItems.deletedAt));
+  }
+
+  // Whether any item of any user, trashed ones included, still points at a stored file
+  async isFileReferenced(url: string): Promise<boolean> {
+    const [item] = await db
+      .select({ id: mailItems.id })
+      .from(mailItems)
+      .where(or(
+        eq(mailItems.imageUrl, url),
+        eq(mailItems.originalImageUrl, url),
+        eq(mailItems.thumbnailUrl, url),
+        eq(mailItems.previewUrl, url),
+      ))
+      .limit(1);
+    return !!item;
+  }
+
+  // Structured terms become SQL filters; free text is ranked with full-text search (prefix matching),
+  // titles come back fully highlighted and body text as short fragments
+  async searchMailItems(query: SearchQuery, userId: string, page: number, pageSize: number, today: string): Promise<SearchResults> {
+    const tsquery = textQuery(query);
+    const document = mailItemSearchDocument(mailItems);
+    const matchQuery = sql`to_tsquery('english', ${tsquery || ''})`;
+    const filter = searchFilter(query, userId, today);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(mailItems)
+      .where(filter);
+    if (total === 0) return { results: [], total, page, pageSize };
+
+    const rank = tsquery ? sql<number>`ts_rank_cd(${document}, ${matchQuery})` : sql<number>`0`;
+    const titleOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+    const snippetOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+    const rows = await db
+      .select({
+        item: mailItems,
+        rank,
+        titleHighlight: tsquery
+          ? sql<string>`ts_headline('english', ${mailItems.title}, ${matchQuery}, ${titleOptions})`
+          : sql<string>`${mailItems.title}`,
+        snippet: tsquery
+          ? sql<string>`ts_headline('english', coalesce(nullif(${mailItems.extractedText}, ''), ${mailItems.summary}), ${matchQuery}, ${snippetOptions})`
+          : sql<string>`${mailItems.summary}`,
+      })
+      .from(mailItems)
+      .where(filter)
+      .orderBy(desc(rank), desc(mailItems.uploadDate))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    const items = await this.withTags(rows.map(row => row.item));
+    return {
+      results: rows.map((row, index) => ({
+        item: items[index],
+        rank: Number(row.rank),
+        titleHighlight: row.titleHighlight,
+        snippet: row.snippet,
+      })),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  async countMailItems(userId: string, query: SearchQuery | null, filters: MailItemFilters, today: string): Promise<number> {
+    // Searches include archived items, plain filters only cover the inbox, as on the dashboard
+    const base = query
+      ? searchFilter(query, userId, today)
+      : and(eq(mailItems.userId, userId), isNull(mailItems.deletedAt), isNull(mailItems.archivedAt));
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(mailItems)
+      .where(and(base, mailFiltersCondition(filters, today)));
+    return total;
+  }
+
+  async getMailItemsByCategory(category: string, userId: string): Promise<MailItemWithTags[]> {
+    const items = await db
       .select()
       .from(mailItems)
+      .where(and(eq(mailItems.category, category), eq(mailItems.userId, userId), isNull(mailItems.deletedAt)))
+      .orderBy(desc(mailItems.uploadDate));
+    return this.withTags(items);
+  }
+
+  // Custom category methods
+  async getUserCategories(userId: string): Promise<UserCategory[]> {
+    return await db
+      .select()
+      .from(userCategories)
+      .where(eq(userCategories.userId, userId))
+      .orderBy(asc(userCategories.name));
+  }
+
+  async getUserCategory(id: number, userId: string): Promise<UserCategory | undefined> {
+    const [category] = await db
+      .select()
+      .from(userCategories)
+      .where(and(eq(userCategories.id, id), eq(userCategories.userId, userId)));
+    return category || undefined;
+  }
+
+  async createUserCategory(category: InsertUserCategory): Promise<UserCategory> {
+    const [created] = await db
+      .insert(userCategories)
+      .values(category)
+      .returning();
+    return created;
+  }
+
+  async updateUserCategory(id: number, userId: string, updates: Partial<Pick<InsertUserCategory, "name" | "color" | "icon">>): Promise<UserCategory | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(userCategories)
+        .where(and(eq(userCategories.id, id), eq(userCategories.userId, userId)));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(userCategories)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(userCategories.id, id))
+        .returning();
+
+      if (updates.name && updates.name !== existing.name) {
+        await tx
+          .update(mailItems)
+          .set({ customCategories: sql`array_replace(${mailItems.customCategories}, ${existing.name}, ${updates.name})` })
+          .where(and(
+            eq(mailItems.userId, userId),
+            sql`${existing.name} = ANY(${mailItems.customCategories})`
+          ));
+        await tx
+          .update(savedSearches)
+          .set({ filters: sql`jsonb_set(${savedSearches.filters}, '{category}', to_jsonb(${`custom:${updates.name}`}::text))` })
+          .where(and(
+            eq(savedSearches.userId, userId),
+            sql`${savedSearches.filters}->>'category' = ${`custom:${existing.name}`}`
+          ));
+      }
+
+      return updated;
+    });
+  }
+
+  async mergeUserCategories(sourceId: number, targetId: number, userId: string): Promise<{ target: UserCategory; itemsUpdated: number } | undefined> {
+    return await db.transaction(async (tx) => {
+      const owned = await tx
+        .select()
+        .from(userCategories)
+        .where(and(
+          eq(userCategories.userId, userId),
+          or(eq(userCategories.id, sourceId), eq(userCategories.id, targetId))
+        ));
+      const source = owned.find(category => category.id === sourceId);
+      const target = owned.find(category => category.id === targetId);
+      if (!source || !target) return undefined;
+
+      // Replace the source name and drop duplicates on items that already had both
+      const result = await tx
+        .update(mailItems)
+        .set({
+          customCategories: sql`ARRAY(SELECT DISTINCT unnest(array_replace(${mailItems.customCategories}, ${source.name}, ${target.name})))`,
+        })
+        .where(and(
+          eq(mailItems.userId, userId),
+          sql`${source.name} = ANY(${mailItems.customCategories})`
+        ));
+
+      await tx
+        .update(savedSearches)
+        .set({ filters: sql`jsonb_set(${savedSearches.filters}, '{category}', to_jsonb(${`custom:${target.name}`}::text))` })
+        .where(and(
+          eq(savedSearches.userId, userId),
+          sql`${savedSearches.filters}->>'category' = ${`custom:${source.name}`}`
+        ));
+
+      await tx.delete(userCategories).where(eq(userCategories.id, source.id));
+
+      return { target, itemsUpdated: result.rowCount || 0 };
+    });
+  }
+
+  async deleteUserCategory(id: number, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(userCategories)
+        .where(and(eq(userCategories.id, id), eq(userCategories.userId, userId)))
+        .returning();
+      if (!deleted) return false;
+
+      // Unassign the category; the documents themselves are kept
+      await tx
+        .update(mailItems)
+        .set({ customCategories: sql`array_remove(${mailItems.customCategories}, ${deleted.name})` })
+        .where(and(
+          eq(mailItems.userId, userId),
+          sql`${deleted.name} = ANY(${mailItems.customCategories})`
+        ));
+      await tx
+        .update(savedSearches)
+        .set({ filters: sql`jsonb_set(${savedSearches.filters}, '{category}', '"all"')` })
+        .where(and(
+          eq(savedSearches.userId, userId),
+          sql`${savedSearches.filters}->>'category' = ${`custom:${deleted.name}`}`
+        ));
+
+      return true;
+    });
+  }
+
+  // Analysis job queue methods
+  async createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const [created] = await db
+      .insert(analysisJobs)
+      .values(job)
+      .returning();
+    return created;
+  }
+
+  async claimNextAnalysisJob(now: Date): Promise<AnalysisJob | undefined> {
+    const [next] = await db
+      .select()
+      .from(analysisJobs)
+      .where(and(eq(analysisJobs.status, "queued"), lte(analysisJobs.runAt, now)))
+      .orderBy(asc(analysisJobs.runAt))
+      .limit(1);
+    if (!next) return undefined;
+
+    // Only claim the job if no other worker got to it first
+    const [claimed] = await db
+      .update(analysisJobs)
+      .set({ status: "running", attempts: next.attempts + 1, updatedAt: now })
+      .where(and(eq(analysisJobs.id, next.id), eq(analysisJobs.status, "queued")))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async completeAnalysisJob(id: number): Promise<void> {
+    await db
+      .update(analysisJobs)
+      .set({ status: "completed", lastError: null, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id));
+  }
+
+  async failAnalysisJob(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(analysisJobs)
+      .set({
+        status: retryAt ? "queued" : "failed",
+        lastError: error,
+        ...(retryAt && { runAt: retryAt }),
+        updatedAt: new Date(),
+      })
+      .where(eq(analysisJobs.id, id));
+  }
+
+  async requeueStaleAnalysisJobs(startedBefore: Date): Promise<number> {
+    const result = await db
+      .update(analysisJobs)
+      .set({ status: "queued", updatedAt: new Date() })
+      .where(and(eq(analysisJobs.status, "running"), lt(analysisJobs.updatedAt, startedBefore)));
+    return result.rowCount || 0;
+  }
+
+  // Reminder notification methods
+  // Items whose reminder date has arrived (in UTC terms) and have not been notified for that date yet. Dates before
+  // notBefore or before the item was uploaded were already past when the scheduler could first have seen them.
+  async getDueReminderItems(onOrBefore: string, notBefore: string): Promise<DueReminderItem[]> {
+    return await db
+      .select({
+        item: mailItems,
+        timezone: userSettings.timezone,
+        reminderNotifications: userSettings.reminderNotifications,
+        emailNotifications: userSettings.emailNotifications,
+      })
+      .from(mailItems)
+      .leftJoin(userSettings, eq(userSettings.userId, mailItems.userId))
       .where(
         and(
-          eq(mailItems.userId, userId),
-          or(
-            ilike(mailItems.title, `%${query}%`),
-            ilike(mailItems.summary, `%${query}%`),
-            ilike(mailItems.category, `%${query}%`),
-            ilike(mailItems.extractedText, `%${query}%`)
-          )
+          isNull(mailItems.deletedAt),
+          isNotNull(mailItems.reminderDate),
+          ne(mailItems.reminderDate, ""),
+          lte(mailItems.reminderDate, onOrBefore),
+          gte(mailItems.reminderDate, notBefore),
+          sql`${mailItems.reminderDate} >= to_char(${mailItems.uploadDate}, 'YYYY-MM-DD')`,
+          sql`not exists (select 1 from ${notifications} where ${notifications.mailItemId} = ${mailItems.id} and ${notifications.reminderDate} = ${mailItems.reminderDate})`
         )
       )
-      .orderBy(desc(mailItems.uploadDate));
+      .orderBy(asc(mailItems.reminderDate));
+  }
+
+  // Returns undefined when a notification already exists for this item and reminder date
+  async createNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    const [created] = await db
+      .insert(notifications)
+      .values(notification)
+      .onConflictDoNothing()
+      .returning();
+    return created || undefined;
+  }
+
+  async getNotifications(userId: string): Promise<NotificationWithItem[]> {
+    const rows = await db
+      .select({
+        notification: notifications,
+        mailItem: {
+          id: mailItems.id,
+          title: mailItems.title,
+          summary: mailItems.summary,
+          reminderDate: mailItems.reminderDate,
+        },
+      })
+      .from(notifications)
+      .innerJoin(mailItems, eq(mailItems.id, notifications.mailItemId))
+      .where(and(eq(notifications.userId, userId), eq(notifications.status, "delivered"), isNull(mailItems.deletedAt)))
+      .orderBy(desc(notifications.deliveredAt))
+      .limit(50);
+    return rows.map(row => ({ ...row.notification, mailItem: row.mailItem }));
+  }
+
+  async getNotification(id: number, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
+    return notification || undefined;
+  }
+
+  async updateNotification(id: number, userId: string, updates: Partial<InsertNotification>): Promise<Notification | undefined> {
+    const [updated] = await db
+      .update(notifications)
+      .set(updates)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async markNotificationsRead(userId: string): Promise<number> {
+    const result = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.status, "delivered"),
+        sql`${notifications.readAt} is null`
+      ));
+    return result.rowCount || 0;
   }
 
-  async getMailItemsByCategory(category: string, userId: string): Promise<MailItem[]> {
+  async getDueSnoozedNotifications(now: Date): Promise<Notification[]> {
     return await db
       .select()
-      .from(mailItems)
-      .where(and(eq(mailItems.category, category), eq(mailItems.userId, userId)))
-      .orderBy(desc(mailItems.uploadDate));
+      .from(notifications)
+      .where(and(eq(notifications.status, "snoozed"), lte(notifications.snoozedUntil, now)))
+      .orderBy(asc(notifications.snoozedUntil));
+  }
+
+  async getDigestRecipients(): Promise<DigestRecipient[]> {
+    return await db
+      .select({ user: users, timezone: userSettings.timezone })
+      .from(userSettings)
+      .innerJoin(users, eq(users.id, userSettings.userId))
+      .where(and(eq(userSettings.weeklyDigest, true), isNotNull(users.email)));
+  }
+
+  // Returns undefined when the digest for this week was already sent, is in flight (sending since before staleBefore
+  // counts as interrupted and is claimed again), or has run out of retries
+  async claimDigestDelivery(userId: string, weekStart: string, maxAttempts: number, staleBefore: Date): Promise<DigestDelivery | undefined> {
+    const [claimed] = await db
+      .insert(digestDeliveries)
+      .values({ userId, weekStart })
+      .onConflictDoUpdate({
+        target: [digestDeliveries.userId, digestDeliveries.weekStart],
+        set: {
+          status: "sending",
+          attempts: sql`${digestDeliveries.attempts} + 1`,
+          updatedAt: new Date(),
+        },
+        setWhere: and(
+          or(
+            eq(digestDeliveries.status, "failed"),
+            and(eq(digestDeliveries.status, "sending"), lt(digestDeliveries.updatedAt, staleBefore)),
+          ),
+          lt(digestDeliveries.attempts, maxAttempts),
+        ),
+      })
+      .returning();
+    return claimed || undefined;
+  }
+
+  async updateDigestDelivery(id: number, updates: Partial<Pick<DigestDelivery, "status" | "itemCount" | "lastError" | "sentAt">>): Promise<DigestDelivery | undefined> {
+    const [updated] = await db
+      .update(digestDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(digestDeliveries.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getRetentionPolicies(userId: string): Promise<RetentionPolicy[]> {
+    return await db
+      .select()
+      .from(retentionPolicies)
+      .where(eq(retentionPolicies.userId, userId));
+  }
+
+  async saveRetentionPolicies(userId: string, policies: RetentionPolicyInput[]): Promise<RetentionPolicy[]> {
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < policies.length; i++) {
+        const { category, retentionDays } = policies[i];
+        await tx
+          .insert(retentionPolicies)
+          .values({ userId, category, retentionDays })
+          .onConflictDoUpdate({
+            target: [retentionPolicies.userId, retentionPolicies.category],
+            set: { retentionDays, updatedAt: new Date() },
+          });
+      }
+    });
+    return this.getRetentionPolicies(userId);
+  }
+
+  async getAutoDeleteUserIds(): Promise<string[]> {
+    const rows = await db
+      .select({ userId: userSettings.userId })
+      .from(userSettings)
+      .where(eq(userSettings.autoDeleteOldItems, true));
+    return rows.map(row => row.userId);
+  }
+
+  // Saved search (smart folder) methods
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return await db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.pinned), asc(savedSearches.position), asc(savedSearches.id));
+  }
+
+  async getSavedSearch(id: number, userId: string): Promise<SavedSearch | undefined> {
+    const [search] = await db
+      .select()
+      .from(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)));
+    return search || undefined;
+  }
+
+  async createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch> {
+    // New folders go to the end of the list
+    const [created] = await db
+      .insert(savedSearches)
+      .values({
+        ...search,
+        position: sql`(select coalesce(max(${savedSearches.position}), -1) + 1 from ${savedSearches} where ${savedSearches.userId} = ${search.userId})`,
+      })
+      .returning();
+    return created;
+  }
+
+  async updateSavedSearch(id: number, userId: string, updates: Partial<Pick<InsertSavedSearch, "name" | "filters" | "pinned">>): Promise<SavedSearch | undefined> {
+    const [updated] = await db
+      .update(savedSearches)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Positions follow the given order; folders missing from the list keep their relative order after it
+  async reorderSavedSearches(userId: string, ids: number[]): Promise<SavedSearch[]> {
+    await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ id: savedSearches.id })
+        .from(savedSearches)
+        .where(eq(savedSearches.userId, userId))
+        .orderBy(asc(savedSearches.position), asc(savedSearches.id));
+
+      const ownedIds = new Set(existing.map(search => search.id));
+      const ordered = ids.filter((id, index) => ownedIds.has(id) && ids.indexOf(id) === index);
+      existing.forEach(search => {
+        if (!ordered.includes(search.id)) ordered.push(search.id);
+      });
+
+      for (let position = 0; position < ordered.length; position++) {
+        await tx
+          .update(savedSearches)
+          .set({ position })
+          .where(eq(savedSearches.id, ordered[position]));
+      }
+    });
+
+    return this.getSavedSearches(userId);
+  }
+
+  async deleteSavedSearch(id: number, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // IMAP import methods
+  async getEmailImportAccount(userId: string): Promise<EmailImportAccount | undefined> {
+    const [account] = await db.select().from(emailImportAccounts).where(eq(emailImportAccounts.userId, userId));
+    return account || undefined;
+  }
+
+  async getEnabledEmailImportAccounts(): Promise<EmailImportAccount[]> {
+    return await db.select().from(emailImportAccounts).where(eq(emailImportAccounts.enabled, true));
+  }
+
+  async saveEmailImportAccount(account: InsertEmailImportAccount): Promise<EmailImportAccount> {
+    const { userId, ...updates } = account;
+    const [saved] = await db
+      .insert(emailImportAccounts)
+      .values(account)
+      .onConflictDoUpdate({
+        target: emailImportAccounts.userId,
+        set: { ...updates, lastError: null, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateEmailImportStatus(id: number, updates: Partial<Pick<EmailImportAccount, "lastPolledAt" | "lastError">>): Promise<void> {
+    await db.update(emailImportAccounts).set(updates).where(eq(emailImportAccounts.id, id));
+  }
+
+  async deleteEmailImportAccount(userId: string): Promise<boolean> {
+    const result = await db.delete(emailImportAccounts).where(eq(emailImportAccounts.userId, userId));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getImportedEmailUids(accountId: number, folder: string, uidValidity: number): Promise<number[]> {
+    const rows = await db
+      .select({ uid: importedEmailMessages.uid })
+      .from(importedEmailMessages)
+      .where(and(
+        eq(importedEmailMessages.accountId, accountId),
+        eq(importedEmailMessages.folder, folder),
+        eq(importedEmailMessages.uidValidity, uidValidity),
+      ));
+    return rows.map(row => row.uid);
+  }
+
+  async markEmailMessagesImported(accountId: number, folder: string, uidValidity: number, uids: number[]): Promise<void> {
+    if (uids.length === 0) return;
+    await db
+      .insert(importedEmailMessages)
+      .values(uids.map(uid => ({ accountId, folder, uidValidity, uid })))
+      .onConflictDoNothing();
+  }
+
+  async getAllEmailImportAccounts(): Promise<EmailImportAccount[]> {
+    return await db.select().from(emailImportAccounts);
+  }
+
+  async updateEmailImportPassword(id: number, encryptedPassword: string): Promise<void> {
+    await db.update(emailImportAccounts).set({ encryptedPassword }).where(eq(emailImportAccounts.id, id));
+  }
+
+  // SMTP settings methods
+  async getUserEmailConfig(userId: string): Promise<UserEmailConfig | undefined> {
+    const [config] = await db.select().from(userEmailConfigs).where(eq(userEmailConfigs.userId, userId));
+    return config || undefined;
+  }
+
+  async getAllUserEmailConfigs(): Promise<UserEmailConfig[]> {
+    return await db.select().from(userEmailConfigs);
+  }
+
+  async saveUserEmailConfig(config: InsertUserEmailConfig): Promise<UserEmailConfig> {
+    const { userId, ...updates } = config;
+    const [saved] = await db
+      .insert(userEmailConfigs)
+      .values(config)
+      .onConflictDoUpdate({
+        target: userEmailConfigs.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateUserEmailConfigPassword(userId: string, encryptedPassword: string): Promise<void> {
+    await db.update(userEmailConfigs).set({ encryptedPassword }).where(eq(userEmailConfigs.userId, userId));
+  }
+
+  async deleteUserEmailConfig(userId: string): Promise<boolean> {
+    const result = await db.delete(userEmailConfigs).where(eq(userEmailConfigs.userId, userId));
+    return (result.rowCount || 0) > 0;
   }
 
   // Profile methods
@@ -220,4 +1422,5 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE=memory keeps everything in process memory (local development and tests, no PostgreSQL needed)
+export const storage: IStorage = process.env.STORAGE === "memory" ? new MemStorage() : new DatabaseStorage();
@@ -0,0 +1,125 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import { storage } from "../storage";
+import { authCookie, createTestUser, request, startTestServer, type TestServer } from "./harness";
+
+const credentials = { email: "ada@example.com", password: "correct horse battery", firstName: "Ada", lastName: "Lovelace" };
+
+describe("registration and login", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  test("registers a new user and signs them in with a cookie", async () => {
+    const response = await request(server, "/api/auth/register", { method: "POST", json: credentials });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.user.email, credentials.email);
+    assert.equal(response.body.user.provider, "email");
+    assert.equal(response.body.user.passwordHash, undefined);
+
+    const cookie = authCookie(response);
+    assert.ok(cookie, "sets the auth_token cookie");
+    const me = await request(server, "/api/auth/user", { cookie });
+    assert.equal(me.status, 200);
+    assert.equal(me.body.firstName, "Ada");
+  });
+
+  test("rejects a second registration with the same email", async () => {
+    const response = await request(server, "/api/auth/register", { method: "POST", json: credentials });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "User already exists");
+  });
+
+  test("rejects invalid registration input", async () => {
+    const response = await request(server, "/api/auth/register", {
+      method: "POST",
+      json: { ...credentials, email: "not-an-email", password: "short" },
+    });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "Invalid input data");
+    assert.deepEqual(response.body.details.map((issue: { path: string[] }) => issue.path[0]).sort(), ["email", "password"]);
+  });
+
+  test("refuses a wrong password", async () => {
+    const response = await request(server, "/api/auth/login", {
+      method: "POST",
+      json: { email: credentials.email, password: "wrong password" },
+    });
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error, "Invalid credentials");
+    assert.equal(authCookie(response), undefined);
+  });
+
+  test("logs in with the right password", async () => {
+    const response = await request(server, "/api/auth/login", {
+      method: "POST",
+      json: { email: credentials.email, password: credentials.password },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.user.email, credentials.email);
+    assert.ok(authCookie(response));
+  });
+
+  test("rate limits repeated auth attempts", async () => {
+    const response = await request(server, "/api/auth/login", {
+      method: "POST",
+      json: { email: credentials.email, password: credentials.password },
+    });
+    assert.equal(response.status, 429);
+  });
+});
+
+describe("token and cookie authentication", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  test("accepts a bearer token", async () => {
+    const { user, token } = await createTestUser("bearer");
+    const response = await request(server, "/api/auth/user", { token });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.id, user.id);
+  });
+
+  test("accepts the auth_token cookie", async () => {
+    const { user, token } = await createTestUser("cookie");
+    const response = await request(server, "/api/auth/user", { cookie: `auth_token=${token}` });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.id, user.id);
+  });
+
+  test("requires a token", async () => {
+    const response = await request(server, "/api/auth/user");
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error, "Access token required");
+  });
+
+  test("rejects tampered and foreign-signed tokens", async () => {
+    const { user, token } = await createTestUser("tampered");
+    const tampered = `${token.slice(0, -2)}xx`;
+    const forged = jwt.sign({ userId: user.id }, "some other secret");
+
+    for (const bad of [tampered, forged, "garbage"]) {
+      const response = await request(server, "/api/auth/user", { token: bad });
+      assert.equal(response.status, 403, `token ${bad.slice(0, 12)}…`);
+      assert.equal(response.body.error, "Invalid or expired token");
+    }
+  });
+
+  test("rejects a valid token for a user that no longer exists", async () => {
+    const { user, token } = await createTestUser("deleted");
+    await storage.deleteUser(user.id);
+    const response = await request(server, "/api/auth/user", { token });
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error, "User not found");
+  });
+
+  test("logout clears the cookie", async () => {
+    const response = await request(server, "/api/auth/logout", { method: "POST" });
+    assert.equal(response.status, 200);
+    const cookie = response.headers.getSetCookie().find(value => value.startsWith("auth_token="));
+    assert.match(cookie || "", /^auth_token=;.*Expires=Thu, 01 Jan 1970/);
+  });
+});
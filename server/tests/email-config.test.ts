@@ -0,0 +1,233 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import type { AddressInfo } from "net";
+import { SMTPServer } from "smtp-server";
+import { storage } from "../storage";
+import { checkCredentialKeys, decryptCredential, encryptCredential, needsReencryption } from "../credential-crypto";
+import { createTestUser, request, startTestServer, type TestServer } from "./harness";
+
+const SMTP_PASSWORD = "smtp app password";
+
+function credentialKey(id: string): string {
+  return `${id}:${crypto.randomBytes(32).toString("base64")}`;
+}
+
+// A local SMTP server that accepts one password, standing in for the user's provider
+async function startSmtpServer(): Promise<{ port: number; close: () => Promise<void> }> {
+  const server = new SMTPServer({
+    disabledCommands: ["STARTTLS"],
+    allowInsecureAuth: true,
+    logger: false,
+    onAuth(auth, _session, callback) {
+      if (auth.password === SMTP_PASSWORD) {
+        callback(null, { user: auth.username });
+      } else {
+        callback(new Error("Invalid login"));
+      }
+    },
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return {
+    port: (server.server.address() as AddressInfo).port,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+describe("credential encryption", () => {
+  const originalKeys = process.env.CREDENTIAL_KEYS;
+  after(() => {
+    if (originalKeys === undefined) delete process.env.CREDENTIAL_KEYS;
+    else process.env.CREDENTIAL_KEYS = originalKeys;
+  });
+
+  test("round-trips and never stores the plain value", () => {
+    const first = encryptCredential("secret");
+    const second = encryptCredential("secret");
+    assert.ok(!first.includes("secret"));
+    assert.notEqual(first, second, "a new IV for every value");
+    assert.equal(decryptCredential(first), "secret");
+    assert.equal(decryptCredential(second), "secret");
+  });
+
+  test("rejects a tampered value", () => {
+    const [id, iv, tag, encrypted] = encryptCredential("secret").split(":");
+    const flipped = Buffer.from(encrypted, "base64");
+    flipped[0] ^= 1;
+    assert.throws(() => decryptCredential([id, iv, tag, flipped.toString("base64")].join(":")));
+  });
+
+  test("keeps older keys readable after rotating", () => {
+    const oldKey = credentialKey("2025");
+    const newKey = credentialKey("2026");
+
+    process.env.CREDENTIAL_KEYS = oldKey;
+    const stored = encryptCredential("secret");
+    assert.equal(needsReencryption(stored), false);
+
+    // The new key encrypts; the old one still decrypts until everything is re-encrypted
+    process.env.CREDENTIAL_KEYS = `${newKey},${oldKey}`;
+    assert.equal(needsReencryption(stored), true);
+    assert.equal(decryptCredential(stored), "secret");
+    const rotated = encryptCredential(decryptCredential(stored));
+    assert.match(rotated, /^2026:/);
+    assert.equal(needsReencryption(rotated), false);
+
+    process.env.CREDENTIAL_KEYS = newKey;
+    assert.equal(decryptCredential(rotated), "secret");
+    assert.throws(() => decryptCredential(stored), /key "2025"/);
+  });
+
+  test("reads import passwords saved in the earlier format until they are re-encrypted", () => {
+    const originalSecret = process.env.EMAIL_IMPORT_SECRET;
+    process.env.EMAIL_IMPORT_SECRET = "import secret";
+    try {
+      const key = crypto.createHash("sha256").update("import secret").digest();
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+      const encrypted = Buffer.concat([cipher.update("secret", "utf8"), cipher.final()]);
+      const legacy = [iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64")).join(":");
+
+      process.env.CREDENTIAL_KEYS = credentialKey("2026");
+      assert.equal(decryptCredential(legacy), "secret");
+      assert.equal(needsReencryption(legacy), true);
+      const rotated = encryptCredential(decryptCredential(legacy));
+      assert.match(rotated, /^2026:/);
+      assert.equal(decryptCredential(rotated), "secret");
+    } finally {
+      if (originalSecret === undefined) delete process.env.EMAIL_IMPORT_SECRET;
+      else process.env.EMAIL_IMPORT_SECRET = originalSecret;
+    }
+  });
+
+  test("needs a server secret in production", () => {
+    const originalEnv = process.env.NODE_ENV;
+    const originalJwtSecret = process.env.JWT_SECRET;
+    process.env.CREDENTIAL_KEYS = credentialKey("2026");
+    encryptCredential("secret");
+    try {
+      process.env.NODE_ENV = "production";
+      delete process.env.CREDENTIAL_KEYS;
+      delete process.env.JWT_SECRET;
+      assert.throws(() => checkCredentialKeys(), /CREDENTIAL_KEYS/);
+      assert.throws(() => encryptCredential("secret"), /CREDENTIAL_KEYS/);
+    } finally {
+      if (originalEnv === undefined) delete process.env.NODE_ENV;
+      else process.env.NODE_ENV = originalEnv;
+      if (originalJwtSecret !== undefined) process.env.JWT_SECRET = originalJwtSecret;
+    }
+  });
+
+  test("rejects malformed keys", () => {
+    process.env.CREDENTIAL_KEYS = "short:c2hvcnQ=";
+    assert.throws(() => encryptCredential("secret"), /CREDENTIAL_KEYS/);
+  });
+});
+
+describe("email settings", () => {
+  let server: TestServer;
+  let smtp: { port: number; close: () => Promise<void> };
+  before(async () => {
+    server = await startTestServer();
+    smtp = await startSmtpServer();
+  });
+  after(async () => {
+    await smtp.close();
+    await server.close();
+  });
+
+  function settings(changes: Record<string, unknown> = {}) {
+    return { host: "127.0.0.1", port: smtp.port, secure: false, username: "someone@example.org", password: SMTP_PASSWORD, ...changes };
+  }
+
+  test("is empty until set up", async () => {
+    const { token } = await createTestUser("unset");
+    const response = await request(server, "/api/email/config", { token });
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, { config: null });
+  });
+
+  test("saves verified settings with the password encrypted and never returned", async () => {
+    const { user, token } = await createTestUser("sender");
+    const response = await request(server, "/api/email/config", {
+      method: "PUT",
+      token,
+      json: settings({ fromName: "Someone" }),
+    });
+    assert.equal(response.status, 200);
+    const { config } = response.body;
+    assert.equal(config.host, "127.0.0.1");
+    assert.equal(config.username, "someone@example.org");
+    assert.equal(config.fromName, "Someone");
+    assert.ok(config.verifiedAt);
+    assert.equal(config.encryptedPassword, undefined);
+    assert.ok(!JSON.stringify(response.body).includes(SMTP_PASSWORD));
+
+    const saved = await storage.getUserEmailConfig(user.id);
+    assert.ok(!saved?.encryptedPassword.includes(SMTP_PASSWORD));
+    assert.equal(decryptCredential(saved!.encryptedPassword), SMTP_PASSWORD);
+
+    const fetched = await request(server, "/api/email/config", { token });
+    assert.deepEqual(fetched.body, response.body);
+
+    // The saved settings are what the user's emails are sent with
+    const tested = await request(server, "/api/email/test-config", { token });
+    assert.equal(tested.body.success, true);
+  });
+
+  test("is not saved when the mail server refuses the login", async () => {
+    const { user, token } = await createTestUser("refused");
+    const response = await request(server, "/api/email/config", {
+      method: "PUT",
+      token,
+      json: settings({ password: "wrong password" }),
+    });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "Could not log in to the mail server");
+    assert.ok(response.body.details);
+    assert.equal(await storage.getUserEmailConfig(user.id), undefined);
+  });
+
+  test("keeps the saved password only for the same server and username", async () => {
+    const { token } = await createTestUser("updater");
+    await request(server, "/api/email/config", { method: "PUT", token, json: settings() });
+
+    const sameAccount = await request(server, "/api/email/config", {
+      method: "PUT",
+      token,
+      json: settings({ password: undefined, fromName: "Renamed" }),
+    });
+    assert.equal(sameAccount.status, 200);
+    assert.equal(sameAccount.body.config.fromName, "Renamed");
+
+    // Pointing it at another server or login needs that account's password
+    const changes = [{ host: "localhost" }, { port: smtp.port + 1 }, { username: "other@example.org" }];
+    for (let i = 0; i < changes.length; i++) {
+      const changed = await request(server, "/api/email/config", {
+        method: "PUT",
+        token,
+        json: settings({ password: undefined, ...changes[i] }),
+      });
+      assert.equal(changed.status, 400);
+      assert.equal(changed.body.error, "Password is required");
+    }
+  });
+
+  test("rejects invalid settings", async () => {
+    const { token } = await createTestUser("invalid");
+    const response = await request(server, "/api/email/config", { method: "PUT", token, json: settings({ port: 0 }) });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "Invalid input data");
+  });
+
+  test("can be removed", async () => {
+    const { user, token } = await createTestUser("remover");
+    await request(server, "/api/email/config", { method: "PUT", token, json: settings() });
+    const removed = await request(server, "/api/email/config", { method: "DELETE", token });
+    assert.equal(removed.status, 200);
+    assert.equal(await storage.getUserEmailConfig(user.id), undefined);
+
+    const again = await request(server, "/api/email/config", { method: "DELETE", token });
+    assert.equal(again.status, 404);
+  });
+});
@@ -0,0 +1,263 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { PDFDocument } from "pdf-lib";
+import MailComposer from "nodemailer/lib/mail-composer";
+import type Mail from "nodemailer/lib/mailer";
+import { storage } from "../storage";
+import { pollEmailImportAccount, type MailboxOpener } from "../imap-importer";
+import { decryptCredential, encryptCredential } from "../credential-crypto";
+import { createTestUser, request, startTestServer, type TestServer, type TestUser } from "./harness";
+
+function composeEmail(options: Mail.Options): Promise<Buffer> {
+  return new MailComposer({ to: "me@example.com", text: "Your latest bill is attached.", ...options }).compile().build();
+}
+
+async function billPdf(): Promise<Buffer> {
+  const document = await PDFDocument.create();
+  document.addPage();
+  return Buffer.from(await document.save());
+}
+
+// A folder of raw messages by UID, standing in for the IMAP server
+function fakeMailbox(messages: Map<number, Buffer>, uidValidity = 7): MailboxOpener {
+  return async () => ({
+    uidValidity,
+    async searchSince() {
+      return Array.from(messages.keys());
+    },
+    async fetchSource(uid) {
+      return messages.get(uid);
+    },
+    async close() {},
+  });
+}
+
+describe("email import settings", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  test("is empty until set up", async () => {
+    const { token } = await createTestUser("new");
+    const response = await request(server, "/api/email-import", { token });
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, { account: null });
+  });
+
+  test("fills in the IMAP server for known providers and never returns the password", async () => {
+    const { user, token } = await createTestUser("gmail");
+    const response = await request(server, "/api/email-import", {
+      method: "PUT",
+      token,
+      json: { email: "someone@gmail.com", password: "app password", senderFilters: ["Octopus Energy"] },
+    });
+    assert.equal(response.status, 200);
+    const { account } = response.body;
+    assert.equal(account.host, "imap.gmail.com");
+    assert.equal(account.port, 993);
+    assert.equal(account.secure, true);
+    assert.equal(account.username, "someone@gmail.com");
+    assert.equal(account.folder, "INBOX");
+    assert.deepEqual(account.senderFilters, ["Octopus Energy"]);
+    assert.equal(account.encryptedPassword, undefined);
+
+    const saved = await storage.getEmailImportAccount(user.id);
+    assert.notEqual(saved?.encryptedPassword, "app password");
+    assert.equal(decryptCredential(saved!.encryptedPassword), "app password");
+
+    // Leaving the password out keeps the saved one
+    const update = await request(server, "/api/email-import", {
+      method: "PUT",
+      token,
+      json: { email: "someone@gmail.com", folder: "Bills", enabled: false },
+    });
+    assert.equal(update.body.account.folder, "Bills");
+    assert.equal(update.body.account.enabled, false);
+    assert.equal(decryptCredential((await storage.getEmailImportAccount(user.id))!.encryptedPassword), "app password");
+
+    // Pointing it at another server or login needs that account's password
+    const changes = [{ email: "someone@gmail.com", host: "imap.example.org" }, { email: "someone@gmail.com", port: 143 }, { email: "other@gmail.com" }];
+    for (let i = 0; i < changes.length; i++) {
+      const changed = await request(server, "/api/email-import", { method: "PUT", token, json: changes[i] });
+      assert.equal(changed.status, 400);
+      assert.equal(changed.body.error, "Password is required");
+    }
+    assert.equal((await storage.getEmailImportAccount(user.id))?.host, "imap.gmail.com");
+  });
+
+  test("needs a password and, for unknown providers, a server", async () => {
+    const { token } = await createTestUser("incomplete");
+    const noPassword = await request(server, "/api/email-import", { method: "PUT", token, json: { email: "someone@gmail.com" } });
+    assert.equal(noPassword.status, 400);
+    assert.equal(noPassword.body.error, "Password is required");
+
+    const noServer = await request(server, "/api/email-import", {
+      method: "PUT",
+      token,
+      json: { email: "someone@example.org", password: "secret" },
+    });
+    assert.equal(noServer.status, 400);
+    assert.equal(noServer.body.error, "Enter the IMAP server for this email provider");
+
+    const withServer = await request(server, "/api/email-import", {
+      method: "PUT",
+      token,
+      json: { email: "someone@example.org", password: "secret", host: "mail.example.org" },
+    });
+    assert.equal(withServer.status, 200);
+    assert.equal(withServer.body.account.host, "mail.example.org");
+  });
+
+  test("rejects invalid settings", async () => {
+    const { token } = await createTestUser("invalid");
+    const response = await request(server, "/api/email-import", { method: "PUT", token, json: { email: "not an email", password: "x" } });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "Invalid input data");
+  });
+
+  test("can be removed", async () => {
+    const { user, token } = await createTestUser("remover");
+    await request(server, "/api/email-import", { method: "PUT", token, json: { email: "someone@icloud.com", password: "secret" } });
+    const removed = await request(server, "/api/email-import", { method: "DELETE", token });
+    assert.equal(removed.status, 200);
+    assert.equal(await storage.getEmailImportAccount(user.id), undefined);
+
+    const again = await request(server, "/api/email-import", { method: "DELETE", token });
+    assert.equal(again.status, 404);
+  });
+
+  test("reports a mailbox that cannot be reached", async () => {
+    const { user, token } = await createTestUser("unreachable");
+    await request(server, "/api/email-import", {
+      method: "PUT",
+      token,
+      // Nothing listens on port 1
+      json: { email: "someone@example.org", password: "secret", host: "127.0.0.1", port: 1, secure: false },
+    });
+
+    const response = await request(server, "/api/email-import/run", { method: "POST", token });
+    assert.equal(response.status, 502);
+    assert.equal(response.body.error, "Could not import from the mailbox");
+    assert.ok((await storage.getEmailImportAccount(user.id))?.lastError, "keeps the error for the settings page");
+  });
+});
+
+describe("email import polling", () => {
+  let server: TestServer;
+  let owner: TestUser;
+  before(async () => {
+    server = await startTestServer();
+    owner = await createTestUser("importer");
+  });
+  after(() => server.close());
+
+  test("imports PDF attachments of matching messages once", async () => {
+    const account = await storage.saveEmailImportAccount({
+      userId: owner.user.id,
+      email: "someone@gmail.com",
+      host: "imap.gmail.com",
+      username: "someone@gmail.com",
+      encryptedPassword: encryptCredential("secret"),
+      senderFilters: ["octopus"],
+      subjectFilters: ["bill", "statement"],
+    });
+    const pdf = await billPdf();
+    const messages = new Map<number, Buffer>([
+      [11, await composeEmail({
+        from: '"Octopus Energy" <hello@octopus.energy>',
+        subject: "Your October bill",
+        attachments: [{ filename: "bill.pdf", content: pdf, contentType: "application/pdf" }],
+      })],
+      [12, await composeEmail({
+        from: '"Octopus Energy" <hello@octopus.energy>',
+        subject: "Save energy this winter",
+        attachments: [{ filename: "tips.pdf", content: pdf, contentType: "application/pdf" }],
+      })],
+      [13, await composeEmail({
+        from: "statements@octopus.energy",
+        subject: "Annual statement",
+        attachments: [{ filename: "chart.png", content: Buffer.from("not really a png"), contentType: "image/png" }],
+      })],
+      [14, await composeEmail({
+        from: "newsletter@example.com",
+        subject: "Your bill of rights",
+        attachments: [{ filename: "rights.pdf", content: pdf, contentType: "application/pdf" }],
+      })],
+    ]);
+
+    const first = await pollEmailImportAccount(account, fakeMailbox(messages));
+    assert.deepEqual(first, { checked: 4, matched: 2, imported: 1, failed: 0 });
+
+    const items = await storage.getAllMailItems(owner.user.id);
+    assert.equal(items.length, 1);
+    const [item] = items;
+    try {
+      assert.equal(item.fileName, "bill.pdf");
+      assert.equal(item.status, "pending");
+      assert.deepEqual(item.tags, ["Octopus Energy"]);
+
+      const polled = await storage.getEmailImportAccount(owner.user.id);
+      assert.ok(polled?.lastPolledAt);
+      assert.equal(polled?.lastError, null);
+
+      // Seen messages are skipped; only the new one is looked at
+      const second = await pollEmailImportAccount(polled!, fakeMailbox(messages));
+      assert.deepEqual(second, { checked: 0, matched: 0, imported: 0, failed: 0 });
+
+      messages.set(15, await composeEmail({ from: "hello@octopus.energy", subject: "Welcome" }));
+      const third = await pollEmailImportAccount(polled!, fakeMailbox(messages));
+      assert.deepEqual(third, { checked: 1, matched: 0, imported: 0, failed: 0 });
+      assert.equal((await storage.getAllMailItems(owner.user.id)).length, 1);
+    } finally {
+      // Remove the stored files again
+      await request(server, `/api/mail-items/${item.id}`, { method: "DELETE", token: owner.token });
+      await request(server, `/api/trash/${item.id}`, { method: "DELETE", token: owner.token });
+    }
+  });
+
+  test("skips a message that fails to import and carries on with the rest", async () => {
+    const { user, token } = await createTestUser("partial");
+    const account = await storage.saveEmailImportAccount({
+      userId: user.id,
+      email: "someone@gmail.com",
+      host: "imap.gmail.com",
+      username: "someone@gmail.com",
+      encryptedPassword: encryptCredential("secret"),
+    });
+    const pdf = await billPdf();
+    const bill = (filename: string) => composeEmail({
+      from: "hello@octopus.energy",
+      subject: "Your bill",
+      attachments: [{ filename, content: pdf, contentType: "application/pdf" }],
+    });
+    const messages = new Map<number, Buffer>([[21, await bill("broken.pdf")], [22, await bill("bill.pdf")]]);
+
+    // Saving the first message's sender tag fails
+    const setMailItemTags = storage.setMailItemTags;
+    let calls = 0;
+    storage.setMailItemTags = async (...args) => {
+      if (calls++ === 0) throw new Error("Storage unavailable");
+      return setMailItemTags.apply(storage, args);
+    };
+    try {
+      const first = await pollEmailImportAccount(account, fakeMailbox(messages));
+      assert.deepEqual(first, { checked: 2, matched: 2, imported: 1, failed: 1 });
+    } finally {
+      storage.setMailItemTags = setMailItemTags;
+    }
+
+    const polled = await storage.getEmailImportAccount(user.id);
+    assert.match(polled?.lastError ?? "", /^Message 21: Storage unavailable/);
+
+    // The failed message is not retried, so it can't hold up newer mail
+    const second = await pollEmailImportAccount(polled!, fakeMailbox(messages));
+    assert.deepEqual(second, { checked: 0, matched: 0, imported: 0, failed: 0 });
+    assert.equal((await storage.getEmailImportAccount(user.id))?.lastError, null);
+
+    const items = await storage.getAllMailItems(user.id);
+    for (let i = 0; i < items.length; i++) {
+      await request(server, `/api/mail-items/${items[i].id}`, { method: "DELETE", token });
+      await request(server, `/api/trash/${items[i].id}`, { method: "DELETE", token });
+    }
+  });
+});
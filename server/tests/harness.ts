@@ -0,0 +1,123 @@
+// Boots the API on a random port against in-memory storage and a stub analysis provider, for the route tests
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { registerRoutes } from "../routes";
+import { setAnalysisProvider, type AnalysisProvider } from "../analysis-providers";
+import { storage } from "../storage";
+import { generateToken } from "../auth";
+import type { User } from "@shared/schema";
+
+if (process.env.STORAGE !== "memory") {
+  throw new Error("The API tests run against in-memory storage; start them with STORAGE=memory (npm test)");
+}
+
+// Fixed results, no OCR or network calls
+export const stubAnalysisProvider: AnalysisProvider = {
+  name: "stub",
+  async extractText(_image, _mimeType, context) {
+    return `Stub Energy bill for ${context.fileName}. Amount due £42.50 by 2030-01-31.`;
+  },
+  async classifyText(text) {
+    return {
+      title: "Stub Energy bill",
+      summary: text,
+      category: "bill",
+      tags: ["bill", "energy"],
+      reminderDate: "2030-01-31",
+      extractedFields: { sender: "Stub Energy", amountDue: { value: 42.5, currency: "GBP" }, dueDate: "2030-01-31" },
+    };
+  },
+  async classifyFileName(fileName) {
+    return {
+      title: fileName,
+      summary: "Classified from the file name",
+      category: "personal",
+      tags: ["personal"],
+      extractedFields: {},
+    };
+  },
+  async checkHealth() {
+    return { status: "available" };
+  },
+};
+
+export interface TestServer {
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+// A fresh app per call, so rate limits start from zero; storage is shared within the test file
+export async function startTestServer(): Promise<TestServer> {
+  setAnalysisProvider(stubAnalysisProvider);
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  };
+}
+
+export interface TestUser {
+  user: User;
+  token: string;
+}
+
+let userCount = 0;
+
+// Created straight in storage, skipping the rate-limited registration route
+export async function createTestUser(name = "user"): Promise<TestUser> {
+  const id = `test_${name}_${++userCount}`;
+  const user = await storage.createUser({ id, provider: "email", email: `${id}@example.com`, firstName: name });
+  return { user, token: generateToken(user) };
+}
+
+export interface ApiResponse<T = any> {
+  status: number;
+  body: T;
+  headers: Headers;
+}
+
+interface RequestOptions {
+  method?: string;
+  token?: string;
+  cookie?: string;
+  json?: unknown;
+  form?: FormData;
+  raw?: { body: Buffer; contentType: string };
+  headers?: Record<string, string>;
+}
+
+export async function request<T = any>(server: TestServer, path: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+  const headers: Record<string, string> = { ...options.headers };
+  if (options.token) headers.Authorization = `Bearer ${options.token}`;
+  if (options.cookie) headers.Cookie = options.cookie;
+  if (options.json !== undefined) headers["Content-Type"] = "application/json";
+  if (options.raw) headers["Content-Type"] = options.raw.contentType;
+
+  const response = await fetch(`${server.baseUrl}${path}`, {
+    method: options.method || "GET",
+    headers,
+    body: options.form ?? options.raw?.body ?? (options.json !== undefined ? JSON.stringify(options.json) : undefined),
+  });
+  const text = await response.text();
+  let body: any = text;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Not JSON; keep the raw text
+  }
+  return { status: response.status, body, headers: response.headers };
+}
+
+// The auth_token cookie from a response, ready to send back in a Cookie header
+export function authCookie(response: ApiResponse): string | undefined {
+  const cookie = response.headers.getSetCookie().find(value => value.startsWith("auth_token="));
+  return cookie?.split(";")[0];
+}
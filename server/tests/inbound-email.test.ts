@@ -0,0 +1,159 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import MailComposer from "nodemailer/lib/mail-composer";
+import type Mail from "nodemailer/lib/mailer";
+import { storage } from "../storage";
+import { runPendingAnalysisJobs } from "../analysis-queue";
+import { createTestUser, request, startTestServer, type TestServer, type TestUser } from "./harness";
+
+const SECRET = "test-inbound-secret";
+
+function composeEmail(options: Mail.Options): Promise<Buffer> {
+  return new MailComposer({ subject: "Your letter", text: "Please find your letter attached.", ...options }).compile().build();
+}
+
+async function letterImage(): Promise<Buffer> {
+  return sharp({ create: { width: 200, height: 280, channels: 3, background: "#ffffff" } }).png().toBuffer();
+}
+
+function deliver(server: TestServer, message: Buffer, secret = SECRET, query = "") {
+  return request(server, `/api/inbound-mail${query}`, {
+    method: "POST",
+    headers: { "X-Inbound-Secret": secret },
+    raw: { body: message, contentType: "message/rfc822" },
+  });
+}
+
+describe("inbound address", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  test("is created once and kept", async () => {
+    const { user, token } = await createTestUser("forwarder");
+    const first = await request(server, "/api/inbound-address", { token });
+    assert.equal(first.status, 200);
+    assert.match(first.body.address, /^[0-9a-f]{20}@inbox\.posty\.local$/);
+
+    const second = await request(server, "/api/inbound-address", { token });
+    assert.equal(second.body.address, first.body.address);
+    assert.equal(`${(await storage.getUser(user.id))?.inboundEmailToken}@inbox.posty.local`, first.body.address);
+  });
+
+  test("can be replaced", async () => {
+    const { token } = await createTestUser("rotator");
+    const before = await request(server, "/api/inbound-address", { token });
+    const rotated = await request(server, "/api/inbound-address/rotate", { method: "POST", token });
+    assert.equal(rotated.status, 200);
+    assert.notEqual(rotated.body.address, before.body.address);
+
+    const after = await request(server, "/api/inbound-address", { token });
+    assert.equal(after.body.address, rotated.body.address);
+  });
+
+  test("requires authentication", async () => {
+    const response = await request(server, "/api/inbound-address");
+    assert.equal(response.status, 401);
+  });
+});
+
+describe("inbound mail", () => {
+  let server: TestServer;
+  let owner: TestUser;
+  let address: string;
+
+  before(async () => {
+    process.env.INBOUND_MAIL_SECRET = SECRET;
+    server = await startTestServer();
+    owner = await createTestUser("recipient");
+    address = (await request(server, "/api/inbound-address", { token: owner.token })).body.address;
+  });
+  after(async () => {
+    delete process.env.INBOUND_MAIL_SECRET;
+    await server.close();
+  });
+
+  test("is refused without the shared secret", async () => {
+    const message = await composeEmail({ to: address });
+    assert.equal((await deliver(server, message, "wrong secret")).status, 401);
+
+    delete process.env.INBOUND_MAIL_SECRET;
+    try {
+      assert.equal((await deliver(server, message)).status, 503);
+    } finally {
+      process.env.INBOUND_MAIL_SECRET = SECRET;
+    }
+  });
+
+  test("rejects mail for an unknown address", async () => {
+    const message = await composeEmail({
+      to: "nobody@inbox.posty.local",
+      attachments: [{ filename: "letter.png", content: await letterImage(), contentType: "image/png" }],
+    });
+    const response = await deliver(server, message);
+    assert.equal(response.status, 404);
+    assert.equal(response.body.error, "Unknown recipient");
+  });
+
+  test("rejects mail without a PDF or image attachment", async () => {
+    const message = await composeEmail({
+      to: address,
+      attachments: [{ filename: "notes.txt", content: "just some text", contentType: "text/plain" }],
+    });
+    const response = await deliver(server, message);
+    assert.equal(response.status, 422);
+    assert.deepEqual(response.body.attachments, [
+      { fileName: "notes.txt", status: "skipped", reason: "Only image and PDF files are allowed" },
+    ]);
+  });
+
+  test("turns attachments into mail items tagged with the sender", async () => {
+    const message = await composeEmail({
+      from: '"City Council" <noreply@council.example>',
+      // Forwarded from elsewhere: the envelope recipient names the inbound address, not the To header
+      to: "me@example.com",
+      attachments: [
+        { filename: "council-tax.png", content: await letterImage(), contentType: "image/png" },
+        { filename: "notes.txt", content: "just some text", contentType: "text/plain" },
+      ],
+    });
+    const response = await deliver(server, message, SECRET, `?to=${encodeURIComponent(address)}`);
+    assert.equal(response.status, 202);
+    assert.equal(response.body.sender, "City Council");
+    const [created, skipped] = response.body.attachments;
+    assert.equal(created.status, "created");
+    assert.equal(skipped.status, "skipped");
+    const id = created.mailItemId;
+
+    try {
+      const pending = await request(server, `/api/mail-items/${id}`, { token: owner.token });
+      assert.equal(pending.body.status, "pending");
+      assert.equal(pending.body.title, "council-tax");
+      assert.deepEqual(pending.body.tags, ["City Council"]);
+
+      // The analysis adds its own tags next to the sender
+      assert.equal(await runPendingAnalysisJobs(), 1);
+      const analyzed = await request(server, `/api/mail-items/${id}`, { token: owner.token });
+      assert.equal(analyzed.body.status, "ready");
+      assert.equal(analyzed.body.title, "Stub Energy bill");
+      assert.deepEqual([...analyzed.body.tags].sort(), ["City Council", "bill", "energy"]);
+    } finally {
+      // Remove the stored files again
+      await request(server, `/api/mail-items/${id}`, { method: "DELETE", token: owner.token });
+      await request(server, `/api/trash/${id}`, { method: "DELETE", token: owner.token });
+    }
+  });
+
+  test("stops accepting an address once it is replaced", async () => {
+    const { token } = await createTestUser("spammed");
+    const oldAddress = (await request(server, "/api/inbound-address", { token })).body.address;
+    await request(server, "/api/inbound-address/rotate", { method: "POST", token });
+
+    const message = await composeEmail({
+      to: oldAddress,
+      attachments: [{ filename: "letter.png", content: await letterImage(), contentType: "image/png" }],
+    });
+    assert.equal((await deliver(server, message)).status, 404);
+  });
+});
@@ -0,0 +1,313 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { PDFDocument } from "pdf-lib";
+import { storage } from "../storage";
+import { runPendingAnalysisJobs } from "../analysis-queue";
+import { createTestUser, request, startTestServer, type TestServer, type TestUser } from "./harness";
+
+function letterFor(userId: string, title: string) {
+  return storage.createMailItem({
+    userId,
+    title,
+    summary: `Summary of ${title}`,
+    category: "personal",
+    imageUrl: "/uploads/missing.jpg",
+    fileName: "missing.jpg",
+  });
+}
+
+// A small white page with a few dark lines of "text"
+async function scanImage(): Promise<Blob> {
+  const lines = Array.from({ length: 8 }, (_, index) =>
+    `<rect x="30" y="${40 + index * 30}" width="240" height="8" fill="#222"/>`
+  ).join("");
+  const png = await sharp(Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="300" height="320"><rect width="300" height="320" fill="#fff"/>${lines}</svg>`))
+    .png()
+    .toBuffer();
+  return new Blob([png], { type: "image/png" });
+}
+
+function uploadForm(file: Blob, fileName: string): FormData {
+  const form = new FormData();
+  form.append("file", file, fileName);
+  return form;
+}
+
+describe("mail items are scoped to their owner", () => {
+  let server: TestServer;
+  let owner: TestUser;
+  let stranger: TestUser;
+  let itemId: number;
+
+  before(async () => {
+    server = await startTestServer();
+    owner = await createTestUser("owner");
+    stranger = await createTestUser("stranger");
+    itemId = (await letterFor(owner.user.id, "Council tax")).id;
+  });
+  after(() => server.close());
+
+  test("the owner can read the item", async () => {
+    const response = await request(server, `/api/mail-items/${itemId}`, { token: owner.token });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.title, "Council tax");
+    assert.deepEqual(response.body.tags, []);
+  });
+
+  test("another user gets a 404 for reads, updates and deletes", async () => {
+    const read = await request(server, `/api/mail-items/${itemId}`, { token: stranger.token });
+    assert.equal(read.status, 404);
+
+    const update = await request(server, `/api/mail-items/${itemId}`, {
+      method: "PATCH",
+      token: stranger.token,
+      json: { title: "Hijacked", tags: ["mine"] },
+    });
+    assert.equal(update.status, 404);
+
+    const trash = await request(server, `/api/mail-items/${itemId}`, { method: "DELETE", token: stranger.token });
+    assert.equal(trash.status, 404);
+
+    const unchanged = await storage.getMailItem(itemId, owner.user.id);
+    assert.equal(unchanged?.title, "Council tax");
+    assert.deepEqual(unchanged?.tags, []);
+  });
+
+  test("listings only include the caller's items", async () => {
+    const mine = await request(server, "/api/mail-items", { token: owner.token });
+    assert.deepEqual(mine.body.items.map((item: { id: number }) => item.id), [itemId]);
+
+    const theirs = await request(server, "/api/mail-items", { token: stranger.token });
+    assert.equal(theirs.body.total, 0);
+  });
+
+  test("the owner can update and trash the item", async () => {
+    const update = await request(server, `/api/mail-items/${itemId}`, {
+      method: "PATCH",
+      token: owner.token,
+      json: { title: "Council tax 2026", tags: ["home"] },
+    });
+    assert.equal(update.status, 200);
+    assert.equal(update.body.title, "Council tax 2026");
+    assert.deepEqual(update.body.tags, ["home"]);
+
+    const trash = await request(server, `/api/mail-items/${itemId}`, { method: "DELETE", token: owner.token });
+    assert.equal(trash.status, 200);
+    const read = await request(server, `/api/mail-items/${itemId}`, { token: owner.token });
+    assert.equal(read.status, 404);
+  });
+
+  test("rejects invalid updates", async () => {
+    const { id } = await letterFor(owner.user.id, "Bank statement");
+    const response = await request(server, `/api/mail-items/${id}`, {
+      method: "PATCH",
+      token: owner.token,
+      json: { keepForever: "yes" },
+    });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "Invalid input data");
+  });
+
+  test("ignores fields owned by the upload pipeline and the analysis worker", async () => {
+    const { id } = await letterFor(owner.user.id, "Gas bill");
+    const response = await request(server, `/api/mail-items/${id}`, {
+      method: "PATCH",
+      token: owner.token,
+      json: { title: "Gas bill (March)", imageUrl: "/uploads/someone-else.pdf", previewUrl: "/uploads/previews/x.jpg", status: "failed", pageCount: 40 },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.title, "Gas bill (March)");
+    assert.equal(response.body.imageUrl, "/uploads/missing.jpg");
+    assert.equal(response.body.previewUrl, null);
+    assert.equal(response.body.status, "ready");
+    assert.equal(response.body.pageCount, 1);
+  });
+
+  test("leaves payments to the payment endpoint", async () => {
+    const { id } = await letterFor(owner.user.id, "Phone bill");
+    const response = await request(server, `/api/mail-items/${id}`, {
+      method: "PATCH",
+      token: owner.token,
+      json: { paymentStatus: "foo", paidDate: "yesterday", amountPaid: -5 },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.paymentStatus, "unpaid");
+    assert.equal(response.body.paidDate, null);
+    assert.equal(response.body.amountPaid, null);
+  });
+
+  test("accepts standard and the user's own categories only", async () => {
+    const { id } = await letterFor(owner.user.id, "Council letter");
+    const unknown = await request(server, `/api/mail-items/${id}`, { method: "PATCH", token: owner.token, json: { category: "made up" } });
+    assert.equal(unknown.status, 400);
+    assert.equal(unknown.body.error, "Unknown category");
+
+    const standard = await request(server, `/api/mail-items/${id}`, { method: "PATCH", token: owner.token, json: { category: "government" } });
+    assert.equal(standard.status, 200);
+    assert.equal(standard.body.category, "government");
+
+    await request(server, "/api/categories", { method: "POST", token: owner.token, json: { name: "Council" } });
+    const own = await request(server, `/api/mail-items/${id}`, { method: "PATCH", token: owner.token, json: { category: "Council" } });
+    assert.equal(own.status, 200);
+    assert.equal(own.body.category, "Council");
+  });
+});
+
+describe("uploads", () => {
+  let server: TestServer;
+  let owner: TestUser;
+
+  before(async () => {
+    server = await startTestServer();
+    owner = await createTestUser("uploader");
+  });
+  after(() => server.close());
+
+  test("requires authentication", async () => {
+    const response = await request(server, "/api/mail-items", { method: "POST", form: uploadForm(await scanImage(), "letter.png") });
+    assert.equal(response.status, 401);
+  });
+
+  test("requires a file", async () => {
+    const response = await request(server, "/api/mail-items", { method: "POST", token: owner.token, form: new FormData() });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "No file uploaded");
+  });
+
+  test("rejects files that are not images or PDFs", async () => {
+    const form = uploadForm(new Blob(["just some text"], { type: "text/plain" }), "notes.txt");
+    const response = await request(server, "/api/mail-items", { method: "POST", token: owner.token, form });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "Only image and PDF files are allowed");
+  });
+
+  test("rejects a file whose type does not match its extension", async () => {
+    const form = uploadForm(new Blob(["%PDF-1.4"], { type: "text/plain" }), "letter.pdf");
+    const response = await request(server, "/api/mail-items", { method: "POST", token: owner.token, form });
+    assert.equal(response.status, 400);
+  });
+
+  test("queues an image and fills it in from the analysis provider", async () => {
+    const response = await request(server, "/api/mail-items", {
+      method: "POST",
+      token: owner.token,
+      form: uploadForm(await scanImage(), "energy-bill.png"),
+    });
+    assert.equal(response.status, 202);
+    assert.equal(response.body.status, "pending");
+    assert.equal(response.body.title, "energy-bill");
+    const id = response.body.id;
+
+    try {
+      assert.equal(await runPendingAnalysisJobs(), 1);
+
+      const analyzed = await request(server, `/api/mail-items/${id}`, { token: owner.token });
+      assert.equal(analyzed.body.status, "ready");
+      assert.equal(analyzed.body.title, "Stub Energy bill");
+      assert.equal(analyzed.body.category, "bill");
+      assert.deepEqual(analyzed.body.tags, ["bill", "energy"]);
+      assert.equal(analyzed.body.extractedFields.amountDue.value, 42.5);
+      assert.ok(analyzed.body.originalImageUrl, "keeps the original photo next to the cleaned copy");
+    } finally {
+      // Remove the stored files again
+      await request(server, `/api/mail-items/${id}`, { method: "DELETE", token: owner.token });
+      await request(server, `/api/trash/${id}`, { method: "DELETE", token: owner.token });
+    }
+  });
+
+  test("combines photos into one PDF, turning rotated ones upright", async () => {
+    // A landscape photo from a phone held upright: the camera stored "rotate 90°" instead of rotating the pixels
+    const rotated = await sharp({ create: { width: 40, height: 20, channels: 3, background: "white" } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+    // The same photo with its EXIF directory offset pointing far past the end of the file
+    const malformed = Buffer.from(rotated);
+    const tiff = malformed.indexOf("Exif\0\0") + 6;
+    if (malformed.toString("ascii", tiff, tiff + 2) === "II") malformed.writeUInt32LE(0xfffffff0, tiff + 4);
+    else malformed.writeUInt32BE(0xfffffff0, tiff + 4);
+
+    const form = new FormData();
+    form.append("files", new Blob([rotated], { type: "image/jpeg" }), "page-1.jpg");
+    form.append("files", new Blob([malformed], { type: "image/jpeg" }), "page-2.jpg");
+    const response = await request(server, "/api/mail-items/combined", { method: "POST", token: owner.token, form });
+    assert.equal(response.status, 202);
+    const { id, imageUrl } = response.body;
+
+    try {
+      const pdf = await PDFDocument.load(await fs.promises.readFile(path.join("uploads", path.basename(imageUrl))));
+      const [upright, unreadable] = pdf.getPages().map(page => page.getSize());
+      assert.ok(upright.height > upright.width, "the rotated photo is turned upright");
+      assert.ok(unreadable.width > unreadable.height, "a photo with unreadable EXIF is kept as it is");
+    } finally {
+      await request(server, `/api/mail-items/${id}`, { method: "DELETE", token: owner.token });
+      await request(server, `/api/trash/${id}`, { method: "DELETE", token: owner.token });
+    }
+  });
+
+  test("retries a job when storage fails before the analysis starts", async () => {
+    const response = await request(server, "/api/mail-items", {
+      method: "POST",
+      token: owner.token,
+      form: uploadForm(await scanImage(), "water-bill.png"),
+    });
+    const id = response.body.id;
+
+    const getMailItem = storage.getMailItem;
+    storage.getMailItem = async () => { throw new Error("Storage unavailable"); };
+    try {
+      assert.equal(await runPendingAnalysisJobs(), 1);
+    } finally {
+      storage.getMailItem = getMailItem;
+    }
+
+    try {
+      const item = await storage.getMailItem(id, owner.user.id);
+      assert.equal(item?.status, "pending", "queued for a retry rather than left processing");
+    } finally {
+      await request(server, `/api/mail-items/${id}`, { method: "DELETE", token: owner.token });
+      await request(server, `/api/trash/${id}`, { method: "DELETE", token: owner.token });
+    }
+  });
+});
+
+describe("permanent deletion", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  test("leaves files another item still points at", async () => {
+    const victim = await createTestUser("victim");
+    const attacker = await createTestUser("attacker");
+    const upload = await request(server, "/api/mail-items", {
+      method: "POST",
+      token: victim.token,
+      form: uploadForm(await scanImage(), "private.png"),
+    });
+    const victimItem = upload.body;
+    const filePath = path.join("uploads", path.basename(victimItem.imageUrl));
+
+    try {
+      // An item saved before updates were restricted could point at someone else's file
+      const copy = await storage.createMailItem({
+        userId: attacker.user.id,
+        title: "Copy",
+        summary: "",
+        category: "personal",
+        imageUrl: victimItem.imageUrl,
+        fileName: "private.png",
+      });
+      await request(server, `/api/mail-items/${copy.id}`, { method: "DELETE", token: attacker.token });
+      const deleted = await request(server, `/api/trash/${copy.id}`, { method: "DELETE", token: attacker.token });
+      assert.equal(deleted.status, 200);
+      assert.ok(fs.existsSync(filePath), "the victim's file is kept");
+    } finally {
+      await request(server, `/api/mail-items/${victimItem.id}`, { method: "DELETE", token: victim.token });
+      await request(server, `/api/trash/${victimItem.id}`, { method: "DELETE", token: victim.token });
+    }
+    assert.ok(!fs.existsSync(filePath), "removed with the last item that uses it");
+  });
+});
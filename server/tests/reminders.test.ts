@@ -0,0 +1,92 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { runDueReminders } from "../reminder-scheduler";
+import { todayInTimeZone } from "@shared/bills";
+import { createTestUser, request, startTestServer, type TestServer } from "./harness";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("reminder scan", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  // Items are uploaded today, so reminders are set for tomorrow and the scan runs a little later
+  const tomorrow = todayInTimeZone("UTC", new Date(Date.now() + DAY_MS));
+  const scanTime = () => new Date(Date.now() + 2 * DAY_MS);
+
+  async function reminderUser(name: string) {
+    const created = await createTestUser(name);
+    await request(server, "/api/settings", { method: "PUT", token: created.token, json: { emailNotifications: false } });
+    return created;
+  }
+
+  function createReminder(userId: string, changes: Record<string, unknown> = {}) {
+    return storage.createMailItem({
+      userId,
+      title: "Water bill",
+      summary: "Quarterly water bill",
+      category: "bill",
+      imageUrl: "/uploads/missing.jpg",
+      fileName: "missing.jpg",
+      reminderDate: tomorrow,
+      ...changes,
+    });
+  }
+
+  async function isPending(itemId: number): Promise<boolean> {
+    const due = await storage.getDueReminderItems(todayInTimeZone("UTC", scanTime()), tomorrow);
+    return due.some(candidate => candidate.item.id === itemId);
+  }
+
+  test("delivers a due reminder once", async () => {
+    const { user, token } = await reminderUser("reminded");
+    const item = await createReminder(user.id);
+
+    await runDueReminders(scanTime());
+    await runDueReminders(scanTime());
+
+    const response = await request(server, "/api/notifications", { token });
+    const notifications = response.body.filter((row: { mailItemId: number }) => row.mailItemId === item.id);
+    assert.equal(notifications.length, 1);
+    assert.equal(await isPending(item.id), false);
+  });
+
+  test("records paid bills as skipped so they are not scanned again", async () => {
+    const { user, token } = await reminderUser("paid");
+    const item = await createReminder(user.id, { paymentStatus: "paid" });
+    assert.equal(await isPending(item.id), true);
+
+    await runDueReminders(scanTime());
+
+    assert.equal(await isPending(item.id), false);
+    const response = await request(server, "/api/notifications", { token });
+    assert.ok(!response.body.some((row: { mailItemId: number }) => row.mailItemId === item.id), "nothing shown to the user");
+  });
+
+  test("does not send reminders missed long ago", async () => {
+    const { user, token } = await reminderUser("late");
+    const item = await createReminder(user.id);
+
+    await runDueReminders(new Date(Date.now() + 30 * DAY_MS));
+
+    const response = await request(server, "/api/notifications", { token });
+    assert.ok(!response.body.some((row: { mailItemId: number }) => row.mailItemId === item.id));
+  });
+
+  test("drops a snoozed reminder once the bill is paid", async () => {
+    const { user } = await reminderUser("snoozer");
+    const item = await createReminder(user.id);
+    await runDueReminders(scanTime());
+    const [notification] = (await storage.getNotifications(user.id)).filter(row => row.mailItemId === item.id);
+    await storage.updateNotification(notification.id, user.id, { status: "snoozed", snoozedUntil: new Date(Date.now() - 1000) });
+    await storage.updateMailItem(item.id, user.id, { paymentStatus: "paid" });
+
+    await runDueReminders(scanTime());
+
+    const updated = await storage.getNotification(notification.id, user.id);
+    assert.equal(updated?.status, "dismissed");
+    assert.equal(updated?.snoozedUntil, null);
+  });
+});
@@ -0,0 +1,102 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { createTestUser, request, startTestServer, type TestServer } from "./harness";
+
+describe("settings", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  test("the profile shows defaults before anything is saved", async () => {
+    const { token } = await createTestUser("defaults");
+    const response = await request(server, "/api/profile", { token });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.settings.timezone, "UTC");
+    assert.equal(response.body.settings.weeklyDigest, false);
+  });
+
+  test("saves changes and keeps the rest at their defaults", async () => {
+    const { user, token } = await createTestUser("saver");
+    const response = await request(server, "/api/settings", {
+      method: "PUT",
+      token,
+      json: { theme: "dark", timezone: "Europe/London", weeklyDigest: true },
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.theme, "dark");
+    assert.equal(response.body.timezone, "Europe/London");
+    assert.equal(response.body.weeklyDigest, true);
+    assert.equal(response.body.emailNotifications, true);
+
+    const profile = await request(server, "/api/profile", { token });
+    assert.equal(profile.body.settings.theme, "dark");
+
+    // Later updates only touch the fields they name
+    const second = await request(server, "/api/settings", { method: "PUT", token, json: { reminderNotifications: false } });
+    assert.equal(second.body.theme, "dark");
+    assert.equal(second.body.reminderNotifications, false);
+    assert.equal((await storage.getUserSettings(user.id))?.reminderNotifications, false);
+  });
+
+  test("rejects invalid values", async () => {
+    const { user, token } = await createTestUser("invalid");
+    const response = await request(server, "/api/settings", { method: "PUT", token, json: { theme: "neon" } });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error, "Validation failed");
+    assert.equal(await storage.getUserSettings(user.id), undefined);
+  });
+
+  test("requires authentication", async () => {
+    const response = await request(server, "/api/settings", { method: "PUT", json: { theme: "dark" } });
+    assert.equal(response.status, 401);
+  });
+});
+
+describe("account deletion", () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  test("needs an explicit confirmation", async () => {
+    const { user, token } = await createTestUser("hesitant");
+    const response = await request(server, "/api/account", { method: "DELETE", token, json: { confirmDelete: "yes" } });
+    assert.equal(response.status, 400);
+    assert.ok(await storage.getUser(user.id));
+  });
+
+  test("removes the user with their data and signs them out", async () => {
+    const { user, token } = await createTestUser("leaving");
+    const other = await createTestUser("staying");
+    await request(server, "/api/settings", { method: "PUT", token, json: { theme: "dark" } });
+    const item = await storage.createMailItem({
+      userId: user.id,
+      title: "Payslip",
+      summary: "Monthly payslip",
+      category: "personal",
+      imageUrl: "/uploads/missing.jpg",
+      fileName: "missing.jpg",
+    });
+    const otherItem = await storage.createMailItem({
+      userId: other.user.id,
+      title: "Insurance renewal",
+      summary: "Car insurance",
+      category: "insurance",
+      imageUrl: "/uploads/missing.jpg",
+      fileName: "missing.jpg",
+    });
+
+    const response = await request(server, "/api/account", { method: "DELETE", token, json: { confirmDelete: "DELETE" } });
+    assert.equal(response.status, 200);
+    assert.ok(response.headers.getSetCookie().some(cookie => cookie.startsWith("auth_token=;")), "clears the auth cookie");
+
+    assert.equal(await storage.getUser(user.id), undefined);
+    assert.equal(await storage.getUserSettings(user.id), undefined);
+    assert.equal(await storage.getMailItem(item.id, user.id), undefined);
+    assert.ok(await storage.getMailItem(otherItem.id, other.user.id), "other users' items are kept");
+
+    // The old token no longer works
+    const me = await request(server, "/api/auth/user", { token });
+    assert.equal(me.status, 401);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "../storage";
+import { createTestUser } from "./harness";
+
+const MINUTE_MS = 60 * 1000;
+
+describe("digest delivery claims", () => {
+  test("a delivery in flight is only claimed again once it has been sending too long", async () => {
+    const { user } = await createTestUser("digest");
+    const recently = () => new Date(Date.now() - 30 * MINUTE_MS);
+
+    const first = await storage.claimDigestDelivery(user.id, "2026-10-19", 3, recently());
+    assert.equal(first?.status, "sending");
+    assert.equal(first?.attempts, 1);
+    assert.equal(await storage.claimDigestDelivery(user.id, "2026-10-19", 3, recently()), undefined);
+
+    // The process died before recording the outcome
+    const reclaimed = await storage.claimDigestDelivery(user.id, "2026-10-19", 3, new Date(Date.now() + MINUTE_MS));
+    assert.equal(reclaimed?.id, first?.id);
+    assert.equal(reclaimed?.attempts, 2);
+
+    await storage.updateDigestDelivery(reclaimed!.id, { status: "sent", sentAt: new Date() });
+    assert.equal(await storage.claimDigestDelivery(user.id, "2026-10-19", 3, new Date(Date.now() + MINUTE_MS)), undefined);
+  });
+
+  test("stops after the last attempt", async () => {
+    const { user } = await createTestUser("digest-retries");
+    const later = () => new Date(Date.now() + MINUTE_MS);
+
+    assert.ok(await storage.claimDigestDelivery(user.id, "2026-10-19", 2, later()));
+    assert.ok(await storage.claimDigestDelivery(user.id, "2026-10-19", 2, later()));
+    assert.equal(await storage.claimDigestDelivery(user.id, "2026-10-19", 2, later()), undefined);
+  });
+});
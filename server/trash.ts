@@ -0,0 +1,98 @@
+// Trash: deleted items are kept for a grace period, and uploaded files are only removed on permanent deletion
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { previewsDir } from "./previews";
+import type { MailItem } from "@shared/schema";
+
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30');
+const PURGE_INTERVAL_MS = parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '3600000');
+const uploadsDir = 'uploads';
+
+type StoredFiles = Pick<MailItem, "id" | "imageUrl" | "originalImageUrl" | "thumbnailUrl" | "previewUrl">;
+
+// Only URLs of the shape the upload and preview code write map to a file; anything else is left alone
+function storedFilePath(url: string): string | null {
+  const match = /^\/uploads\/(previews\/)?([^/\\]+)$/.exec(url);
+  if (!match || match[2] === '.' || match[2] === '..') return null;
+  return path.join(match[1] ? previewsDir : uploadsDir, match[2]);
+}
+
+async function removeUploadedFile(item: StoredFiles): Promise<void> {
+  // Preprocessed photos keep the original upload next to the cleaned copy; generated previews live in a subfolder
+  const urls = [item.imageUrl, item.originalImageUrl, item.thumbnailUrl, item.previewUrl];
+
+  for (const url of urls) {
+    const filePath = url ? storedFilePath(url) : null;
+    // Called after the row is gone, so any remaining reference belongs to another item
+    if (!filePath || await storage.isFileReferenced(url!)) continue;
+    try {
+      await fs.promises.unlink(filePath);
+    } catch (error: any) {
+      // A missing file should not block deleting the record
+      if (error?.code !== 'ENOENT') {
+        console.error(`Could not remove file for mail item ${item.id}:`, error);
+      }
+    }
+  }
+}
+
+async function removeUploadedFiles(items: MailItem[]): Promise<void> {
+  for (let i = 0; i < items.length; i++) {
+    await removeUploadedFile(items[i]);
+  }
+}
+
+export async function permanentlyDeleteMailItem(id: number, userId: string): Promise<boolean> {
+  const deleted = await storage.deleteMailItem(id, userId);
+  if (!deleted) return false;
+  await removeUploadedFile(deleted);
+  return true;
+}
+
+export async function emptyTrash(userId: string): Promise<number> {
+  const deleted = await storage.emptyTrash(userId);
+  await removeUploadedFiles(deleted);
+  return deleted.length;
+}
+
+export async function purgeExpiredTrash(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const expired = await storage.getExpiredTrashItems(cutoff);
+  let purged = 0;
+
+  for (let i = 0; i < expired.length; i++) {
+    if (await permanentlyDeleteMailItem(expired[i].id, expired[i].userId)) {
+      purged++;
+    }
+  }
+
+  return purged;
+}
+
+// Start purging expired trash on an interval; returns a function that stops the purger
+export function startTrashPurger(): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const purge = async () => {
+    if (stopped) return;
+    try {
+      const count = await purgeExpiredTrash();
+      if (count > 0) console.log(`Purged ${count} item(s) from the trash`);
+    } catch (error) {
+      console.error('Trash purger error:', error);
+    } finally {
+      if (!stopped) {
+        timer = setTimeout(purge, PURGE_INTERVAL_MS);
+      }
+    }
+  };
+
+  purge();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
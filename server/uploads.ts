@@ -0,0 +1,44 @@
+// The upload pipeline shared by the upload routes and inbound email: stored files become pending items queued for analysis
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { enqueueAnalysis } from "./analysis-queue";
+import { publish } from "./live-events";
+import { generatePreviews } from "./previews";
+import { insertMailItemSchema } from "@shared/schema";
+
+// Ensure uploads directory exists
+export const uploadsDir = 'uploads';
+if (!fs.existsSync(uploadsDir)) {
+  fs.mkdirSync(uploadsDir, { recursive: true });
+}
+
+// Keep the extension for proper file type detection; several files can arrive in the same millisecond
+export function uniqueUploadName(prefix: string, ext: string): string {
+  return prefix + '-' + Date.now() + '-' + Math.round(Math.random() * 1e9) + ext;
+}
+
+// Create a placeholder item right away and queue the upload; the analysis worker fills in the details
+export async function createPendingMailItem(userId: string, filePath: string, fileName: string) {
+  const { thumbnailUrl, previewUrl } = await generatePreviews(filePath);
+  const mailItemData = {
+    userId,
+    title: fileName.replace(/\.[^/.]+$/, ""),
+    summary: "Analysis in progress...",
+    category: "personal",
+    reminderDate: null,
+    imageUrl: `/uploads/${path.basename(filePath)}`,
+    thumbnailUrl,
+    previewUrl,
+    fileName,
+    extractedText: null,
+    extractedFields: {},
+    status: "pending",
+  };
+
+  const validatedData = insertMailItemSchema.parse(mailItemData);
+  const newItem = await storage.createMailItem(validatedData);
+  publish(userId, { type: "mail-item.created", data: newItem });
+  await enqueueAnalysis(newItem, filePath);
+  return newItem;
+}
@@ -0,0 +1,151 @@
+// Weekly digest job: emails each opted-in user a summary of the past week at a fixed local time
+import { storage, type DigestRecipient } from "./storage";
+import { buildBillsOverview, todayInTimeZone } from "@shared/bills";
+import type { MailItemWithTags } from "@shared/schema";
+import type { DigestData, DigestEntry } from "./email-service";
+
+const SCAN_INTERVAL_MS = parseInt(process.env.DIGEST_SCAN_INTERVAL_MS || '900000');
+// Local day (0 = Sunday) and hour the digest goes out, in each user's timezone
+const DIGEST_DAY = parseInt(process.env.DIGEST_DAY || '1');
+const DIGEST_HOUR = parseInt(process.env.DIGEST_HOUR || '8');
+const MAX_ATTEMPTS = 3;
+// A delivery still marked as sending after this long was interrupted (e.g. by a restart) and is tried again
+const SENDING_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_UPLOADS_LISTED = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+function localWeekdayAndHour(timezone: string | null, now: Date): { weekday: number; hour: number } {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone || "UTC",
+      weekday: "short",
+      hour: "numeric",
+      hourCycle: "h23",
+    }).formatToParts(now);
+    const weekday = parts.find(part => part.type === "weekday")?.value || "";
+    const hour = parts.find(part => part.type === "hour")?.value || "0";
+    return { weekday: WEEKDAYS.indexOf(weekday), hour: parseInt(hour) };
+  } catch {
+    return { weekday: now.getUTCDay(), hour: now.getUTCHours() };
+  }
+}
+
+// The local date the digest is due for, or null if it is not digest time for this user
+export function getDueDigestDate(timezone: string | null, now = new Date()): string | null {
+  const { weekday, hour } = localWeekdayAndHour(timezone, now);
+  if (weekday !== DIGEST_DAY || hour < DIGEST_HOUR) return null;
+  return todayInTimeZone(timezone, now);
+}
+
+// Past week's uploads, reminders in the coming week and unpaid bills
+export function compileDigest(items: MailItemWithTags[], timezone: string | null, digestDate: string): DigestData {
+  const weekStart = addDays(digestDate, -7);
+  const weekEnd = addDays(digestDate, -1);
+  const upcomingEnd = addDays(digestDate, 7);
+
+  const uploads = items
+    .filter(item => {
+      const uploaded = todayInTimeZone(timezone, new Date(item.uploadDate));
+      return uploaded >= weekStart && uploaded <= weekEnd;
+    })
+    .sort((a, b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime());
+
+  const reminders: DigestEntry[] = items
+    .filter(item => item.reminderDate && item.reminderDate >= digestDate && item.reminderDate <= upcomingEnd)
+    .sort((a, b) => a.reminderDate!.localeCompare(b.reminderDate!))
+    .map(item => ({ title: item.title, detail: `Due ${item.reminderDate}` }));
+
+  const bills: DigestEntry[] = buildBillsOverview(items, timezone || "UTC").outstanding.map(bill => ({
+    title: bill.title,
+    detail: [
+      bill.status === "overdue" ? "Overdue" : null,
+      bill.dueDate ? `due ${bill.dueDate}` : null,
+      bill.amountDue !== null ? `${bill.amountDue.toFixed(2)} ${bill.currency}` : null,
+    ].filter(Boolean).join(", ") || undefined,
+  }));
+
+  return {
+    weekStart,
+    weekEnd,
+    uploadCount: uploads.length,
+    uploads: uploads.slice(0, MAX_UPLOADS_LISTED).map(item => ({
+      title: item.title,
+      summary: item.summary,
+      imageUrl: item.thumbnailUrl || item.imageUrl,
+    })),
+    reminders,
+    bills,
+  };
+}
+
+async function sendDigest({ user, timezone }: DigestRecipient, digestDate: string, now: Date): Promise<boolean> {
+  const delivery = await storage.claimDigestDelivery(user.id, digestDate, MAX_ATTEMPTS, new Date(now.getTime() - SENDING_TIMEOUT_MS));
+  if (!delivery) return false;
+
+  try {
+    const items = await storage.getAllMailItems(user.id);
+    const digest = compileDigest(items, timezone, digestDate);
+    const itemCount = digest.uploadCount + digest.reminders.length + digest.bills.length;
+
+    if (itemCount === 0) {
+      await storage.updateDigestDelivery(delivery.id, { status: "skipped", itemCount: 0 });
+      return false;
+    }
+
+    const { sendWeeklyDigestEmail } = await import('./email-service');
+    await sendWeeklyDigestEmail(user, digest);
+    await storage.updateDigestDelivery(delivery.id, { status: "sent", itemCount, sentAt: new Date(), lastError: null });
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Weekly digest failed for user ${user.id}:`, message);
+    await storage.updateDigestDelivery(delivery.id, { status: "failed", lastError: message });
+    return false;
+  }
+}
+
+export async function runWeeklyDigests(now = new Date()): Promise<number> {
+  const recipients = await storage.getDigestRecipients();
+  let sent = 0;
+
+  for (let i = 0; i < recipients.length; i++) {
+    const digestDate = getDueDigestDate(recipients[i].timezone, now);
+    if (digestDate && await sendDigest(recipients[i], digestDate, now)) {
+      sent++;
+    }
+  }
+
+  return sent;
+}
+
+// Start checking for due digests; returns a function that stops the job
+export function startDigestScheduler(): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const scan = async () => {
+    if (stopped) return;
+    try {
+      const count = await runWeeklyDigests();
+      if (count > 0) console.log(`Sent ${count} weekly digest(s)`);
+    } catch (error) {
+      console.error('Weekly digest scheduler error:', error);
+    } finally {
+      if (!stopped) {
+        timer = setTimeout(scan, SCAN_INTERVAL_MS);
+      }
+    }
+  };
+
+  scan();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,121 @@
+// Bill payment state shared by the API and the dashboard
+import type { MailItem } from "./schema";
+
+export type BillStatus = "unpaid" | "paid" | "overdue";
+
+type BillFields = Pick<MailItem, "category" | "paymentStatus" | "reminderDate" | "extractedFields">;
+
+export interface BillSummary {
+  id: number;
+  title: string;
+  sender: string | null;
+  status: BillStatus;
+  dueDate: string | null;
+  amountDue: number | null;
+  currency: string;
+  paidDate: string | null;
+  amountPaid: number | null;
+}
+
+export interface MonthlyBillTotal {
+  month: string; // YYYY-MM of the due date, or paid date for bills without one
+  currency: string;
+  due: number;
+  paid: number;
+}
+
+export interface BillsOverview {
+  today: string;
+  timezone: string;
+  outstanding: BillSummary[];
+  paid: BillSummary[];
+  totals: { currency: string; outstanding: number; overdue: number }[];
+  monthly: MonthlyBillTotal[];
+}
+
+const DEFAULT_CURRENCY = "GBP";
+
+export function isBill(item: Pick<MailItem, "category"> & { tags?: string[] }): boolean {
+  return item.category === "bill" || !!item.tags?.includes("bill");
+}
+
+export function getBillDueDate(item: Pick<MailItem, "reminderDate" | "extractedFields">): string | null {
+  return item.extractedFields?.dueDate || item.reminderDate || null;
+}
+
+// Today's date (YYYY-MM-DD) in the given IANA timezone, falling back to UTC for unknown zones
+export function todayInTimeZone(timezone: string | null | undefined, now = new Date()): string {
+  try {
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone || "UTC",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(now);
+  } catch {
+    return now.toISOString().split("T")[0];
+  }
+}
+
+export function getBillStatus(item: BillFields, today: string): BillStatus {
+  if (item.paymentStatus === "paid") return "paid";
+  const dueDate = getBillDueDate(item);
+  return dueDate && dueDate < today ? "overdue" : "unpaid";
+}
+
+export function toBillSummary(item: MailItem, today: string): BillSummary {
+  const amountDue = item.extractedFields?.amountDue;
+  return {
+    id: item.id,
+    title: item.title,
+    sender: item.extractedFields?.sender || null,
+    status: getBillStatus(item, today),
+    dueDate: getBillDueDate(item),
+    amountDue: amountDue ? amountDue.value : null,
+    currency: amountDue?.currency || DEFAULT_CURRENCY,
+    paidDate: item.paidDate,
+    amountPaid: item.amountPaid,
+  };
+}
+
+// Outstanding bills soonest-due first (undated last), with per-currency and per-month totals
+export function buildBillsOverview(items: (MailItem & { tags?: string[] })[], timezone: string): BillsOverview {
+  const today = todayInTimeZone(timezone);
+  const bills = items.filter(isBill).map(item => toBillSummary(item, today));
+
+  const outstanding = bills
+    .filter(bill => bill.status !== "paid")
+    .sort((a, b) => (a.dueDate || "9999-12-31").localeCompare(b.dueDate || "9999-12-31"));
+  const paid = bills
+    .filter(bill => bill.status === "paid")
+    .sort((a, b) => (b.paidDate || "").localeCompare(a.paidDate || ""));
+
+  const totals = new Map<string, { currency: string; outstanding: number; overdue: number }>();
+  outstanding.forEach(bill => {
+    const total = totals.get(bill.currency) || { currency: bill.currency, outstanding: 0, overdue: 0 };
+    total.outstanding += bill.amountDue || 0;
+    if (bill.status === "overdue") total.overdue += bill.amountDue || 0;
+    totals.set(bill.currency, total);
+  });
+
+  const monthly = new Map<string, MonthlyBillTotal>();
+  bills.forEach(bill => {
+    const date = bill.dueDate || bill.paidDate;
+    if (!date) return;
+    const month = date.substring(0, 7);
+    const key = `${month}|${bill.currency}`;
+    const total = monthly.get(key) || { month, currency: bill.currency, due: 0, paid: 0 };
+    total.due += bill.amountDue || 0;
+    if (bill.status === "paid") total.paid += bill.amountPaid ?? bill.amountDue ?? 0;
+    monthly.set(key, total);
+  });
+
+  return {
+    today,
+    timezone: timezone || "UTC",
+    outstanding,
+    paid,
+    totals: Array.from(totals.values()),
+    monthly: Array.from(monthly.values()).sort((a, b) => a.month.localeCompare(b.month) || a.currency.localeCompare(b.currency)),
+  };
+}
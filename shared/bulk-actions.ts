@@ -0,0 +1,53 @@
+// Batch actions applied to a selection of mail items via POST /api/mail-items/bulk
+import { z } from "zod";
+import { categories, isoDateSchema, tagSchema } from "./schema";
+
+export const MAX_BULK_ITEMS = 500;
+
+export const bulkActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("recategorize"), category: z.enum(categories) }),
+  z.object({
+    type: z.literal("tag"),
+    add: z.array(tagSchema).max(20).default([]),
+    remove: z.array(tagSchema).max(20).default([]),
+  }),
+  z.object({ type: z.literal("set-reminder"), reminderDate: isoDateSchema.nullable() }),
+  z.object({ type: z.literal("mark-paid"), paidDate: isoDateSchema.optional() }), // defaults to today in the user's timezone
+  z.object({ type: z.literal("archive"), archived: z.boolean().default(true) }),
+  z.object({ type: z.literal("delete") }),
+  z.object({ type: z.literal("export"), format: z.enum(["csv", "json"]).default("csv") }),
+]);
+
+export const bulkRequestSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(MAX_BULK_ITEMS),
+  action: bulkActionSchema,
+}).refine(
+  ({ action }) => action.type !== "tag" || action.add.length > 0 || action.remove.length > 0,
+  { message: "Add or remove at least one tag", path: ["action"] },
+);
+
+export type BulkAction = z.infer<typeof bulkActionSchema>;
+export type BulkRequest = z.infer<typeof bulkRequestSchema>;
+// Actions that change items; export only reads them
+export type BulkWriteAction = Exclude<BulkAction, { type: "export" }>;
+
+// "skipped" items are left alone without blocking the batch; any "failed" item rolls the whole batch back
+export type BulkItemStatus = "ok" | "skipped" | "failed";
+
+export interface BulkItemResult {
+  id: number;
+  status: BulkItemStatus;
+  message?: string;
+}
+
+export interface BulkExport {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+export interface BulkResult {
+  applied: boolean;
+  results: BulkItemResult[];
+  export?: BulkExport;
+}
@@ -0,0 +1,11 @@
+// The user's saved SMTP settings as the API returns them
+import type { UserEmailConfig } from "./schema";
+
+// Everything but the stored password; dates are ISO strings once sent as JSON
+export type EmailConfigView = Omit<UserEmailConfig, "encryptedPassword" | "userId" | "verifiedAt" | "createdAt" | "updatedAt"> & {
+  verifiedAt: string;
+};
+
+export interface EmailConfigOverview {
+  config: EmailConfigView | null;
+}
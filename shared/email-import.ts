@@ -0,0 +1,34 @@
+// IMAP import settings as the API returns them, and the sender/subject rules shared by the importer and the settings page
+import type { EmailImportAccount } from "./schema";
+
+// Everything but the stored password; dates are ISO strings once sent as JSON
+export type EmailImportAccountView = Omit<EmailImportAccount, "encryptedPassword" | "userId" | "lastPolledAt" | "createdAt" | "updatedAt"> & {
+  lastPolledAt: string | null;
+};
+
+export interface EmailImportOverview {
+  account: EmailImportAccountView | null;
+}
+
+export interface EmailImportRunResult {
+  checked: number; // new messages looked at
+  matched: number; // messages that passed the sender and subject rules
+  imported: number; // mail items created from their PDF attachments
+  failed: number; // messages that could not be read or imported; they are not retried
+}
+
+export interface EmailImportRules {
+  senderFilters: string[];
+  subjectFilters: string[];
+}
+
+function containsAny(value: string, filters: string[]): boolean {
+  const text = value.toLowerCase();
+  return filters.length === 0 || filters.some(filter => text.includes(filter.trim().toLowerCase()));
+}
+
+// A message matches when its sender (name or address) contains one of the sender rules and its subject one of
+// the subject rules, ignoring case; an empty list accepts anything
+export function matchesImportRules(message: { from: string; subject: string }, rules: EmailImportRules): boolean {
+  return containsAny(message.from, rules.senderFilters) && containsAny(message.subject, rules.subjectFilters);
+}
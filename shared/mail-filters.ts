@@ -0,0 +1,73 @@
+// Dashboard filters (category, tags, details) for items already loaded on the client; storage mirrors them in SQL
+import type { DetailsFilter, MailItem, MailItemWithTags, SavedSearchFilters } from "./schema";
+import type { MailItemFilters } from "./mail-item-list";
+
+const DUE_SOON_DAYS = 7;
+
+// Last due date (YYYY-MM-DD) that still counts as "due soon"
+export function dueSoonLimit(today: string): string {
+  const result = new Date(`${today}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + DUE_SOON_DAYS);
+  return result.toISOString().split("T")[0];
+}
+
+export function matchesDetailsFilter(
+  item: Pick<MailItem, "extractedFields">,
+  filter: DetailsFilter,
+  today = new Date().toISOString().split("T")[0],
+): boolean {
+  const fields = item.extractedFields || {};
+
+  switch (filter) {
+    case "amount-due":
+      return !!fields.amountDue && fields.amountDue.value > 0;
+    case "due-soon":
+      return !!fields.dueDate && fields.dueDate >= today && fields.dueDate <= dueSoonLimit(today);
+    case "overdue":
+      return !!fields.dueDate && fields.dueDate < today;
+    case "appointment":
+      return !!fields.appointment?.date;
+    default:
+      return true;
+  }
+}
+
+// Everything except the search text, which is matched server-side
+export function matchesMailFilters(
+  item: MailItemWithTags,
+  filters: MailItemFilters,
+  today?: string,
+): boolean {
+  if (filters.category !== "all") {
+    const matchesCategory = filters.category.startsWith("custom:")
+      ? item.customCategories.includes(filters.category.slice("custom:".length))
+      : item.category === filters.category || item.tags.includes(filters.category);
+    if (!matchesCategory) return false;
+  }
+
+  if (filters.details !== "all" && !matchesDetailsFilter(item, filters.details, today)) {
+    return false;
+  }
+
+  // "any" keeps items with at least one selected tag, "all" requires every one
+  if (filters.tags.length > 0) {
+    return filters.match === "all"
+      ? filters.tags.every(tag => item.tags.includes(tag))
+      : filters.tags.some(tag => item.tags.includes(tag));
+  }
+
+  return true;
+}
+
+export function hasActiveFilters(filters: SavedSearchFilters): boolean {
+  return filters.category !== "all" || filters.search.trim() !== "" || filters.tags.length > 0 || filters.details !== "all";
+}
+
+export function isSameFilters(a: SavedSearchFilters, b: SavedSearchFilters): boolean {
+  const sortedTags = (tags: string[]) => [...tags].sort().join(",");
+  return a.category === b.category
+    && a.search.trim() === b.search.trim()
+    && sortedTags(a.tags) === sortedTags(b.tags)
+    && (a.tags.length < 2 || a.match === b.match)
+    && a.details === b.details;
+}
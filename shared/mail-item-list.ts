@@ -0,0 +1,49 @@
+// Cursor-paginated listing of mail items for GET /api/mail-items
+import { z } from "zod";
+import { detailsFilters, type MailItemWithTags, type SavedSearchFilters } from "./schema";
+
+export const mailItemSorts = ["uploaded", "reminder", "title", "amount"] as const;
+export type MailItemSort = typeof mailItemSorts[number];
+export type SortOrder = "asc" | "desc";
+
+// Dashboard filters other than the search text
+export type MailItemFilters = Omit<SavedSearchFilters, "search">;
+
+export const MAIL_ITEM_PAGE_SIZE = 30;
+
+// Direction used when the client does not ask for one
+export const defaultSortOrders: Record<MailItemSort, SortOrder> = {
+  uploaded: "desc",
+  reminder: "asc",
+  title: "asc",
+  amount: "desc",
+};
+
+export const mailItemListParamsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(MAIL_ITEM_PAGE_SIZE),
+  cursor: z.string().max(500).optional(),
+  sort: z.enum(mailItemSorts).default("uploaded"),
+  order: z.enum(["asc", "desc"]).optional(),
+  category: z.string().trim().min(1).max(60).default("all"),
+  tags: z.string().max(2000).optional()
+    .transform(value => value ? value.split(",").map(tag => tag.trim()).filter(Boolean) : []),
+  match: z.enum(["any", "all"]).default("any"),
+  details: z.enum(detailsFilters).default("all"),
+  archived: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+export type MailItemListParams = z.infer<typeof mailItemListParamsSchema>;
+
+export interface MailItemPage {
+  items: MailItemWithTags[];
+  total: number; // every item matching the filters, not just this page
+  nextCursor: string | null;
+}
+
+// Aggregates the dashboard needs without loading every item
+export interface MailItemSummary {
+  total: number;
+  tags: string[];
+  senders: string[];
+  customCategoryCounts: Record<string, number>;
+}
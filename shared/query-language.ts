@@ -0,0 +1,306 @@
+// Search query language: free text mixed with field filters, e.g.
+//   category:bill amount>100 due:<2026-12-01 from:"HMRC" has:reminder -promotional
+// Terms are ANDed together; a leading "-" negates a term. Parsed on the client for errors and
+// autocomplete, and again on the server to build the database query.
+import { categories } from "./schema";
+
+export type ComparisonOp = "=" | ">" | ">=" | "<" | "<=";
+
+export const hasValues = ["reminder", "amount", "due", "appointment", "tags"] as const;
+export const isValues = ["bill", "paid", "unpaid", "overdue", "pinned"] as const;
+
+export type MatchField = "category" | "tag" | "from" | "ref" | "has" | "is";
+export type DateField = "due" | "uploaded";
+export type QueryField = MatchField | DateField | "amount";
+
+export interface TextTerm {
+  type: "text";
+  value: string;
+  phrase: boolean;
+  negated: boolean;
+}
+
+export interface MatchTerm {
+  type: "match";
+  field: MatchField;
+  value: string;
+  negated: boolean;
+}
+
+export interface AmountTerm {
+  type: "amount";
+  op: ComparisonOp;
+  value: number;
+  negated: boolean;
+}
+
+export interface DateTerm {
+  type: "date";
+  field: DateField;
+  op: ComparisonOp;
+  value: string; // YYYY-MM-DD
+  negated: boolean;
+}
+
+export type QueryTerm = TextTerm | MatchTerm | AmountTerm | DateTerm;
+
+export interface SearchQuery {
+  terms: QueryTerm[];
+}
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type ParseResult =
+  | { ok: true; query: SearchQuery }
+  | { ok: false; errors: QueryError[] };
+
+interface FieldSpec {
+  kind: "enum" | "text" | "number" | "date";
+  description: string;
+  values?: readonly string[];
+}
+
+export const fieldSpecs: Record<QueryField, FieldSpec> = {
+  category: { kind: "enum", description: "Standard category", values: categories },
+  tag: { kind: "text", description: "Has this tag" },
+  from: { kind: "text", description: "Sender contains" },
+  ref: { kind: "text", description: "Reference number contains" },
+  amount: { kind: "number", description: "Amount due, e.g. amount>100" },
+  due: { kind: "date", description: "Due date, e.g. due:<2026-12-01" },
+  uploaded: { kind: "date", description: "Upload date, e.g. uploaded:>=2026-01-01" },
+  has: { kind: "enum", description: "Has a detail", values: hasValues },
+  is: { kind: "enum", description: "Status", values: isValues },
+};
+
+const queryFields = Object.keys(fieldSpecs) as QueryField[];
+
+interface RawToken {
+  text: string; // without the negation prefix
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+function isQueryField(name: string): name is QueryField {
+  return (queryFields as string[]).includes(name);
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+// Split on whitespace, keeping quoted sections (which may contain spaces) inside their token
+function tokenize(input: string, errors: QueryError[]): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let text = "";
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        if (close === -1) {
+          errors.push({ message: "Missing closing quote", start: i, end: input.length });
+          text += input.slice(i) + '"';
+          i = input.length;
+          break;
+        }
+        text += input.slice(i, close + 1);
+        i = close + 1;
+      } else {
+        text += input[i++];
+      }
+    }
+
+    const negated = text.length > 1 && text.startsWith("-");
+    tokens.push({ text: negated ? text.slice(1) : text, negated, start, end: i });
+  }
+
+  return tokens;
+}
+
+function parseToken(token: RawToken, errors: QueryError[]): QueryTerm | null {
+  const { text, negated, start, end } = token;
+  const fail = (message: string) => {
+    errors.push({ message, start, end });
+    return null;
+  };
+
+  if (text.startsWith('"')) {
+    const value = unquote(text).trim();
+    return value ? { type: "text", value, phrase: true, negated } : null;
+  }
+
+  const fieldMatch = text.match(/^([a-zA-Z]+)(:|>=|<=|>|<|=)(.*)$/);
+  if (!fieldMatch) {
+    return { type: "text", value: text, phrase: false, negated };
+  }
+
+  const name = fieldMatch[1].toLowerCase();
+  let op = fieldMatch[2];
+  let rawValue = fieldMatch[3];
+
+  if (!isQueryField(name)) {
+    return fail(`Unknown field "${name}". Available fields: ${queryFields.join(", ")}. Put text containing "${op}" in quotes to search for it`);
+  }
+
+  // "due:<2026-12-01" is the same as "due<2026-12-01"
+  if (op === ":") {
+    const nested = rawValue.match(/^(>=|<=|>|<|=)(.*)$/);
+    if (nested) {
+      op = nested[1];
+      rawValue = nested[2];
+    } else {
+      op = "=";
+    }
+  }
+
+  const value = unquote(rawValue).trim();
+  if (!value) {
+    return fail(`Missing value for "${name}"`);
+  }
+
+  const spec = fieldSpecs[name];
+  const comparison = op as ComparisonOp;
+
+  if ((spec.kind === "enum" || spec.kind === "text") && comparison !== "=") {
+    return fail(`"${name}" does not support ${comparison} comparisons`);
+  }
+
+  switch (spec.kind) {
+    case "enum": {
+      const normalized = value.toLowerCase();
+      if (!spec.values!.includes(normalized)) {
+        return fail(`Unknown ${name} "${value}". Expected one of: ${spec.values!.join(", ")}`);
+      }
+      return { type: "match", field: name as MatchField, value: normalized, negated };
+    }
+    case "text":
+      return { type: "match", field: name as MatchField, value, negated };
+    case "number": {
+      const amount = value.replace(/^[£$€]/, "").replace(/,/g, "");
+      if (!/^\d+(\.\d+)?$/.test(amount)) {
+        return fail(`"${value}" is not a valid amount`);
+      }
+      return { type: "amount", op: comparison, value: Number(amount), negated };
+    }
+    case "date": {
+      const date = new Date(`${value}T00:00:00Z`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+        return fail(`"${value}" is not a valid date. Use YYYY-MM-DD`);
+      }
+      return { type: "date", field: name as DateField, op: comparison, value, negated };
+    }
+  }
+}
+
+export function parseSearchQuery(input: string): ParseResult {
+  const errors: QueryError[] = [];
+  const terms: QueryTerm[] = [];
+
+  tokenize(input, errors).forEach(token => {
+    const term = parseToken(token, errors);
+    if (term) terms.push(term);
+  });
+
+  return errors.length > 0
+    ? { ok: false, errors: errors.sort((a, b) => a.start - b.start) }
+    : { ok: true, query: { terms } };
+}
+
+export function formatQueryError(error: QueryError): string {
+  return `${error.message} (at character ${error.start + 1})`;
+}
+
+export interface QuerySuggestion {
+  label: string;
+  insertText: string;
+  description?: string;
+  // Field names leave the cursor after the colon so a value can follow
+  complete: boolean;
+}
+
+export interface QuerySuggestions {
+  suggestions: QuerySuggestion[];
+  replaceStart: number;
+  replaceEnd: number;
+}
+
+export interface SuggestionContext {
+  tags: string[];
+  senders: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+// Suggestions for the token under the cursor: field names first, then values once a field is typed
+export function getQuerySuggestions(input: string, cursor: number, context: SuggestionContext): QuerySuggestions {
+  let tokenStart = cursor;
+  while (tokenStart > 0 && !/\s/.test(input[tokenStart - 1])) tokenStart--;
+  let tokenEnd = cursor;
+  while (tokenEnd < input.length && !/\s/.test(input[tokenEnd])) tokenEnd++;
+
+  let replaceStart = tokenStart;
+  let token = input.slice(tokenStart, cursor);
+  if (token.startsWith("-")) {
+    token = token.slice(1);
+    replaceStart++;
+  }
+
+  const empty = { suggestions: [], replaceStart, replaceEnd: tokenEnd };
+  if (!token) return empty;
+
+  const fieldMatch = token.match(/^([a-zA-Z]+):(>=|<=|>|<)?"?(.*)$/);
+  if (!fieldMatch) {
+    const partial = token.toLowerCase();
+    const suggestions = queryFields
+      .filter(field => field.startsWith(partial) && field !== partial)
+      .map(field => ({ label: `${field}:`, insertText: `${field}:`, description: fieldSpecs[field].description, complete: false }));
+    return { suggestions, replaceStart, replaceEnd: tokenEnd };
+  }
+
+  const field = fieldMatch[1].toLowerCase();
+  if (!isQueryField(field)) return empty;
+
+  const op = fieldMatch[2] || "";
+  const partial = fieldMatch[3].toLowerCase();
+  const spec = fieldSpecs[field];
+  const values = spec.values
+    ? Array.from(spec.values)
+    : field === "tag" ? context.tags
+    : field === "from" ? context.senders
+    : [];
+
+  const suggestions = values
+    .filter(value => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(value => ({
+      label: value,
+      insertText: `${field}:${op}${quoteIfNeeded(value)}`,
+      description: spec.description,
+      complete: true,
+    }));
+
+  return { suggestions, replaceStart, replaceEnd: tokenEnd };
+}
+
+export function applySuggestion(input: string, range: QuerySuggestions, suggestion: QuerySuggestion): { value: string; cursor: number } {
+  const before = input.slice(0, range.replaceStart);
+  const after = input.slice(range.replaceEnd);
+  const insert = suggestion.complete && !after.startsWith(" ") ? `${suggestion.insertText} ` : suggestion.insertText;
+  return { value: before + insert + after, cursor: before.length + insert.length };
+}
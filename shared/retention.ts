@@ -0,0 +1,74 @@
+// Retention periods and purge selection shared by the sweeper, the preview API and the settings page
+import { categories, type Category, type MailItem, type RetentionPolicy } from "./schema";
+
+// Days to keep each category; null keeps items forever
+export type RetentionPolicies = Record<Category, number | null>;
+
+export interface RetentionCandidate {
+  id: number;
+  title: string;
+  category: string;
+  uploadDate: string;
+  expiresOn: string;
+}
+
+export interface RetentionOverview {
+  enabled: boolean;
+  policies: RetentionPolicies;
+  defaults: RetentionPolicies;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const defaultRetentionPolicies: RetentionPolicies = {
+  bill: 6 * 365,
+  appointment: 365,
+  personal: null,
+  promotional: 30,
+  government: null,
+  insurance: 6 * 365,
+  nhs: null,
+};
+
+// Saved policies override the defaults category by category
+export function resolveRetentionPolicies(saved: Pick<RetentionPolicy, "category" | "retentionDays">[]): RetentionPolicies {
+  const policies = { ...defaultRetentionPolicies };
+  saved.forEach(policy => {
+    if ((categories as readonly string[]).includes(policy.category)) {
+      policies[policy.category as Category] = policy.retentionDays;
+    }
+  });
+  return policies;
+}
+
+export function getExpiryDate(item: Pick<MailItem, "category" | "uploadDate">, policies: RetentionPolicies): Date | null {
+  const days = policies[item.category as Category];
+  if (days === null || days === undefined) return null;
+  return new Date(new Date(item.uploadDate).getTime() + days * DAY_MS);
+}
+
+// Items past their category's retention period; pinned items and items still being analysed are never selected
+export function getRetentionCandidates(
+  items: Pick<MailItem, "id" | "title" | "category" | "uploadDate" | "keepForever" | "status">[],
+  policies: RetentionPolicies,
+  now = new Date()
+): RetentionCandidate[] {
+  const candidates: RetentionCandidate[] = [];
+
+  items.forEach(item => {
+    if (item.keepForever || item.status === "pending" || item.status === "processing") return;
+
+    const expiry = getExpiryDate(item, policies);
+    if (!expiry || expiry > now) return;
+
+    candidates.push({
+      id: item.id,
+      title: item.title,
+      category: item.category,
+      uploadDate: new Date(item.uploadDate).toISOString(),
+      expiresOn: expiry.toISOString().split("T")[0],
+    });
+  });
+
+  return candidates.sort((a, b) => a.expiresOn.localeCompare(b.expiresOn));
+}
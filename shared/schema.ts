@@ -1,7 +1,7 @@
-import { pgTable, text, serial, integer, timestamp, varchar, boolean, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, timestamp, varchar, boolean, jsonb, doublePrecision, index, uniqueIndex, type PgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // Users table for authentication
 export const users = pgTable("users", {
@@ -14,6 +14,7 @@ export const users = pgTable("users", {
   providerId: varchar("provider_id"),
   passwordHash: text("password_hash"), // only for email auth
   emailVerified: boolean("email_verified").default(false),
+  inboundEmailToken: varchar("inbound_email_token").unique(), // local part of the user's forwarding address
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -29,6 +30,40 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+export const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+// Key facts pulled out of a document so they can be edited, searched and filtered on
+export const extractedFieldsSchema = z.object({
+  sender: z.string().trim().max(200).nullish(),
+  referenceNumber: z.string().trim().max(100).nullish(),
+  amountDue: z.object({
+    value: z.number().nonnegative(),
+    currency: z.string().trim().length(3).toUpperCase(), // ISO 4217, e.g. GBP
+  }).nullish(),
+  dueDate: isoDateSchema.nullish(),
+  appointment: z.object({
+    date: isoDateSchema.nullish(),
+    time: z.string().regex(/^\d{2}:\d{2}$/, "Time must be HH:MM").nullish(),
+    location: z.string().trim().max(200).nullish(),
+  }).nullish(),
+  contactPhone: z.string().trim().max(40).nullish(),
+});
+
+export type ExtractedFields = z.infer<typeof extractedFieldsSchema>;
+
+export const detailsFilters = ["all", "amount-due", "due-soon", "overdue", "appointment"] as const;
+
+// Dashboard filter combination saved as a smart folder; mirrors the dashboard's URL parameters
+export const savedSearchFiltersSchema = z.object({
+  category: z.string().trim().min(1).max(60).default("all"),
+  search: z.string().trim().max(500).default(""),
+  tags: z.array(z.string().trim().min(1).max(50)).max(50).default([]),
+  match: z.enum(["any", "all"]).default("any"),
+  details: z.enum(detailsFilters).default("all"),
+});
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+
 // Updated mail items table with user association and security
 export const mailItems = pgTable("mail_items", {
   id: serial("id").primaryKey(),
@@ -36,17 +71,192 @@ export const mailItems = pgTable("mail_items", {
   title: text("title").notNull(),
   summary: text("summary").notNull(),
   category: text("category").notNull(),
+  customCategories: text("custom_categories").array().notNull().default(sql`ARRAY[]::text[]`), // names from user_categories
   reminderDate: text("reminder_date"),
   imageUrl: text("image_url").notNull(),
+  originalImageUrl: text("original_image_url"), // the photo as uploaded, when imageUrl is the cleaned-up copy
+  thumbnailUrl: text("thumbnail_url"), // small JPEG for the dashboard; null for legacy items until backfilled
+  previewUrl: text("preview_url"), // first page of a PDF as a JPEG
   fileName: text("file_name").notNull(),
   extractedText: text("extracted_text"),
+  extractedFields: jsonb("extracted_fields").$type<ExtractedFields>().default({}).notNull(),
+  pageCount: integer("page_count").default(1).notNull(),
+  status: varchar("status").default("ready").notNull(), // 'pending', 'processing', 'ready', 'failed'
+  paymentStatus: varchar("payment_status").default("unpaid").notNull(), // 'unpaid', 'paid'; only meaningful for bills
+  paidDate: text("paid_date"), // YYYY-MM-DD
+  amountPaid: doublePrecision("amount_paid"),
+  keepForever: boolean("keep_forever").default(false).notNull(), // pinned items are never removed by retention
   uploadDate: timestamp("upload_date").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // set while the item is in the trash
+  archivedAt: timestamp("archived_at"), // archived items are hidden from the dashboard but still searchable
 }, (table) => [
   index("idx_mail_items_user_id").on(table.userId),
   index("idx_mail_items_category").on(table.category),
   index("idx_mail_items_upload_date").on(table.uploadDate),
+  index("idx_mail_items_user_upload_date").on(table.userId, table.uploadDate, table.id), // default dashboard page order
+  index("idx_mail_items_deleted_at").on(table.deletedAt),
+  index("idx_mail_items_search").using("gin", mailItemSearchDocument(table)),
+]);
+
+// Weighted full-text document (title > summary > OCR text); search queries must use the same expression to hit the index
+export function mailItemSearchDocument(columns: { title: PgColumn; summary: PgColumn; extractedText: PgColumn }) {
+  return sql`(setweight(to_tsvector('english', coalesce(${columns.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${columns.summary}, '')), 'B') || setweight(to_tsvector('english', coalesce(${columns.extractedText}, '')), 'C'))`;
+}
+
+// Background analysis jobs for uploaded documents
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: serial("id").primaryKey(),
+  mailItemId: integer("mail_item_id").notNull().references(() => mailItems.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  filePath: text("file_path").notNull(),
+  fileName: text("file_name").notNull(),
+  status: varchar("status").default("queued").notNull(), // 'queued', 'running', 'completed', 'failed'
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  lastError: text("last_error"),
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_analysis_jobs_status_run_at").on(table.status, table.runAt),
+]);
+
+// User-defined categories, persisted so they follow the user across devices
+export const userCategories = pgTable("user_categories", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 50 }).notNull(),
+  color: varchar("color").default("indigo").notNull(),
+  icon: varchar("icon").default("tag").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_user_categories_user_name").on(table.userId, table.name),
 ]);
 
+// Labels attached to mail items, either assigned by analysis or added by the user
+export const mailItemTags = pgTable("mail_item_tags", {
+  id: serial("id").primaryKey(),
+  mailItemId: integer("mail_item_id").notNull().references(() => mailItems.id, { onDelete: "cascade" }),
+  tag: varchar("tag", { length: 50 }).notNull(),
+  source: varchar("source").default("user").notNull(), // 'ai', 'user'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_mail_item_tags_item_tag").on(table.mailItemId, table.tag),
+  index("idx_mail_item_tags_tag").on(table.tag),
+]);
+
+// Reminder notifications delivered to users, one per mail item and reminder date
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  mailItemId: integer("mail_item_id").notNull().references(() => mailItems.id, { onDelete: "cascade" }),
+  reminderDate: text("reminder_date").notNull(), // the reminder date this notification was raised for
+  status: varchar("status").default("delivered").notNull(), // 'delivered', 'snoozed', 'dismissed', or 'skipped' when never shown
+  emailStatus: varchar("email_status").default("skipped").notNull(), // 'sent', 'failed', 'skipped'
+  snoozedUntil: timestamp("snoozed_until"),
+  readAt: timestamp("read_at"),
+  deliveredAt: timestamp("delivered_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_notifications_item_reminder").on(table.mailItemId, table.reminderDate),
+  index("idx_notifications_user_status").on(table.userId, table.status),
+  index("idx_notifications_snoozed_until").on(table.snoozedUntil),
+]);
+
+// Per-category retention periods used when auto-delete is enabled; a null period keeps items forever
+export const retentionPolicies = pgTable("retention_policies", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  category: varchar("category").notNull(), // one of the standard categories
+  retentionDays: integer("retention_days"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_retention_policies_user_category").on(table.userId, table.category),
+]);
+
+// Saved searches shown as smart folders; pinned folders sort first, then by position
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 60 }).notNull(),
+  filters: jsonb("filters").$type<SavedSearchFilters>().notNull(),
+  pinned: boolean("pinned").default(false).notNull(),
+  position: integer("position").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_saved_searches_user_name").on(table.userId, table.name),
+]);
+
+// Weekly digest send history, one row per user and digest week
+export const digestDeliveries = pgTable("digest_deliveries", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  weekStart: text("week_start").notNull(), // YYYY-MM-DD the digest was scheduled for, in the user's timezone
+  status: varchar("status").default("sending").notNull(), // 'sending', 'sent', 'skipped' (nothing to report), 'failed'
+  attempts: integer("attempts").default(1).notNull(),
+  itemCount: integer("item_count").default(0).notNull(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_digest_deliveries_user_week").on(table.userId, table.weekStart),
+]);
+
+// A mailbox the user imports bill PDFs from over IMAP, one per user. Only messages matching the sender and
+// subject rules are imported; empty rules match everything. The password is stored encrypted by the importer.
+export const emailImportAccounts = pgTable("email_import_accounts", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  email: varchar("email").notNull(),
+  host: varchar("host").notNull(),
+  port: integer("port").default(993).notNull(),
+  secure: boolean("secure").default(true).notNull(),
+  username: varchar("username").notNull(),
+  encryptedPassword: text("encrypted_password").notNull(),
+  folder: varchar("folder").default("INBOX").notNull(),
+  senderFilters: jsonb("sender_filters").$type<string[]>().default([]).notNull(),
+  subjectFilters: jsonb("subject_filters").$type<string[]>().default([]).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  lastPolledAt: timestamp("last_polled_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_email_import_accounts_user").on(table.userId),
+]);
+
+// Messages the importer has already looked at (imported or not), so each is handled once.
+// IMAP UIDs are only stable within one UIDVALIDITY of a folder, so all three identify a message.
+export const importedEmailMessages = pgTable("imported_email_messages", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().references(() => emailImportAccounts.id, { onDelete: "cascade" }),
+  folder: varchar("folder").notNull(),
+  uidValidity: bigint("uid_validity", { mode: "number" }).notNull(),
+  uid: bigint("uid", { mode: "number" }).notNull(),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_imported_email_messages_uid").on(table.accountId, table.folder, table.uidValidity, table.uid),
+]);
+
+// The SMTP account a user's own notification emails are sent from, saved once it has been verified.
+// The password is encrypted with the server's credential keys.
+export const userEmailConfigs = pgTable("user_email_configs", {
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).primaryKey(),
+  host: varchar("host").notNull(),
+  port: integer("port").notNull(),
+  secure: boolean("secure").default(false).notNull(),
+  username: varchar("username").notNull(),
+  encryptedPassword: text("encrypted_password").notNull(),
+  fromName: varchar("from_name"),
+  fromEmail: varchar("from_email"),
+  verifiedAt: timestamp("verified_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // User settings table
 export const userSettings = pgTable("user_settings", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).primaryKey(),
@@ -64,17 +274,87 @@ export const userSettings = pgTable("user_settings", {
 // Define relations
 export const usersRelations = relations(users, ({ many, one }) => ({
   mailItems: many(mailItems),
+  categories: many(userCategories),
   settings: one(userSettings, {
     fields: [users.id],
     references: [userSettings.userId],
   }),
 }));
 
-export const mailItemsRelations = relations(mailItems, ({ one }) => ({
+export const mailItemsRelations = relations(mailItems, ({ one, many }) => ({
   user: one(users, {
     fields: [mailItems.userId],
     references: [users.id],
   }),
+  tags: many(mailItemTags),
+}));
+
+export const mailItemTagsRelations = relations(mailItemTags, ({ one }) => ({
+  mailItem: one(mailItems, {
+    fields: [mailItemTags.mailItemId],
+    references: [mailItems.id],
+  }),
+}));
+
+export const userCategoriesRelations = relations(userCategories, ({ one }) => ({
+  user: one(users, {
+    fields: [userCategories.userId],
+    references: [users.id],
+  }),
+}));
+
+export const analysisJobsRelations = relations(analysisJobs, ({ one }) => ({
+  mailItem: one(mailItems, {
+    fields: [analysisJobs.mailItemId],
+    references: [mailItems.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  mailItem: one(mailItems, {
+    fields: [notifications.mailItemId],
+    references: [mailItems.id],
+  }),
+}));
+
+export const retentionPoliciesRelations = relations(retentionPolicies, ({ one }) => ({
+  user: one(users, {
+    fields: [retentionPolicies.userId],
+    references: [users.id],
+  }),
+}));
+
+export const digestDeliveriesRelations = relations(digestDeliveries, ({ one }) => ({
+  user: one(users, {
+    fields: [digestDeliveries.userId],
+    references: [users.id],
+  }),
+}));
+
+export const emailImportAccountsRelations = relations(emailImportAccounts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [emailImportAccounts.userId],
+    references: [users.id],
+  }),
+  messages: many(importedEmailMessages),
+}));
+
+export const importedEmailMessagesRelations = relations(importedEmailMessages, ({ one }) => ({
+  account: one(emailImportAccounts, {
+    fields: [importedEmailMessages.accountId],
+    references: [emailImportAccounts.id],
+  }),
+}));
+
+export const userEmailConfigsRelations = relations(userEmailConfigs, ({ one }) => ({
+  user: one(users, {
+    fields: [userEmailConfigs.userId],
+    references: [users.id],
+  }),
 }));
 
 export const userSettingsRelations = relations(userSettings, ({ one }) => ({
@@ -90,9 +370,56 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
-export const insertMailItemSchema = createInsertSchema(mailItems).omit({
+export const insertMailItemSchema = createInsertSchema(mailItems, {
+  extractedFields: extractedFieldsSchema,
+}).omit({
   id: true,
   uploadDate: true,
+  deletedAt: true,
+  archivedAt: true,
+});
+
+export const tagSchema = z.string().trim().min(1).max(50);
+
+// Mail item updates may carry the full replacement tag list alongside column changes. Only the fields users edit
+// are accepted; files, status and OCR output belong to the upload pipeline and the analysis worker, and payments
+// change through the payment endpoint. The category must be a standard one or one of the user's own (checked by the route).
+export const updateMailItemSchema = insertMailItemSchema.pick({
+  title: true,
+  summary: true,
+  category: true,
+  customCategories: true,
+  reminderDate: true,
+  extractedFields: true,
+  keepForever: true,
+}).partial().extend({
+  tags: z.array(tagSchema).max(20).optional(),
+});
+
+export const paymentStatuses = ["unpaid", "paid"] as const;
+
+export const updatePaymentSchema = z.discriminatedUnion("status", [
+  z.object({
+    status: z.literal("paid"),
+    paidDate: isoDateSchema.optional(), // defaults to today in the user's timezone
+    amountPaid: z.number().nonnegative().optional(), // defaults to the extracted amount due
+  }),
+  z.object({ status: z.literal("unpaid") }),
+]);
+
+export const insertAnalysisJobSchema = createInsertSchema(analysisJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const snoozeNotificationSchema = z.object({
+  days: z.number().int().min(1).max(30).default(1),
 });
 
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
@@ -125,6 +452,92 @@ export const updateSettingsSchema = z.object({
   autoDeleteOldItems: z.boolean().optional(),
 });
 
+export const categoryColors = ["indigo", "red", "amber", "green", "purple", "cyan", "blue", "emerald", "pink", "slate"] as const;
+
+export const categoryIcons = ["tag", "folder", "home", "car", "briefcase", "graduation-cap", "piggy-bank", "heart", "star", "plane"] as const;
+
+export const insertUserCategorySchema = createInsertSchema(userCategories).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const createCategorySchema = z.object({
+  name: z.string().trim().min(1, "Category name is required").max(50),
+  color: z.enum(categoryColors).optional(),
+  icon: z.enum(categoryIcons).optional(),
+});
+
+export const updateCategorySchema = createCategorySchema.partial();
+
+export const mergeCategorySchema = z.object({
+  targetId: z.number().int().positive(),
+});
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches, {
+  filters: savedSearchFiltersSchema,
+}).omit({
+  id: true,
+  position: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  filters: savedSearchFiltersSchema,
+  pinned: z.boolean().optional(),
+});
+
+export const updateSavedSearchSchema = createSavedSearchSchema.partial();
+
+export const reorderSavedSearchesSchema = z.object({
+  ids: z.array(z.number().int().positive()).max(500),
+});
+
+export const insertEmailImportAccountSchema = createInsertSchema(emailImportAccounts, {
+  senderFilters: z.array(z.string()),
+  subjectFilters: z.array(z.string()),
+}).omit({
+  id: true,
+  lastPolledAt: true,
+  lastError: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const importRuleSchema = z.array(z.string().trim().min(1).max(200)).max(20);
+
+// The IMAP server is looked up from the address for known providers; the password may be left out to keep the saved one
+export const emailImportSettingsSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+  password: z.string().min(1).max(500).optional(),
+  username: z.string().trim().min(1).max(255).optional(),
+  host: z.string().trim().min(1).max(255).optional(),
+  port: z.number().int().min(1).max(65535).optional(),
+  secure: z.boolean().optional(),
+  folder: z.string().trim().min(1).max(200).default("INBOX"),
+  senderFilters: importRuleSchema.default([]),
+  subjectFilters: importRuleSchema.default([]),
+  enabled: z.boolean().default(true),
+});
+
+export const insertUserEmailConfigSchema = createInsertSchema(userEmailConfigs).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+// SMTP settings from the setup wizard; the password may be left out to keep the saved one
+export const emailConfigSchema = z.object({
+  host: z.string().trim().min(1).max(255),
+  port: z.number().int().min(1).max(65535),
+  secure: z.boolean().default(false),
+  username: z.string().trim().min(1).max(255),
+  password: z.string().min(1).max(500).optional(),
+  fromName: z.string().trim().max(100).optional(),
+  fromEmail: z.string().trim().email("Invalid email address").optional(),
+});
+
 // Email registration schema with validation
 export const emailRegistrationSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -152,7 +565,37 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpsertUser = z.infer<typeof upsertUserSchema>;
 export type InsertMailItem = z.infer<typeof insertMailItemSchema>;
 export type MailItem = typeof mailItems.$inferSelect;
+export type MailItemTag = typeof mailItemTags.$inferSelect;
+export type MailItemWithTags = MailItem & { tags: string[] };
+export type UpdateMailItem = z.infer<typeof updateMailItemSchema>;
+export type TagSource = "ai" | "user";
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationWithItem = Notification & { mailItem: Pick<MailItem, "id" | "title" | "summary" | "reminderDate"> };
+export type DigestDelivery = typeof digestDeliveries.$inferSelect;
+export type PaymentStatus = typeof paymentStatuses[number];
+export type UpdatePayment = z.infer<typeof updatePaymentSchema>;
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type InsertAnalysisJob = z.infer<typeof insertAnalysisJobSchema>;
 export type UserSettings = typeof userSettings.$inferSelect;
+export type UserCategory = typeof userCategories.$inferSelect;
+export type InsertUserCategory = z.infer<typeof insertUserCategorySchema>;
+export type CreateCategory = z.infer<typeof createCategorySchema>;
+export type UpdateCategory = z.infer<typeof updateCategorySchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearchWithCount = SavedSearch & { count: number | null }; // null when the saved query no longer parses
+export type CreateSavedSearch = z.infer<typeof createSavedSearchSchema>;
+export type UpdateSavedSearch = z.infer<typeof updateSavedSearchSchema>;
+export type EmailImportAccount = typeof emailImportAccounts.$inferSelect;
+export type InsertEmailImportAccount = z.infer<typeof insertEmailImportAccountSchema>;
+export type EmailImportSettings = z.infer<typeof emailImportSettingsSchema>;
+export type UserEmailConfig = typeof userEmailConfigs.$inferSelect;
+export type InsertUserEmailConfig = z.infer<typeof insertUserEmailConfigSchema>;
+export type EmailConfigInput = z.infer<typeof emailConfigSchema>;
+export type DetailsFilter = typeof detailsFilters[number];
+export type CategoryColor = typeof categoryColors[number];
+export type CategoryIcon = typeof categoryIcons[number];
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 export type EmailRegistration = z.infer<typeof emailRegistrationSchema>;
 export type EmailLogin = z.infer<typeof emailLoginSchema>;
@@ -171,3 +614,21 @@ export const categories = [
 ] as const;
 
 export type Category = typeof categories[number];
+
+export const mailItemStatuses = ["pending", "processing", "ready", "failed"] as const;
+
+export type MailItemStatus = typeof mailItemStatuses[number];
+
+// Retention policies reference the standard categories, so they are declared after them
+export const retentionPolicySchema = z.object({
+  category: z.enum(categories),
+  retentionDays: z.number().int().min(1).max(36500).nullable(),
+});
+
+export const updateRetentionPoliciesSchema = z.object({
+  policies: z.array(retentionPolicySchema).max(categories.length),
+});
+
+export type RetentionPolicy = typeof retentionPolicies.$inferSelect;
+export type RetentionPolicyInput = z.infer<typeof retentionPolicySchema>;
+export type UpdateRetentionPolicies = z.infer<typeof updateRetentionPoliciesSchema>;
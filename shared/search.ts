@@ -0,0 +1,85 @@
+// Full-text search request/response shapes and highlight handling shared by the API and the dashboard
+import { z } from "zod";
+import type { MailItemWithTags } from "./schema";
+import type { TextTerm } from "./query-language";
+
+// ts_headline wraps matches in these markers; the client turns them into <mark> elements
+export const HIGHLIGHT_START = "[[hl]]";
+export const HIGHLIGHT_END = "[[/hl]]";
+
+export const searchParamsSchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type SearchParams = z.infer<typeof searchParamsSchema>;
+
+export interface SearchResult {
+  item: MailItemWithTags;
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+export interface SearchResults {
+  results: SearchResult[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export function toWords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9À-ɏ]+/g) || [];
+  // Single letters (e.g. the "s" in "bill's") would match almost everything as prefixes
+  const meaningful = words.filter(word => word.length > 1);
+  return meaningful.length > 0 ? meaningful : words;
+}
+
+// Build a tsquery from the free-text terms: every word must match as a prefix ("elec bil" -> "elec:* & bil:*"),
+// quoted phrases must appear in order, and negated terms must not appear
+export function toTsQuery(terms: TextTerm[]): string | null {
+  const parts: string[] = [];
+
+  terms.slice(0, 10).forEach(term => {
+    const words = toWords(term.value);
+    if (words.length === 0) return;
+
+    const expression = term.phrase
+      ? `(${words.map(word => `${word}:*`).join(" <-> ")})`
+      : words.map(word => `${word}:*`).join(" & ");
+    parts.push(term.negated ? `!(${expression})` : expression);
+  });
+
+  return parts.length > 0 ? parts.join(" & ") : null;
+}
+
+export function splitHighlights(text: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    const end = rest.indexOf(HIGHLIGHT_END, start + HIGHLIGHT_START.length);
+    if (end === -1) {
+      segments.push({ text: rest.replace(HIGHLIGHT_START, ""), highlighted: false });
+      break;
+    }
+
+    if (start > 0) segments.push({ text: rest.slice(0, start), highlighted: false });
+    segments.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+
+  return segments;
+}
@@ -0,0 +1,15 @@
+// Limits for uploading several scans at once, shared by the upload area and the upload routes
+export const MAX_UPLOAD_FILES = 20;
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // per file
+
+// "separate" creates one mail item per file; "combine" stitches the files into a single PDF document
+export const uploadModes = ["separate", "combine"] as const;
+export type UploadMode = typeof uploadModes[number];
+
+// Scans are JPEG, PNG or PDF; both the file extension and the reported type have to agree
+const allowedTypes = /jpeg|jpg|png|pdf/;
+
+export function isAllowedUploadFile(fileName: string, mimeType: string): boolean {
+  const extension = fileName.slice(fileName.lastIndexOf(".") + 1).toLowerCase();
+  return fileName.includes(".") && allowedTypes.test(extension) && allowedTypes.test(mimeType.toLowerCase());
+}